@@ -1,26 +1,23 @@
 import React from 'react';
 import { Provider } from 'react-redux';
+import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { store } from './store';
 import { AuthProvider } from './contexts/AuthProvider';
 import AppContent from './components/AppContent';
 import AuthCallback from './components/Auth/AuthCallback';
+import { ROUTES } from './lib/routes';
 
 function App() {
-  // Check if we're on the auth callback route
-  if (window.location.pathname === '/auth/callback') {
-    return (
-      <Provider store={store}>
-        <AuthProvider>
-          <AuthCallback />
-        </AuthProvider>
-      </Provider>
-    );
-  }
-
   return (
     <Provider store={store}>
       <AuthProvider>
-        <AppContent />
+        <BrowserRouter>
+          <Routes>
+            <Route path={ROUTES.authCallback} element={<AuthCallback />} />
+            {/* Every other page shares the header, footer and modals */}
+            <Route path="*" element={<AppContent />} />
+          </Routes>
+        </BrowserRouter>
       </AuthProvider>
     </Provider>
   );
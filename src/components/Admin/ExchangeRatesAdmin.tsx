@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, RefreshCw, ShieldCheck } from 'lucide-react';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import { fetchCurrencies, updateExchangeRates } from '../../store/slices/currencySlice';
+import { grantAdmin } from '../../services/userService';
+import { BASE_CURRENCY } from '../../lib/money';
+import { ROUTES } from '../../lib/routes';
+import { CurrencyCode } from '../../types';
+
+const formatUpdatedAt = (date: string) =>
+  new Date(date).toLocaleString('sk-SK', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Admin page: exchange rates against the euro and adding other admins
+const ExchangeRatesAdmin: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { currencies, ratesSaving, ratesError } = useAppSelector((state) => state.currency);
+
+  // Edited rates only, the others show the current table
+  const [draft, setDraft] = useState<Record<CurrencyCode, string>>({});
+  const [invalidCodes, setInvalidCodes] = useState<CurrencyCode[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  const [adminEmail, setAdminEmail] = useState('');
+  const [adminSaving, setAdminSaving] = useState(false);
+  const [adminError, setAdminError] = useState<string | null>(null);
+  const [adminAdded, setAdminAdded] = useState<string | null>(null);
+
+  const editableCurrencies = currencies.filter(currency => currency.code !== BASE_CURRENCY);
+
+  const updateRate = (code: CurrencyCode, value: string) => {
+    setDraft({ ...draft, [code]: value });
+    setInvalidCodes(invalidCodes.filter(invalid => invalid !== code));
+    setSaved(false);
+  };
+
+  const handleSaveRates = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rates: Record<CurrencyCode, number> = {};
+    const invalid: CurrencyCode[] = [];
+    Object.entries(draft).forEach(([code, value]) => {
+      const rate = Number(value.replace(',', '.'));
+      if (value.trim() === '' || !Number.isFinite(rate) || rate <= 0) {
+        invalid.push(code);
+      } else {
+        rates[code] = rate;
+      }
+    });
+
+    setInvalidCodes(invalid);
+    if (invalid.length > 0 || Object.keys(rates).length === 0) return;
+
+    const result = await dispatch(updateExchangeRates(rates));
+    if (updateExchangeRates.fulfilled.match(result)) {
+      setDraft({});
+      setSaved(true);
+      dispatch(fetchCurrencies());
+    }
+  };
+
+  const handleGrantAdmin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = adminEmail.trim();
+    if (!email) return;
+
+    setAdminSaving(true);
+    setAdminError(null);
+    setAdminAdded(null);
+
+    const { error } = await grantAdmin(email);
+
+    setAdminSaving(false);
+    if (error) {
+      setAdminError(error);
+      return;
+    }
+
+    setAdminAdded(email);
+    setAdminEmail('');
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate(ROUTES.home)}
+        className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900 transition-colors mb-6"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        <span>Späť na vyhľadávanie</span>
+      </button>
+
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Správa kurzov</h1>
+
+      <form onSubmit={handleSaveRates} className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-6 mb-6">
+        <p className="text-sm text-gray-600">
+          Počet jednotiek meny za 1 {BASE_CURRENCY}. Nové kurzy sa použijú pri prepočte cien a vo filtri ceny.
+        </p>
+
+        <div className="divide-y divide-gray-100">
+          {editableCurrencies.map(currency => (
+            <div key={currency.code} className="flex items-center justify-between py-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{currency.code}</p>
+                <p className="text-xs text-gray-500">Aktualizované {formatUpdatedAt(currency.updatedAt)}</p>
+              </div>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={draft[currency.code] ?? String(currency.ratePerEur)}
+                onChange={(e) => updateRate(currency.code, e.target.value)}
+                className={`w-32 px-3 py-2 border rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 ${
+                  invalidCodes.includes(currency.code) ? 'border-red-300' : 'border-gray-300'
+                }`}
+              />
+            </div>
+          ))}
+        </div>
+
+        {invalidCodes.length > 0 && (
+          <p className="text-red-600 text-xs">Kurz musí byť kladné číslo: {invalidCodes.join(', ')}</p>
+        )}
+
+        {ratesError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{ratesError}</p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end space-x-4">
+          {saved && (
+            <span className="flex items-center space-x-1 text-sm text-emerald-600">
+              <CheckCircle className="h-4 w-4" />
+              <span>Kurzy uložené</span>
+            </span>
+          )}
+          <button
+            type="submit"
+            disabled={ratesSaving || Object.keys(draft).length === 0}
+            className="flex items-center space-x-2 bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>{ratesSaving ? 'Ukladám...' : 'Uložiť kurzy'}</span>
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleGrantAdmin} className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Pridať administrátora</h2>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">E-mail registrovaného používateľa</label>
+          <input
+            type="email"
+            value={adminEmail}
+            onChange={(e) => {
+              setAdminEmail(e.target.value);
+              setAdminError(null);
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </div>
+
+        {adminError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{adminError}</p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end space-x-4">
+          {adminAdded && (
+            <span className="flex items-center space-x-1 text-sm text-emerald-600">
+              <CheckCircle className="h-4 w-4" />
+              <span>{adminAdded} je administrátor</span>
+            </span>
+          )}
+          <button
+            type="submit"
+            disabled={adminSaving || !adminEmail.trim()}
+            className="flex items-center space-x-2 bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            <ShieldCheck className="h-4 w-4" />
+            <span>{adminSaving ? 'Pridávam...' : 'Pridať'}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ExchangeRatesAdmin;
@@ -1,27 +1,71 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Routes, Route, Navigate, useLocation, useMatch, useNavigate } from 'react-router-dom';
 import { useAppSelector, useAppDispatch } from '../hooks/redux';
+import { useSearchUrlSync } from '../hooks/useSearchUrlSync';
 import { 
   openAuthModal, 
   closeAuthModal, 
-  openCamperModal, 
-  closeCamperModal, 
   openFilterSidebar, 
-  closeFilterSidebar 
+  closeFilterSidebar,
+  openBookingConfirmation,
+  closeBookingConfirmation,
+  openListingWizard,
+  closeListingWizard,
+  openBecomeOwnerPrompt,
+  closeBecomeOwnerPrompt
 } from '../store/slices/uiSlice';
-import { setSearchQuery, setFilters, toggleFavorite } from '../store/slices/campersSlice';
-import { completeProfileSetup } from '../store/slices/authSlice';
+import {
+  setSearchQuery,
+  setFilters,
+  setTravelDates,
+  setSortBy,
+  toggleFavorite,
+  searchCampers,
+  fetchMoreCampers,
+  fetchCamper,
+  fetchCamperAvailability
+} from '../store/slices/campersSlice';
+import { completeProfileSetup, switchToOwner } from '../store/slices/authSlice';
+import { createBooking, clearCurrentBooking } from '../store/slices/bookingsSlice';
+import { fetchConversations, openConversation, receiveMessage } from '../store/slices/messagesSlice';
+import { subscribeToMessages } from '../services/messageService';
+import { Camper, FilterOptions } from '../types';
+import { fromISODate } from '../lib/availability';
+import { ROUTES, camperPath, CamperLinkState } from '../lib/routes';
+import { SORT_OPTIONS, SortOption } from '../lib/sorting';
+import { toSearchString } from '../lib/searchParams';
+import { tokenizeQuery } from '../lib/textSearch';
 import Header from './Layout/Header';
 import Footer from './Layout/Footer';
-import Hero from './Home/Hero';
+import Hero, { HeroSearchParams } from './Home/Hero';
 import CamperGrid from './Campers/CamperGrid';
 import CamperModal from './Campers/CamperModal';
 import FilterSidebar from './Filters/FilterSidebar';
 import AuthModal from './Auth/AuthModal';
 import ProfileSetupModal from './Auth/ProfileSetupModal';
-import { SlidersHorizontal } from 'lucide-react';
+import BookingConfirmationModal from './Bookings/BookingConfirmationModal';
+import OwnerDashboard from './Owner/OwnerDashboard';
+import ListingWizard from './Owner/ListingWizard';
+import BecomeOwnerPrompt from './Owner/BecomeOwnerPrompt';
+import Inbox from './Messages/Inbox';
+import FavoritesPage from './Favorites/FavoritesPage';
+import CustomerBookings from './Bookings/CustomerBookings';
+import ProfileSettings from './Profile/ProfileSettings';
+import ExchangeRatesAdmin from './Admin/ExchangeRatesAdmin';
+import { SlidersHorizontal, Calendar, X, ArrowUpDown } from 'lucide-react';
+
+// Typing a price or a search term changes the criteria on every keystroke
+const SEARCH_DELAY_MS = 300;
 
 const AppContent: React.FC = () => {
   const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // 🔗 ROUTER: /campers/:id shows the camper modal over the page it was opened from
+  const camperMatch = useMatch(ROUTES.camper);
+  const selectedCamperId = camperMatch?.params.id ?? null;
+  const backgroundLocation = (location.state as CamperLinkState | null)?.backgroundLocation;
   
   // 🎯 REDUX: All state from store
   const {
@@ -29,26 +73,78 @@ const AppContent: React.FC = () => {
     loading,
     needsProfileSetup,
     pendingUserData,
-    isAuthenticated
+    isAuthenticated,
+    profileSaving,
+    profileError
   } = useAppSelector((state) => state.auth);
   
   const {
     isAuthModalOpen,
-    isCamperModalOpen,
     isFilterSidebarOpen,
+    isBookingConfirmationOpen,
+    isListingWizardOpen,
+    isBecomeOwnerPromptOpen,
     authModalDefaultRole,
-    authModalDefaultMode,
-    selectedCamperId
+    authModalDefaultMode
   } = useAppSelector((state) => state.ui);
   
   const {
-    filteredCampers,
+    results,
+    totalCount,
+    hasMore,
+    loadingMore,
+    loadMoreError,
+    searchOrigin,
+    facets,
+    priceHistogram,
     searchQuery,
     favorites,
+    favoriteCampers,
+    camperDetail,
+    availabilityByCamperId,
     filters,
-    allCampers
+    sortBy,
+    loading: campersLoading,
+    error: campersError
   } = useAppSelector((state) => state.campers);
 
+  const {
+    currentBooking,
+    customerBookings,
+    creating: bookingCreating,
+    error: bookingError
+  } = useAppSelector((state) => state.bookings);
+
+  // 🔗 Search text, filters and dates live in the home page URL
+  useSearchUrlSync();
+
+  // 🚐 Search again once the criteria stop changing, dropping the previous request;
+  // the first search on page load goes out right away
+  const searchKey = toSearchString({ searchQuery, filters, sortBy });
+  const hasSearchedRef = useRef(false);
+  useEffect(() => {
+    let request: { abort: () => void } | null = null;
+    const timer = window.setTimeout(() => {
+      request = dispatch(searchCampers());
+    }, hasSearchedRef.current ? SEARCH_DELAY_MS : 0);
+    hasSearchedRef.current = true;
+
+    return () => {
+      window.clearTimeout(timer);
+      request?.abort();
+    };
+  }, [dispatch, searchKey]);
+
+  // 📡 Inbox unread counts and live message delivery for the signed-in user
+  useEffect(() => {
+    if (!user?.id) return;
+
+    dispatch(fetchConversations(user.id));
+    return subscribeToMessages(user.id, (message) => {
+      dispatch(receiveMessage(message));
+    });
+  }, [dispatch, user?.id]);
+
   // 🎯 CRITICAL: Modal visibility check ONLY when NOT loading
   const shouldShowProfileModal = !loading && needsProfileSetup && pendingUserData;
 
@@ -61,29 +157,114 @@ const AppContent: React.FC = () => {
   });
 
   // Get selected camper
-  const selectedCamper = selectedCamperId 
-    ? allCampers.find(c => c.id === selectedCamperId) || null 
+  // Favourites and past bookings may hold campers that are not part of the loaded catalogue
+  const listedCamper = selectedCamperId 
+    ? results.find(c => c.id === selectedCamperId) ||
+      favoriteCampers.find(f => f.camperId === selectedCamperId)?.camper ||
+      customerBookings.find(b => b.camper?.id === selectedCamperId)?.camper ||
+      (camperDetail?.id === selectedCamperId ? camperDetail : null)
     : null;
+  const isSelectedCamperLoaded = !!listedCamper;
+
+  // Booked nights are kept per camper id, whichever list the camper came from
+  const selectedAvailability = selectedCamperId ? availabilityByCamperId[selectedCamperId] : undefined;
+  const selectedCamper = useMemo(
+    () => listedCamper && selectedAvailability
+      ? { ...listedCamper, availability: selectedAvailability }
+      : listedCamper,
+    [listedCamper, selectedAvailability]
+  );
+
+  // 📅 Fresh availability whenever a camper is opened (click, link or back/forward)
+  useEffect(() => {
+    if (selectedCamperId) {
+      dispatch(fetchCamperAvailability(selectedCamperId));
+    }
+  }, [dispatch, selectedCamperId]);
+
+  // 🔗 Shared link to a camper that none of the loaded lists contain
+  useEffect(() => {
+    if (!selectedCamperId || isSelectedCamperLoaded) return;
+
+    let cancelled = false;
+    dispatch(fetchCamper(selectedCamperId)).then((result) => {
+      // Unknown or unpublished camper: leave the dead link for the home page
+      if (!cancelled && fetchCamper.rejected.match(result)) {
+        navigate(ROUTES.home, { replace: true });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, navigate, selectedCamperId, isSelectedCamperLoaded]);
 
   // 🎯 REDUX: Event handlers
   const handleSearch = (query: string) => {
     dispatch(setSearchQuery(query));
   };
 
-  const handleCamperClick = (camper: any) => {
-    dispatch(openCamperModal(camper.id));
+  const handleHeroSearch = ({ location, startDate, endDate }: HeroSearchParams) => {
+    dispatch(setSearchQuery(location));
+    dispatch(setTravelDates({ startDate, endDate }));
+  };
+
+  const handleClearTravelDates = () => {
+    dispatch(setTravelDates({ startDate: '', endDate: '' }));
+  };
+
+  const formatTravelDate = (date: string) =>
+    fromISODate(date).toLocaleDateString('sk-SK', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const hasTravelDates = !!filters.startDate && !!filters.endDate;
+
+  const handleCamperClick = (camper: Camper) => {
+    const state: CamperLinkState = { backgroundLocation: location };
+    navigate(camperPath(camper.id), { state });
+  };
+
+  const handleCamperModalClose = () => {
+    // Opened from within the app: going back restores the page underneath,
+    // opened from a shared link: there is no page to go back to
+    if (backgroundLocation) {
+      navigate(-1);
+    } else {
+      navigate(ROUTES.home, { replace: true });
+    }
   };
 
   const handleFavorite = (camperId: string) => {
     dispatch(toggleFavorite(camperId));
   };
 
-  const handleFiltersChange = (newFilters: any) => {
+  const handleFiltersChange = (newFilters: FilterOptions) => {
     dispatch(setFilters(newFilters));
   };
 
-  const handleBooking = (camper: any) => {
-    alert(`Žiadosť o rezerváciu bola odoslaná pre ${camper.title}! Čoskoro dostanete potvrdzujúci e-mail.`);
+  const handleBooking = (camper: Camper, checkIn: string, checkOut: string) => {
+    if (!isAuthenticated || !user) {
+      console.log('📅 Opening LOGIN modal before booking');
+      dispatch(openAuthModal({ role: 'customer', mode: 'login' }));
+      return;
+    }
+
+    dispatch(openBookingConfirmation());
+    dispatch(createBooking({ camper, checkIn, checkOut, user }));
+  };
+
+  const handleContactHost = (camper: Camper) => {
+    if (!isAuthenticated || !user) {
+      console.log('💬 Opening LOGIN modal before contacting host');
+      dispatch(openAuthModal({ role: 'customer', mode: 'login' }));
+      return;
+    }
+
+    dispatch(openConversation({ camper, customer: user }));
+    navigate(ROUTES.messages);
+  };
+
+  const handleBookingConfirmationClose = () => {
+    dispatch(closeBookingConfirmation());
+    dispatch(clearCurrentBooking());
   };
 
   const handleAuthClick = (defaultRole: 'owner' | 'customer' = 'customer', defaultMode: 'login' | 'register' = 'login') => {
@@ -94,8 +275,20 @@ const AppContent: React.FC = () => {
     if (!isAuthenticated) {
       console.log('🚗 Opening REGISTRATION modal for Add Campervan');
       dispatch(openAuthModal({ role: 'owner', mode: 'register' }));
+    } else if (user?.role === 'owner') {
+      console.log('🚗 Opening listing wizard');
+      dispatch(openListingWizard());
     } else {
-      console.log('🚗 Add campervan functionality for authenticated user');
+      console.log('🚗 Only owners can list a campervan, offering the role switch');
+      dispatch(openBecomeOwnerPrompt());
+    }
+  };
+
+  const handleBecomeOwner = async () => {
+    const result = await dispatch(switchToOwner());
+    if (switchToOwner.fulfilled.match(result)) {
+      dispatch(closeBecomeOwnerPrompt());
+      dispatch(openListingWizard());
     }
   };
 
@@ -104,39 +297,90 @@ const AppContent: React.FC = () => {
     dispatch(completeProfileSetup({ name: newUser.name, role: newUser.role }));
   };
 
-  return (
-    <div className="min-h-screen bg-gray-50">
-      <Header 
-        onSearch={handleSearch} 
-        onAuthClick={() => handleAuthClick('customer', 'login')}
-        onAddCampervanClick={handleAddCampervanClick}
-      />
-      
+  // Signed-in pages wait for the session, then send visitors to the home page
+  const renderSignedIn = (page: React.ReactNode, allowed: boolean = !!user) => {
+    if (allowed) return page;
+    if (loading) {
+      return (
+        <div className="flex justify-center py-24">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+        </div>
+      );
+    }
+    return <Navigate to={ROUTES.home} replace />;
+  };
+
+  const highlightedTerms = tokenizeQuery(searchQuery);
+  const resultsTitle = searchOrigin && filters.radiusKm > 0
+    ? `Campervany do ${filters.radiusKm} km od "${searchQuery}"`
+    : searchOrigin
+      ? `Najbližšie k "${searchQuery}"`
+      : searchQuery ? `Výsledky pre "${searchQuery}"` : 'Odporúčané Campervany';
+
+  const homePage = (
+    <>
       <Hero 
-        onSearch={handleSearch} 
+        onSearch={handleHeroSearch} 
         onAddCampervanClick={handleAddCampervanClick}
       />
-      
+  
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex items-center justify-between mb-6">
           <div>
             <h2 className="text-2xl font-bold text-gray-900">
-              {searchQuery ? `Výsledky pre "${searchQuery}"` : 'Odporúčané Campervany'}
+              {resultsTitle}
             </h2>
             <p className="text-gray-600 mt-1">
-              {filteredCampers.length} {filteredCampers.length === 1 ? 'campervan' : 'campervanoch'} k dispozícii
+              {totalCount} {totalCount === 1 ? 'campervan' : 'campervanoch'} k dispozícii
             </p>
+            {hasTravelDates && (
+              <div className="inline-flex items-center space-x-2 mt-2 px-3 py-1 bg-emerald-50 text-emerald-800 rounded-full text-sm">
+                <Calendar className="h-4 w-4" />
+                <span>
+                  {formatTravelDate(filters.startDate)} – {formatTravelDate(filters.endDate)}
+                </span>
+                <button
+                  onClick={handleClearTravelDates}
+                  className="p-0.5 rounded-full hover:bg-emerald-100 transition-colors"
+                  aria-label="Zrušiť dátumy"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+          </div>
+      
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <ArrowUpDown className="h-4 w-4" />
+              <span className="sr-only">Zoradiť</span>
+              <select
+                value={sortBy}
+                onChange={(e) => dispatch(setSortBy(e.target.value as SortOption))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option
+                    key={option.value}
+                    value={option.value}
+                    disabled={option.value === 'distance' && !searchQuery.trim()}
+                  >
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <button
+              onClick={() => dispatch(openFilterSidebar())}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors lg:hidden"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              <span>Filtre</span>
+            </button>
           </div>
-          
-          <button
-            onClick={() => dispatch(openFilterSidebar())}
-            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors lg:hidden"
-          >
-            <SlidersHorizontal className="h-4 w-4" />
-            <span>Filtre</span>
-          </button>
         </div>
-        
+    
         <div className="flex gap-8">
           <div className="hidden lg:block w-80 flex-shrink-0">
             <FilterSidebar
@@ -144,28 +388,92 @@ const AppContent: React.FC = () => {
               onClose={() => {}}
               filters={filters}
               onFiltersChange={handleFiltersChange}
+              canFilterByDistance={!!searchQuery.trim()}
+              facets={facets}
+              priceHistogram={priceHistogram}
             />
           </div>
-          
+      
           <div className="flex-1">
             <CamperGrid
-              campers={filteredCampers}
+              campers={results}
               onCamperClick={handleCamperClick}
               onFavorite={handleFavorite}
               favorites={favorites}
+              loading={campersLoading}
+              error={campersError}
+              onRetry={() => dispatch(searchCampers())}
+              origin={searchOrigin?.coordinates}
+              highlightedTerms={searchOrigin ? undefined : highlightedTerms}
+              stay={hasTravelDates && filters.priceBasis === 'trip'
+                ? { checkIn: filters.startDate, checkOut: filters.endDate }
+                : null}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              loadMoreError={loadMoreError}
+              onLoadMore={() => dispatch(fetchMoreCampers())}
             />
           </div>
         </div>
       </div>
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header 
+        onSearch={handleSearch} 
+        onAuthClick={() => handleAuthClick('customer', 'login')}
+        onAddCampervanClick={handleAddCampervanClick}
+      />
+      
+      <Routes location={backgroundLocation || location}>
+        <Route path={ROUTES.home} element={homePage} />
+        <Route path={ROUTES.camper} element={homePage} />
+        <Route path={ROUTES.owner} element={renderSignedIn(<OwnerDashboard />, user?.role === 'owner')} />
+        <Route path={ROUTES.messages} element={renderSignedIn(<Inbox />)} />
+        <Route path={ROUTES.favorites} element={renderSignedIn(<FavoritesPage onCamperClick={handleCamperClick} />)} />
+        <Route path={ROUTES.bookings} element={renderSignedIn(<CustomerBookings onCamperClick={handleCamperClick} />)} />
+        <Route path={ROUTES.profile} element={renderSignedIn(<ProfileSettings key={user?.id} />)} />
+        <Route path={ROUTES.admin} element={renderSignedIn(<ExchangeRatesAdmin />, !!user?.isAdmin)} />
+        <Route path="*" element={<Navigate to={ROUTES.home} replace />} />
+      </Routes>
       
       <Footer />
       
       {/* 🎯 REDUX: All modals controlled by Redux state */}
       <CamperModal
         camper={selectedCamper}
-        isOpen={isCamperModalOpen}
-        onClose={() => dispatch(closeCamperModal())}
+        isOpen={!!selectedCamperId}
+        onClose={handleCamperModalClose}
         onBook={handleBooking}
+        onContactHost={selectedCamper?.owner.id !== user?.id ? handleContactHost : undefined}
+        defaultCheckIn={filters.startDate}
+        defaultCheckOut={filters.endDate}
+      />
+
+      <BookingConfirmationModal
+        isOpen={isBookingConfirmationOpen}
+        creating={bookingCreating}
+        booking={currentBooking}
+        error={bookingError}
+        onClose={handleBookingConfirmationClose}
+      />
+
+      {user?.role === 'owner' && (
+        <ListingWizard
+          isOpen={isListingWizardOpen}
+          onClose={() => dispatch(closeListingWizard())}
+          owner={user}
+        />
+      )}
+
+      <BecomeOwnerPrompt
+        isOpen={isBecomeOwnerPromptOpen && user?.role === 'customer'}
+        saving={profileSaving}
+        error={profileError}
+        onConfirm={handleBecomeOwner}
+        onClose={() => dispatch(closeBecomeOwnerPrompt())}
       />
       
       <AuthModal
@@ -191,6 +499,9 @@ const AppContent: React.FC = () => {
         onClose={() => dispatch(closeFilterSidebar())}
         filters={filters}
         onFiltersChange={handleFiltersChange}
+        canFilterByDistance={!!searchQuery.trim()}
+        facets={facets}
+        priceHistogram={priceHistogram}
       />
 
       {/* Redux Debug Panel */}
@@ -1,17 +1,18 @@
-import React, { useEffect, useState } from 'react';
-import { useAuth } from '../../contexts/AuthProvider';
+import React, { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAppSelector } from '../../hooks/redux';
+import { ROUTES } from '../../lib/routes';
 
 const AuthCallback: React.FC = () => {
-  const { session, loading, needsProfileSetup, pendingUserData } = useAuth();
-  const [redirecting, setRedirecting] = useState(false);
+  const navigate = useNavigate();
+  const { session, loading, needsProfileSetup, pendingUserData } = useAppSelector((state) => state.auth);
 
   useEffect(() => {
     console.log('🔄 AuthCallback state:', { 
       hasSession: !!session, 
       loading, 
       needsProfileSetup, 
-      hasPendingData: !!pendingUserData,
-      redirecting 
+      hasPendingData: !!pendingUserData
     });
     
     // Wait for auth to finish loading
@@ -20,21 +21,11 @@ const AuthCallback: React.FC = () => {
       return;
     }
 
-    // If we have a session and not already redirecting, redirect to main app
-    if (session && !redirecting) {
-      console.log('🔄 Redirecting to home page...');
-      setRedirecting(true);
-      
-      // Immediate redirect without delay
-      window.location.href = '/';
-    }
-
-    // If no session after loading, something went wrong
-    if (!loading && !session) {
-      console.log('❌ No session found, redirecting to home');
-      window.location.href = '/';
-    }
-  }, [session, loading, needsProfileSetup, pendingUserData, redirecting]);
+    // Signed in (or not, if something went wrong): either way continue on the home page,
+    // replacing the callback URL so back does not land here again
+    console.log(session ? '🔄 Redirecting to home page...' : '❌ No session found, redirecting to home');
+    navigate(ROUTES.home, { replace: true });
+  }, [session, loading, needsProfileSetup, pendingUserData, navigate]);
 
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -55,7 +46,6 @@ const AuthCallback: React.FC = () => {
             <div>Loading: {loading ? '⏳' : '✅'}</div>
             <div>Needs Setup: {needsProfileSetup ? '✅' : '❌'}</div>
             <div>Pending Data: {pendingUserData ? '✅' : '❌'}</div>
-            <div>Redirecting: {redirecting ? '✅' : '❌'}</div>
           </div>
         )}
       </div>
@@ -0,0 +1,126 @@
+import React, { useEffect } from 'react';
+import { X, CheckCircle, AlertCircle, Calendar, MapPin } from 'lucide-react';
+import { Booking } from '../../types';
+import { getBookingReference } from '../../lib/bookingConfirmation';
+import { formatMoney } from '../../lib/money';
+
+interface BookingConfirmationModalProps {
+  isOpen: boolean;
+  creating: boolean;
+  booking: Booking | null;
+  error: string | null;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('sk-SK', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const BookingConfirmationModal: React.FC<BookingConfirmationModalProps> = ({
+  isOpen,
+  creating,
+  booking,
+  error,
+  onClose
+}) => {
+  // Disable/enable body scroll when modal opens/closes
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = 'unset';
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-md w-full p-6 relative shadow-2xl">
+        {!creating && (
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        )}
+
+        {creating && (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-emerald-600 mx-auto mb-4"></div>
+            <p className="text-gray-700 font-medium">Odosielame žiadosť o rezerváciu...</p>
+          </div>
+        )}
+
+        {!creating && error && (
+          <div className="text-center py-4">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Rezerváciu sa nepodarilo vytvoriť</h2>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <button
+              onClick={onClose}
+              className="w-full bg-gray-100 text-gray-700 py-3 px-4 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Zavrieť
+            </button>
+          </div>
+        )}
+
+        {!creating && !error && booking?.camper && (
+          <div>
+            <div className="text-center mb-6">
+              <CheckCircle className="h-12 w-12 text-emerald-600 mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Žiadosť odoslaná</h2>
+              <p className="text-gray-600">
+                Majiteľ {booking.camper.owner.name} teraz vašu rezerváciu potvrdí.
+              </p>
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-4 space-y-3 mb-6">
+              <div>
+                <p className="font-semibold text-gray-900">{booking.camper.title}</p>
+                <div className="flex items-center space-x-1 text-sm text-gray-600">
+                  <MapPin className="h-4 w-4" />
+                  <span>{booking.camper.location}</span>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2 text-sm text-gray-700">
+                <Calendar className="h-4 w-4" />
+                <span>
+                  {formatDate(booking.startDate)} – {formatDate(booking.endDate)} ({booking.nights} {booking.nights === 1 ? 'noc' : 'nocí'})
+                </span>
+              </div>
+              <div className="flex justify-between text-sm border-t border-gray-200 pt-3">
+                <span className="text-gray-600">Číslo rezervácie</span>
+                <span className="font-mono text-gray-900">{getBookingReference(booking)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Stav</span>
+                <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full text-xs font-medium">
+                  Čaká na potvrdenie
+                </span>
+              </div>
+              <div className="flex justify-between font-semibold text-lg border-t border-gray-200 pt-3">
+                <span>Celkom</span>
+                <span>{formatMoney(booking.totalPrice, booking.currency)}</span>
+              </div>
+            </div>
+
+            <button
+              onClick={onClose}
+              className="w-full bg-emerald-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-emerald-700 transition-colors"
+            >
+              Hotovo
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingConfirmationModal;
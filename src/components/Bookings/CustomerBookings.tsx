@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Calendar, Download, MessageCircle, Star, X, Luggage } from 'lucide-react';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import { fetchCustomerBookings, updateBookingStatus } from '../../store/slices/bookingsSlice';
+import { openConversation } from '../../store/slices/messagesSlice';
+import { Booking, Camper } from '../../types';
+import {
+  BOOKING_STATUS_COLORS,
+  BOOKING_STATUS_LABELS,
+  BookingPhase,
+  UNLISTED_CAMPER_TITLE,
+  canTransition,
+  getBookingPhase
+} from '../../lib/bookingStatus';
+import { downloadBookingConfirmation } from '../../lib/bookingConfirmation';
+import { fromISODate } from '../../lib/availability';
+import { ROUTES } from '../../lib/routes';
+import { formatMoney } from '../../lib/money';
+
+interface CustomerBookingsProps {
+  onCamperClick: (camper: Camper) => void;
+}
+
+const formatDate = (date: string) =>
+  fromISODate(date).toLocaleDateString('sk-SK', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const PHASES: { key: BookingPhase; label: string }[] = [
+  { key: 'inProgress', label: 'Práve prebieha' },
+  { key: 'upcoming', label: 'Nadchádzajúce' },
+  { key: 'past', label: 'Minulé' },
+  { key: 'cancelled', label: 'Zrušené' }
+];
+
+const CustomerBookings: React.FC<CustomerBookingsProps> = ({ onCamperClick }) => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { user } = useAppSelector((state) => state.auth);
+  const {
+    customerBookings,
+    customerBookingsLoading,
+    customerBookingsError,
+    reviewedBookingIds,
+    updatingBookingId
+  } = useAppSelector((state) => state.bookings);
+
+  const [cancellingBookingId, setCancellingBookingId] = useState<string | null>(null);
+  const [cancelNote, setCancelNote] = useState('');
+
+  useEffect(() => {
+    if (user?.id) {
+      dispatch(fetchCustomerBookings(user.id));
+    }
+  }, [dispatch, user?.id]);
+
+  if (!user) return null;
+
+  const handleCancel = (booking: Booking) => {
+    dispatch(updateBookingStatus({ booking, to: 'cancelled', actor: 'customer', note: cancelNote }));
+    setCancellingBookingId(null);
+    setCancelNote('');
+  };
+
+  const handleMessageOwner = (camper: Camper, booking: Booking) => {
+    dispatch(openConversation({ camper, customer: user, bookingId: booking.id }));
+    navigate(ROUTES.messages);
+  };
+
+  const renderBooking = (booking: Booking) => {
+    // Unlisted campers cannot be opened, reviewed or messaged about
+    const { camper } = booking;
+    const canCancel = canTransition(booking, 'cancelled', 'customer');
+    const canReview = booking.status === 'completed' && !reviewedBookingIds.includes(booking.id);
+    const canDownload = booking.status === 'confirmed' || booking.status === 'completed';
+    const isUpdating = updatingBookingId === booking.id;
+
+    return (
+      <div key={booking.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 p-4">
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          {camper ? (
+            <button onClick={() => onCamperClick(camper)} className="flex-shrink-0">
+              <img
+                src={camper.images[0]}
+                alt={camper.title}
+                className="w-full md:w-28 h-20 object-cover rounded-lg"
+              />
+            </button>
+          ) : (
+            <div className="flex-shrink-0 w-full md:w-28 h-20 bg-gray-100 rounded-lg" />
+          )}
+          <div className="flex-1 space-y-1">
+            <div className="flex items-center space-x-2">
+              <h3 className="font-semibold text-gray-900">{camper?.title ?? UNLISTED_CAMPER_TITLE}</h3>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${BOOKING_STATUS_COLORS[booking.status]}`}>
+                {BOOKING_STATUS_LABELS[booking.status]}
+              </span>
+            </div>
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <Calendar className="h-4 w-4" />
+              <span>{formatDate(booking.startDate)} – {formatDate(booking.endDate)} · {booking.nights} nocí</span>
+            </div>
+            <div className="text-sm text-gray-600">
+              {camper && `${camper.location} · `}<span className="font-medium text-gray-900">{formatMoney(booking.totalPrice, booking.currency)}</span>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {canReview && camper && (
+              <button
+                onClick={() => onCamperClick(camper)}
+                className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors"
+              >
+                <Star className="h-4 w-4" />
+                <span>Ohodnotiť</span>
+              </button>
+            )}
+            {canDownload && (
+              <button
+                onClick={() => downloadBookingConfirmation(booking)}
+                className="p-2 text-gray-500 hover:text-gray-900 transition-colors"
+                aria-label="Stiahnuť potvrdenie"
+                title="Stiahnuť potvrdenie"
+              >
+                <Download className="h-4 w-4" />
+              </button>
+            )}
+            {camper && (
+              <button
+                onClick={() => handleMessageOwner(camper, booking)}
+                className="p-2 text-gray-500 hover:text-gray-900 transition-colors"
+                aria-label="Napísať majiteľovi"
+                title="Napísať majiteľovi"
+              >
+                <MessageCircle className="h-4 w-4" />
+              </button>
+            )}
+            {canCancel && (
+              <button
+                onClick={() => setCancellingBookingId(booking.id)}
+                disabled={isUpdating}
+                className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X className="h-4 w-4" />
+                <span>Zrušiť</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {cancellingBookingId === booking.id && (
+          <div className="mt-4 space-y-2">
+            <textarea
+              value={cancelNote}
+              onChange={(e) => setCancelNote(e.target.value)}
+              placeholder="Dôvod zrušenia (nepovinné, zobrazí sa majiteľovi)"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setCancellingBookingId(null)}
+                className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Späť
+              </button>
+              <button
+                onClick={() => handleCancel(booking)}
+                className="px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
+              >
+                Zrušiť rezerváciu
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate(ROUTES.home)}
+        className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900 transition-colors mb-6"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        <span>Späť na vyhľadávanie</span>
+      </button>
+
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Moje rezervácie</h1>
+
+      {customerBookingsError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{customerBookingsError}</p>
+        </div>
+      )}
+
+      {customerBookingsLoading && customerBookings.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+        </div>
+      ) : customerBookings.length === 0 ? (
+        <div className="text-center py-12">
+          <Luggage className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Zatiaľ žiadne rezervácie</h3>
+          <p className="text-gray-600 mb-6">Nájdite campervan a vyrazte na cesty.</p>
+          <button
+            onClick={() => navigate(ROUTES.home)}
+            className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors"
+          >
+            Hľadať campervany
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {PHASES.map(({ key, label }) => {
+            const bookings = customerBookings.filter(b => getBookingPhase(b) === key);
+            if (bookings.length === 0) return null;
+
+            // Upcoming trips read best soonest first, the rest newest first
+            const sorted = key === 'upcoming'
+              ? [...bookings].sort((a, b) => a.startDate.localeCompare(b.startDate))
+              : bookings;
+
+            return (
+              <section key={key}>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">
+                  {label} <span className="text-gray-500 font-normal">({bookings.length})</span>
+                </h2>
+                <div className="space-y-4">{sorted.map(renderBooking)}</div>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerBookings;
@@ -1,20 +1,58 @@
 import React from 'react';
-import { Heart, Star, Users, MapPin, Wifi, Zap, Droplets } from 'lucide-react';
+import { Heart, Star, Users, MapPin } from 'lucide-react';
 import { Camper } from '../../types';
+import { formatDistance } from '../../lib/geo';
+import { calculateQuote } from '../../lib/pricing';
+import { highlightTerms } from '../../lib/textSearch';
+import { getAmenityIcon } from '../../lib/amenities';
+import { useAmenities, useAmenityLabel } from '../../hooks/useAmenities';
+import { useMoney } from '../../hooks/useMoney';
+
+// Amenities listed on the card next to the capacity, in catalogue order
+const CARD_AMENITY_COUNT = 3;
 
 interface CamperCardProps {
   camper: Camper;
   onClick: (camper: Camper) => void;
   onFavorite?: (camperId: string) => void;
   isFavorite?: boolean;
+  // Distance from the searched place, when there is one; null when the camper
+  // has no coordinates to measure from
+  distanceKm?: number | null;
+  // Folded search words to mark in the title and location
+  highlightedTerms?: string[];
+  // Selected travel dates, the card adds the total price of that stay
+  stay?: { checkIn: string; checkOut: string } | null;
 }
 
+const HighlightedText: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {highlightTerms(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">{segment.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
 const CamperCard: React.FC<CamperCardProps> = ({ 
   camper, 
   onClick, 
   onFavorite, 
-  isFavorite = false 
+  isFavorite = false,
+  distanceKm,
+  highlightedTerms = [],
+  stay = null
 }) => {
+  const { formatPrice } = useMoney();
+  const quote = stay ? calculateQuote(camper, stay.checkIn, stay.checkOut) : null;
+  const amenityLabel = useAmenityLabel();
+  const cardAmenities = useAmenities()
+    .filter(amenity => camper.amenities.includes(amenity.key))
+    .slice(0, CARD_AMENITY_COUNT);
+
   const handleFavoriteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onFavorite?.(camper.id);
@@ -69,7 +107,7 @@ const CamperCard: React.FC<CamperCardProps> = ({
         {/* Title and Rating */}
         <div className="flex items-start justify-between">
           <h3 className="font-semibold text-gray-900 text-lg leading-tight">
-            {camper.title}
+            <HighlightedText text={camper.title} terms={highlightedTerms} />
           </h3>
           <div className="flex items-center space-x-1 ml-2">
             <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
@@ -85,7 +123,14 @@ const CamperCard: React.FC<CamperCardProps> = ({
         {/* Location */}
         <div className="flex items-center space-x-1 text-gray-600">
           <MapPin className="h-4 w-4" />
-          <span className="text-sm">{camper.location}</span>
+          <span className="text-sm">
+            <HighlightedText text={camper.location} terms={highlightedTerms} />
+          </span>
+          {distanceKm === null ? (
+            <span className="text-sm text-gray-500">· distance unknown</span>
+          ) : distanceKm !== undefined && (
+            <span className="text-sm text-gray-500">· {formatDistance(distanceKm)} away</span>
+          )}
         </div>
 
         {/* Amenities */}
@@ -94,24 +139,15 @@ const CamperCard: React.FC<CamperCardProps> = ({
             <Users className="h-4 w-4" />
             <span className="text-sm">Sleeps {camper.capacity}</span>
           </div>
-          {camper.features.wifi && (
-            <div className="flex items-center space-x-1">
-              <Wifi className="h-4 w-4" />
-              <span className="text-sm">WiFi</span>
-            </div>
-          )}
-          {camper.features.solar && (
-            <div className="flex items-center space-x-1">
-              <Zap className="h-4 w-4" />
-              <span className="text-sm">Solar</span>
-            </div>
-          )}
-          {camper.features.bathroom && (
-            <div className="flex items-center space-x-1">
-              <Droplets className="h-4 w-4" />
-              <span className="text-sm">Bathroom</span>
-            </div>
-          )}
+          {cardAmenities.map((amenity) => {
+            const Icon = getAmenityIcon(amenity.icon);
+            return (
+              <div key={amenity.key} className="flex items-center space-x-1">
+                <Icon className="h-4 w-4" />
+                <span className="text-sm">{amenityLabel(amenity)}</span>
+              </div>
+            );
+          })}
         </div>
 
         {/* Owner */}
@@ -130,9 +166,14 @@ const CamperCard: React.FC<CamperCardProps> = ({
         <div className="flex items-center justify-between pt-2 border-t border-gray-100">
           <div className="flex items-baseline space-x-1">
             <span className="text-2xl font-bold text-gray-900">
-              ${camper.price}
+              {formatPrice(camper.price, camper.currency)}
             </span>
             <span className="text-sm text-gray-600">/ night</span>
+            {quote && (
+              <span className="text-sm text-gray-500">
+                · {formatPrice(quote.total, quote.currency)} total
+              </span>
+            )}
           </div>
           <button className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors">
             Book Now
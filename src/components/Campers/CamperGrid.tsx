@@ -1,5 +1,6 @@
-import React from 'react';
-import { Camper } from '../../types';
+import React, { useEffect, useRef } from 'react';
+import { Camper, GeoPoint } from '../../types';
+import { distanceKm } from '../../lib/geo';
 import CamperCard from './CamperCard';
 
 interface CamperGridProps {
@@ -7,14 +8,111 @@ interface CamperGridProps {
   onCamperClick: (camper: Camper) => void;
   onFavorite?: (camperId: string) => void;
   favorites?: string[];
+  loading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+  emptyState?: React.ReactNode;
+  // Optional per-card extras, used by the favourites page
+  renderNotice?: (camper: Camper) => React.ReactNode;
+  selectedIds?: string[];
+  onToggleSelect?: (camperId: string) => void;
+  // Searched place, cards show how far each camper is from it
+  origin?: GeoPoint | null;
+  highlightedTerms?: string[];
+  // Travel dates when prices are compared by trip total, cards show that total
+  stay?: { checkIn: string; checkOut: string } | null;
+  // Infinite scroll: onLoadMore runs when the end of the grid scrolls into view
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  loadMoreError?: string | null;
+  onLoadMore?: () => void;
 }
 
+const CamperCardSkeleton: React.FC = () => (
+  <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden animate-pulse">
+    <div className="w-full h-48 bg-gray-200" />
+    <div className="p-4 space-y-3">
+      <div className="h-5 bg-gray-200 rounded w-3/4" />
+      <div className="h-4 bg-gray-200 rounded w-1/2" />
+      <div className="h-4 bg-gray-200 rounded w-2/3" />
+      <div className="h-8 bg-gray-200 rounded w-1/3 mt-4" />
+    </div>
+  </div>
+);
+
 const CamperGrid: React.FC<CamperGridProps> = ({ 
   campers, 
   onCamperClick, 
   onFavorite, 
-  favorites = [] 
+  favorites = [],
+  loading = false,
+  error = null,
+  onRetry,
+  emptyState,
+  renderNotice,
+  selectedIds = [],
+  onToggleSelect,
+  origin = null,
+  highlightedTerms,
+  stay = null,
+  hasMore = false,
+  loadingMore = false,
+  loadMoreError = null,
+  onLoadMore
 }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // A failed page waits for the retry button instead of looping on the observer
+  const canLoadMore = hasMore && !loading && !loadingMore && !loadMoreError && !!onLoadMore;
+
+  // Start the next page a little before the user reaches the end of the grid
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !canLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore?.();
+        }
+      },
+      { rootMargin: '400px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, onLoadMore, campers.length]);
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {Array.from({ length: 6 }).map((_, index) => (
+          <CamperCardSkeleton key={index} />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-gray-400 text-6xl mb-4">⚠️</div>
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Nepodarilo sa načítať campervany</h3>
+        <p className="text-gray-600 mb-4">{error}</p>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors"
+          >
+            Skúsiť znova
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (campers.length === 0 && emptyState) {
+    return <>{emptyState}</>;
+  }
+
   if (campers.length === 0) {
     return (
       <div className="text-center py-12">
@@ -26,17 +124,50 @@ const CamperGrid: React.FC<CamperGridProps> = ({
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {campers.map((camper) => (
-        <CamperCard
-          key={camper.id}
-          camper={camper}
-          onClick={onCamperClick}
-          onFavorite={onFavorite}
-          isFavorite={favorites.includes(camper.id)}
-        />
-      ))}
-    </div>
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {campers.map((camper) => (
+          <div key={camper.id} className="relative">
+            {onToggleSelect && (
+              <label className="absolute top-12 left-3 z-10 p-2 bg-white rounded-full shadow-md cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(camper.id)}
+                  onChange={() => onToggleSelect(camper.id)}
+                  className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300 rounded block"
+                />
+              </label>
+            )}
+            {renderNotice?.(camper)}
+            <CamperCard
+              camper={camper}
+              onClick={onCamperClick}
+              onFavorite={onFavorite}
+              isFavorite={favorites.includes(camper.id)}
+              highlightedTerms={highlightedTerms}
+              stay={stay}
+              distanceKm={origin ? (camper.coordinates ? distanceKm(origin, camper.coordinates) : null) : undefined}
+            />
+          </div>
+        ))}
+        {loadingMore && Array.from({ length: 3 }).map((_, index) => (
+          <CamperCardSkeleton key={`more-${index}`} />
+        ))}
+      </div>
+
+      {loadMoreError && (
+        <div className="text-center py-6">
+          <p className="text-gray-600 text-sm mb-3">{loadMoreError}</p>
+          <button
+            onClick={onLoadMore}
+            className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors"
+          >
+            Načítať ďalšie
+          </button>
+        </div>
+      )}
+      {hasMore && <div ref={sentinelRef} aria-hidden="true" />}
+    </>
   );
 };
 
@@ -1,18 +1,55 @@
 import React, { useState, useEffect } from 'react';
-import { X, Star, Users, MapPin, Wifi, Zap, Droplets, ChefHat, Wind, Sun, Tent, Calendar, MessageCircle } from 'lucide-react';
+import { X, Star, Users, MapPin, Calendar, MessageCircle } from 'lucide-react';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
 import { Camper } from '../../types';
+import { calculateNights } from '../../services/bookingService';
+import { calculateQuote } from '../../lib/pricing';
+import { formatMoney } from '../../lib/money';
+import CamperReviews from './CamperReviews';
+import { getAmenityIcon, groupAmenities } from '../../lib/amenities';
+import { useAmenities, useAmenityLabel } from '../../hooks/useAmenities';
+import { useMoney } from '../../hooks/useMoney';
+import {
+  toISODate,
+  fromISODate,
+  isNightUnavailable,
+  isRangeAvailable,
+  findConflict
+} from '../../lib/availability';
 
 interface CamperModalProps {
   camper: Camper | null;
   isOpen: boolean;
   onClose: () => void;
-  onBook?: (camper: Camper) => void;
+  onBook?: (camper: Camper, checkIn: string, checkOut: string) => void;
+  onContactHost?: (camper: Camper) => void;
+  defaultCheckIn?: string;
+  defaultCheckOut?: string;
 }
 
-const CamperModal: React.FC<CamperModalProps> = ({ camper, isOpen, onClose, onBook }) => {
+const CamperModal: React.FC<CamperModalProps> = ({
+  camper,
+  isOpen,
+  onClose,
+  onBook,
+  onContactHost,
+  defaultCheckIn = '',
+  defaultCheckOut = ''
+}) => {
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [checkIn, setCheckIn] = useState('');
   const [checkOut, setCheckOut] = useState('');
+  const amenityCatalogue = useAmenities();
+  const amenityLabel = useAmenityLabel();
+  const { formatPrice, displayCurrency } = useMoney();
+
+  // Pre-fill dates from the search when another camper is opened
+  useEffect(() => {
+    setCheckIn(defaultCheckIn);
+    setCheckOut(defaultCheckOut);
+    setSelectedImageIndex(0);
+  }, [camper?.id, defaultCheckIn, defaultCheckOut]);
 
   // Disable/enable body scroll when modal opens/closes
   useEffect(() => {
@@ -32,32 +69,34 @@ const CamperModal: React.FC<CamperModalProps> = ({ camper, isOpen, onClose, onBo
 
   if (!isOpen || !camper) return null;
 
-  const features = [
-    { key: 'kitchen', icon: ChefHat, label: 'Kitchen' },
-    { key: 'bathroom', icon: Droplets, label: 'Bathroom' },
-    { key: 'wifi', icon: Wifi, label: 'WiFi' },
-    { key: 'heating', icon: Wind, label: 'Heating' },
-    { key: 'airConditioning', icon: Wind, label: 'A/C' },
-    { key: 'solar', icon: Zap, label: 'Solar Power' },
-    { key: 'generator', icon: Zap, label: 'Generator' },
-    { key: 'awning', icon: Tent, label: 'Awning' }
-  ];
-
-  const availableFeatures = features.filter(feature => 
-    camper.features[feature.key as keyof typeof camper.features]
-  );
+  const amenityGroups = groupAmenities(amenityCatalogue, camper.amenities);
+
+  const nights = calculateNights(checkIn, checkOut);
+  const quote = calculateQuote(camper, checkIn, checkOut);
+  const conflict = nights > 0 ? findConflict(checkIn, checkOut, camper.availability) : undefined;
+  const canBook = nights > 0 && !conflict;
 
-  const calculateTotal = () => {
-    if (!checkIn || !checkOut) return 0;
-    const start = new Date(checkIn);
-    const end = new Date(checkOut);
-    const nights = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    return nights > 0 ? nights * camper.price : 0;
+  // Grey out unavailable nights; while picking check-out, only allow days
+  // that keep every night since check-in free
+  const filterDate = (date: Date) => {
+    const day = toISODate(date);
+    if (checkIn && !checkOut && day > checkIn) {
+      return isRangeAvailable(checkIn, day, camper.availability);
+    }
+    return !isNightUnavailable(day, camper.availability);
+  };
+
+  const handleDatesChange = ([start, end]: [Date | null, Date | null]) => {
+    setCheckIn(start ? toISODate(start) : '');
+    setCheckOut(end ? toISODate(end) : '');
   };
 
+  const formatDate = (date: string) =>
+    date ? fromISODate(date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }) : 'Add date';
+
   const handleBooking = () => {
-    if (checkIn && checkOut) {
-      onBook?.(camper);
+    if (canBook) {
+      onBook?.(camper, checkIn, checkOut);
       onClose();
     }
   };
@@ -110,8 +149,14 @@ const CamperModal: React.FC<CamperModalProps> = ({ camper, isOpen, onClose, onBo
                 <h2 className="text-2xl font-bold text-gray-900">{camper.title}</h2>
                 <div className="flex items-center space-x-1">
                   <Star className="h-5 w-5 fill-yellow-400 text-yellow-400" />
-                  <span className="font-medium text-gray-700">{camper.rating}</span>
-                  <span className="text-gray-500">({camper.reviewCount} reviews)</span>
+                  {camper.reviewCount > 0 ? (
+                    <>
+                      <span className="font-medium text-gray-700">{camper.rating}</span>
+                      <span className="text-gray-500">({camper.reviewCount} {camper.reviewCount === 1 ? 'review' : 'reviews'})</span>
+                    </>
+                  ) : (
+                    <span className="text-gray-500">New</span>
+                  )}
                 </div>
               </div>
               <div className="flex items-center space-x-4 text-gray-600">
@@ -140,9 +185,16 @@ const CamperModal: React.FC<CamperModalProps> = ({ camper, isOpen, onClose, onBo
                   <span>{camper.owner.rating} • {camper.owner.reviewCount} reviews</span>
                 </div>
               </div>
-              <button className="p-2 text-gray-600 hover:text-gray-900 transition-colors">
-                <MessageCircle className="h-5 w-5" />
-              </button>
+              {onContactHost && (
+                <button
+                  onClick={() => onContactHost(camper)}
+                  className="p-2 text-gray-600 hover:text-gray-900 transition-colors"
+                  aria-label={`Message ${camper.owner.name}`}
+                  title={`Message ${camper.owner.name}`}
+                >
+                  <MessageCircle className="h-5 w-5" />
+                </button>
+              )}
             </div>
 
             {/* Description */}
@@ -151,92 +203,119 @@ const CamperModal: React.FC<CamperModalProps> = ({ camper, isOpen, onClose, onBo
               <p className="text-gray-700 leading-relaxed">{camper.description}</p>
             </div>
 
-            {/* Features */}
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-3">What this place offers</h3>
-              <div className="grid grid-cols-2 gap-3">
-                {availableFeatures.map((feature) => (
-                  <div key={feature.key} className="flex items-center space-x-3">
-                    <feature.icon className="h-5 w-5 text-gray-600" />
-                    <span className="text-gray-700">{feature.label}</span>
-                  </div>
-                ))}
-              </div>
-            </div>
-
             {/* Amenities */}
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-3">Amenities</h3>
-              <div className="flex flex-wrap gap-2">
-                {camper.amenities.map((amenity) => (
-                  <span
-                    key={amenity}
-                    className="px-3 py-1 bg-emerald-100 text-emerald-800 rounded-full text-sm"
-                  >
-                    {amenity}
-                  </span>
-                ))}
+            {amenityGroups.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">What this place offers</h3>
+                <div className="space-y-4">
+                  {amenityGroups.map(({ category, amenities }) => (
+                    <div key={category.key}>
+                      <h4 className="text-sm font-medium text-gray-500 mb-2">{amenityLabel(category)}</h4>
+                      <div className="grid grid-cols-2 gap-3">
+                        {amenities.map((amenity) => {
+                          const Icon = getAmenityIcon(amenity.icon);
+                          return (
+                            <div key={amenity.key} className="flex items-center space-x-3">
+                              <Icon className="h-5 w-5 text-gray-600" />
+                              <span className="text-gray-700">{amenityLabel(amenity)}</span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
+
+            {/* Reviews */}
+            <CamperReviews camper={camper} />
           </div>
 
           {/* Booking Card */}
           <div className="lg:col-span-1">
             <div className="bg-white border border-gray-200 rounded-2xl shadow-lg p-6 sticky top-6">
               <div className="flex items-baseline space-x-1 mb-6">
-                <span className="text-2xl font-bold text-gray-900">${camper.price}</span>
+                <span className="text-2xl font-bold text-gray-900">{formatPrice(camper.price, camper.currency)}</span>
                 <span className="text-gray-600">night</span>
               </div>
 
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Check-in
-                    </label>
-                    <input
-                      type="date"
-                      value={checkIn}
-                      onChange={(e) => setCheckIn(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-                    />
+                  <div className="px-3 py-2 border border-gray-300 rounded-lg">
+                    <div className="text-xs font-medium text-gray-700">Check-in</div>
+                    <div className="text-sm text-gray-900">{formatDate(checkIn)}</div>
                   </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Check-out
-                    </label>
-                    <input
-                      type="date"
-                      value={checkOut}
-                      onChange={(e) => setCheckOut(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-                    />
+                  <div className="px-3 py-2 border border-gray-300 rounded-lg">
+                    <div className="text-xs font-medium text-gray-700">Check-out</div>
+                    <div className="text-sm text-gray-900">{formatDate(checkOut)}</div>
                   </div>
                 </div>
 
-                {checkIn && checkOut && calculateTotal() > 0 && (
+                <div className="flex justify-center">
+                  <DatePicker
+                    inline
+                    selectsRange
+                    startDate={checkIn ? fromISODate(checkIn) : null}
+                    endDate={checkOut ? fromISODate(checkOut) : null}
+                    onChange={handleDatesChange}
+                    minDate={new Date()}
+                    filterDate={filterDate}
+                    dayClassName={(date) =>
+                      isNightUnavailable(toISODate(date), camper.availability)
+                        ? 'react-datepicker__day--unavailable'
+                        : null
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-center space-x-2 text-xs text-gray-500">
+                  <Calendar className="h-3 w-3" />
+                  <span>Crossed-out dates are already booked or blocked</span>
+                </div>
+
+                {conflict && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-600 text-sm">
+                      Selected dates overlap {conflict.kind === 'booked' ? 'an existing booking' : 'dates blocked by the owner'}.
+                    </p>
+                  </div>
+                )}
+
+                {canBook && quote && (
                   <div className="border-t border-gray-200 pt-4 space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>${camper.price} × {Math.ceil((new Date(checkOut).getTime() - new Date(checkIn).getTime()) / (1000 * 60 * 60 * 24))} nights</span>
-                      <span>${calculateTotal()}</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span>Service fee</span>
-                      <span>${Math.round(calculateTotal() * 0.1)}</span>
-                    </div>
+                    {quote.lineItems.map((item, index) => (
+                      <div
+                        key={`${item.kind}-${index}`}
+                        className={`flex justify-between text-sm ${item.kind === 'discount' ? 'text-emerald-700' : ''}`}
+                      >
+                        <span>
+                          {item.kind === 'nights'
+                            ? `${formatMoney(item.unitPrice ?? 0, quote.currency)} × ${item.quantity} ${item.quantity === 1 ? 'night' : 'nights'} (${item.label})`
+                            : item.label}
+                        </span>
+                        <span>{formatMoney(item.amount, quote.currency)}</span>
+                      </div>
+                    ))}
                     <div className="flex justify-between font-semibold text-lg border-t border-gray-200 pt-2">
                       <span>Total</span>
-                      <span>${calculateTotal() + Math.round(calculateTotal() * 0.1)}</span>
+                      <span>{formatMoney(quote.total, quote.currency)}</span>
                     </div>
+                    {/* The stay is charged in the listing currency */}
+                    {displayCurrency && displayCurrency !== quote.currency && (
+                      <div className="flex justify-end text-xs text-gray-500">
+                        {formatPrice(quote.total, quote.currency)}
+                      </div>
+                    )}
                   </div>
                 )}
 
                 <button
                   onClick={handleBooking}
-                  disabled={!checkIn || !checkOut}
+                  disabled={!canBook}
                   className="w-full bg-emerald-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
                 >
-                  {!checkIn || !checkOut ? 'Select dates' : 'Reserve'}
+                  {nights <= 0 ? 'Select dates' : conflict ? 'Dates unavailable' : 'Reserve'}
                 </button>
 
                 <p className="text-center text-sm text-gray-600">
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Star } from 'lucide-react';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import {
+  fetchCamperReviews,
+  fetchReviewableBookings,
+  submitReview
+} from '../../store/slices/reviewsSlice';
+import { Camper } from '../../types';
+import { fromISODate } from '../../lib/availability';
+
+interface CamperReviewsProps {
+  camper: Camper;
+}
+
+const formatStay = (startDate: string, endDate: string) => {
+  const format = (date: string) =>
+    fromISODate(date).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+  return `${format(startDate)} – ${format(endDate)}`;
+};
+
+const CamperReviews: React.FC<CamperReviewsProps> = ({ camper }) => {
+  const dispatch = useAppDispatch();
+  const { user } = useAppSelector((state) => state.auth);
+  const {
+    camperId,
+    reviews,
+    total,
+    page,
+    loading,
+    error,
+    reviewableBookings,
+    submitting,
+    submitError
+  } = useAppSelector((state) => state.reviews);
+
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    dispatch(fetchCamperReviews({ camperId: camper.id, page: 0 }));
+    setRating(0);
+    setComment('');
+  }, [dispatch, camper.id]);
+
+  useEffect(() => {
+    if (user?.id) {
+      dispatch(fetchReviewableBookings({ camperId: camper.id, customerId: user.id }));
+    }
+  }, [dispatch, camper.id, user?.id]);
+
+  // State still holds the previously opened camper until the first page arrives
+  const isCurrent = camperId === camper.id;
+  const visibleReviews = isCurrent ? reviews : [];
+  const bookingToReview = isCurrent && user ? reviewableBookings[0] : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bookingToReview || !user) return;
+
+    const result = await dispatch(submitReview({
+      bookingId: bookingToReview.id,
+      camperId: camper.id,
+      customer: user,
+      rating,
+      comment
+    }));
+    if (submitReview.fulfilled.match(result)) {
+      setRating(0);
+      setComment('');
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">
+        Reviews {total > 0 && isCurrent && <span className="text-gray-500 font-normal">({total})</span>}
+      </h3>
+
+      {bookingToReview && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 bg-gray-50 rounded-lg space-y-3">
+          <div>
+            <p className="font-medium text-gray-900">How was your trip?</p>
+            <p className="text-sm text-gray-600">{formatStay(bookingToReview.startDate, bookingToReview.endDate)}</p>
+          </div>
+          <div className="flex space-x-1" onMouseLeave={() => setHoverRating(0)}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setRating(value)}
+                onMouseEnter={() => setHoverRating(value)}
+                aria-label={`${value} ${value === 1 ? 'star' : 'stars'}`}
+              >
+                <Star
+                  className={`h-6 w-6 ${
+                    value <= (hoverRating || rating) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+                  }`}
+                />
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            placeholder="Tell other travellers about the camper and the host"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          {submitError && <p className="text-red-600 text-sm">{submitError}</p>}
+          <button
+            type="submit"
+            disabled={rating === 0 || submitting}
+            className="px-4 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Submitting...' : 'Submit review'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-red-600 text-sm mb-3">{error}</p>}
+
+      {visibleReviews.length === 0 && !loading ? (
+        <p className="text-gray-600">No reviews yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {visibleReviews.map((review) => (
+            <div key={review.id} className="border-b border-gray-100 pb-4 last:border-0">
+              <div className="flex items-center space-x-3 mb-2">
+                <img
+                  src={review.customer.avatar}
+                  alt={review.customer.name}
+                  className="w-10 h-10 rounded-full object-cover"
+                />
+                <div>
+                  <p className="font-medium text-gray-900">{review.customer.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(review.createdAt).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                  </p>
+                </div>
+              </div>
+              <div className="flex space-x-0.5 mb-1">
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <Star
+                    key={value}
+                    className={`h-4 w-4 ${value <= review.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                  />
+                ))}
+              </div>
+              {review.comment && <p className="text-gray-700 text-sm leading-relaxed">{review.comment}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+        </div>
+      )}
+
+      {isCurrent && !loading && visibleReviews.length < total && (
+        <button
+          onClick={() => dispatch(fetchCamperReviews({ camperId: camper.id, page: page + 1 }))}
+          className="mt-4 px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Show more reviews
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CamperReviews;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Heart, Search, Trash2, TrendingDown, TrendingUp } from 'lucide-react';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import {
+  fetchFavoriteCampers,
+  removeFavorites,
+  toggleFavorite
+} from '../../store/slices/campersSlice';
+import { Camper } from '../../types';
+import CamperGrid from '../Campers/CamperGrid';
+import { ROUTES } from '../../lib/routes';
+import { useMoney } from '../../hooks/useMoney';
+
+interface FavoritesPageProps {
+  onCamperClick: (camper: Camper) => void;
+}
+
+const FavoritesPage: React.FC<FavoritesPageProps> = ({ onCamperClick }) => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { user } = useAppSelector((state) => state.auth);
+  const {
+    favorites,
+    favoriteCampers,
+    favoriteCampersLoading,
+    favoriteCampersError
+  } = useAppSelector((state) => state.campers);
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const { formatPrice } = useMoney();
+
+  useEffect(() => {
+    if (user?.id) {
+      dispatch(fetchFavoriteCampers(user.id));
+    }
+  }, [dispatch, user?.id]);
+
+  // Un-hearting a camper hides it right away (and brings it back on rollback)
+  const saved = favoriteCampers.filter(f => favorites.includes(f.camperId));
+  const available = saved.filter(f => f.camper !== null);
+  const unavailable = saved.filter(f => f.camper === null);
+  const savedById = new Map(available.map(f => [f.camperId, f]));
+
+  const handleToggleSelect = (camperId: string) => {
+    setSelectedIds(selectedIds.includes(camperId)
+      ? selectedIds.filter(id => id !== camperId)
+      : [...selectedIds, camperId]);
+  };
+
+  const handleRemove = (camperIds: string[]) => {
+    dispatch(removeFavorites(camperIds));
+    setSelectedIds(selectedIds.filter(id => !camperIds.includes(id)));
+  };
+
+  const renderPriceNotice = (camper: Camper) => {
+    const saved = savedById.get(camper.id);
+    const savedPrice = saved?.savedPrice ?? null;
+    // A price saved in another currency cannot be compared
+    if (savedPrice === null || saved?.savedCurrency !== camper.currency || savedPrice === camper.price) return null;
+
+    const isCheaper = camper.price < savedPrice;
+    return (
+      <div
+        className={`absolute top-36 left-3 z-10 flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium shadow ${
+          isCheaper ? 'bg-emerald-600 text-white' : 'bg-orange-500 text-white'
+        }`}
+      >
+        {isCheaper ? <TrendingDown className="h-3 w-3" /> : <TrendingUp className="h-3 w-3" />}
+        <span>{isCheaper ? 'Zlacnené' : 'Zdražené'} z {formatPrice(savedPrice, camper.currency)}</span>
+      </div>
+    );
+  };
+
+  const emptyState = (
+    <div className="text-center py-12">
+      <Heart className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+      <h3 className="text-xl font-semibold text-gray-900 mb-2">Zatiaľ nemáte obľúbené campervany</h3>
+      <p className="text-gray-600 mb-6">Kliknite na srdiečko pri campervane a uložíte si ho sem.</p>
+      <button
+        onClick={() => navigate(ROUTES.home)}
+        className="inline-flex items-center space-x-2 bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors"
+      >
+        <Search className="h-4 w-4" />
+        <span>Hľadať campervany</span>
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate(ROUTES.home)}
+        className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900 transition-colors mb-6"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        <span>Späť na vyhľadávanie</span>
+      </button>
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Obľúbené</h1>
+          {saved.length > 0 && (
+            <p className="text-gray-600 mt-1">{saved.length} uložených campervanov</p>
+          )}
+        </div>
+        {available.length > 0 && (
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setSelectedIds(
+                selectedIds.length === available.length ? [] : available.map(f => f.camperId)
+              )}
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              {selectedIds.length === available.length ? 'Zrušiť výber' : 'Vybrať všetky'}
+            </button>
+            <button
+              onClick={() => handleRemove(selectedIds)}
+              disabled={selectedIds.length === 0}
+              className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Odstrániť vybrané{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {favoriteCampersError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{favoriteCampersError}</p>
+        </div>
+      )}
+
+      <CamperGrid
+        campers={available.map(f => f.camper as Camper)}
+        onCamperClick={onCamperClick}
+        onFavorite={(camperId) => dispatch(toggleFavorite(camperId))}
+        favorites={favorites}
+        loading={favoriteCampersLoading && favoriteCampers.length === 0}
+        emptyState={unavailable.length === 0 ? emptyState : <></>}
+        renderNotice={renderPriceNotice}
+        selectedIds={selectedIds}
+        onToggleSelect={handleToggleSelect}
+      />
+
+      {unavailable.length > 0 && (
+        <div className="mt-10">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-900">Už nedostupné</h2>
+            <button
+              onClick={() => handleRemove(unavailable.map(f => f.camperId))}
+              className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700 transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Odstrániť všetky nedostupné</span>
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-3">
+            Majiteľ tieto campervany stiahol z ponuky, rezervovať ich už nie je možné.
+          </p>
+          <ul className="divide-y divide-gray-100 bg-white rounded-2xl border border-gray-200">
+            {unavailable.map((favorite) => (
+              <li key={favorite.camperId} className="flex items-center justify-between px-4 py-3 text-sm">
+                <span className="text-gray-600">
+                  Uložené {new Date(favorite.savedAt).toLocaleDateString('sk-SK')}
+                  {favorite.savedPrice !== null && favorite.savedCurrency
+                    && ` · ${formatPrice(favorite.savedPrice, favorite.savedCurrency)} / noc`}
+                </span>
+                <button
+                  onClick={() => handleRemove([favorite.camperId])}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                  aria-label="Odstrániť"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FavoritesPage;
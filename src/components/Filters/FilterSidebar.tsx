@@ -1,26 +1,50 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { X, Sliders } from 'lucide-react';
-
-interface FilterOptions {
-  priceRange: [number, number];
-  capacity: number;
-  type: string;
-  features: string[];
-}
+import { FilterOptions, PriceBasis, PriceHistogram, SearchFacets } from '../../types';
+import { DEFAULT_FILTERS } from '../../lib/searchParams';
+import { RADIUS_OPTIONS_KM } from '../../lib/geo';
+import { groupAmenities } from '../../lib/amenities';
+import { useAmenities, useAmenityLabel } from '../../hooks/useAmenities';
+import PriceRangeSlider from './PriceRangeSlider';
 
 interface FilterSidebarProps {
   isOpen: boolean;
   onClose: () => void;
   filters: FilterOptions;
   onFiltersChange: (filters: FilterOptions) => void;
+  // Distance is measured from the searched place, so it needs a search text
+  canFilterByDistance?: boolean;
+  // Matches per option given the other filters, no counts while unknown
+  facets?: SearchFacets | null;
+  // Price slider scale for the current price basis
+  priceHistogram?: PriceHistogram | null;
 }
 
+const OptionCount: React.FC<{ count: number | undefined }> = ({ count }) =>
+  count === undefined ? null : <span className="ml-auto pl-2 text-xs text-gray-500">{count}</span>;
+
 const FilterSidebar: React.FC<FilterSidebarProps> = ({ 
   isOpen, 
   onClose, 
   filters, 
-  onFiltersChange 
+  onFiltersChange,
+  canFilterByDistance = false,
+  facets = null,
+  priceHistogram = null
 }) => {
+  const amenityGroups = groupAmenities(useAmenities());
+  const amenityLabel = useAmenityLabel();
+
+  // Options missing from the facets match nothing; "All Types" adds up the types
+  const optionCounts = useMemo(() => {
+    if (!facets) return null;
+    const typeTotal = Object.values(facets.types).reduce((sum, count) => sum + count, 0);
+    return {
+      type: (value: string) => (value ? facets.types[value] ?? 0 : typeTotal),
+      amenity: (key: string) => facets.amenities[key] ?? 0
+    };
+  }, [facets]);
+
   // Disable/enable body scroll when mobile sidebar opens/closes
   useEffect(() => {
     if (isOpen) {
@@ -48,36 +72,36 @@ const FilterSidebar: React.FC<FilterSidebarProps> = ({
     { value: 'popup', label: 'Pop-up' }
   ];
 
-  const featureOptions = [
-    { value: 'kitchen', label: 'Kitchen' },
-    { value: 'bathroom', label: 'Bathroom' },
-    { value: 'wifi', label: 'WiFi' },
-    { value: 'heating', label: 'Heating' },
-    { value: 'airConditioning', label: 'Air Conditioning' },
-    { value: 'solar', label: 'Solar Power' },
-    { value: 'generator', label: 'Generator' },
-    { value: 'awning', label: 'Awning' }
+  const hasTravelDates = !!filters.startDate && !!filters.endDate;
+
+  const priceBases: { value: PriceBasis; label: string }[] = [
+    { value: 'night', label: 'Per night' },
+    { value: 'trip', label: 'Trip total' }
   ];
 
-  const handlePriceChange = (index: number, value: number) => {
-    const newRange: [number, number] = [...filters.priceRange];
-    newRange[index] = value;
-    onFiltersChange({ ...filters, priceRange: newRange });
+  // A range on the other scale would make no sense, so it starts over
+  const handlePriceBasisChange = (priceBasis: PriceBasis) => {
+    if (priceBasis === filters.priceBasis) return;
+    onFiltersChange({ ...filters, priceBasis, priceRange: DEFAULT_FILTERS.priceRange });
   };
 
-  const handleFeatureToggle = (feature: string) => {
-    const newFeatures = filters.features.includes(feature)
-      ? filters.features.filter(f => f !== feature)
-      : [...filters.features, feature];
-    onFiltersChange({ ...filters, features: newFeatures });
+  const handleAmenityToggle = (amenity: string) => {
+    const newAmenities = filters.amenities.includes(amenity)
+      ? filters.amenities.filter(a => a !== amenity)
+      : [...filters.amenities, amenity];
+    onFiltersChange({ ...filters, amenities: newAmenities });
   };
 
   const clearFilters = () => {
+    // Travel dates come from the search form and are cleared there
     onFiltersChange({
-      priceRange: [0, 500],
-      capacity: 0,
-      type: '',
-      features: []
+      ...filters,
+      priceRange: DEFAULT_FILTERS.priceRange,
+      priceBasis: DEFAULT_FILTERS.priceBasis,
+      capacity: DEFAULT_FILTERS.capacity,
+      type: DEFAULT_FILTERS.type,
+      amenities: DEFAULT_FILTERS.amenities,
+      radiusKm: DEFAULT_FILTERS.radiusKm
     });
   };
 
@@ -106,37 +130,52 @@ const FilterSidebar: React.FC<FilterSidebarProps> = ({
           </div>
 
           <div className="p-6 space-y-6">
+            {/* Distance */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Distance</h3>
+              <select
+                value={filters.radiusKm}
+                onChange={(e) => onFiltersChange({ ...filters, radiusKm: parseInt(e.target.value) })}
+                disabled={!canFilterByDistance}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-50 disabled:text-gray-400"
+              >
+                <option value={0}>Any distance</option>
+                {RADIUS_OPTIONS_KM.map((radius) => (
+                  <option key={radius} value={radius}>Within {radius} km</option>
+                ))}
+              </select>
+              {!canFilterByDistance && (
+                <p className="text-xs text-gray-500 mt-1">Search for a place to filter by distance</p>
+              )}
+            </div>
+
             {/* Price Range */}
             <div>
               <h3 className="text-sm font-medium text-gray-900 mb-3">Price Range</h3>
-              <div className="space-y-3">
-                <div className="flex items-center space-x-3">
-                  <div className="flex-1">
-                    <label className="block text-xs text-gray-600 mb-1">Min</label>
-                    <input
-                      type="number"
-                      value={filters.priceRange[0]}
-                      onChange={(e) => handlePriceChange(0, parseInt(e.target.value) || 0)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-                      placeholder="0"
-                    />
-                  </div>
-                  <div className="flex-1">
-                    <label className="block text-xs text-gray-600 mb-1">Max</label>
-                    <input
-                      type="number"
-                      value={filters.priceRange[1]}
-                      onChange={(e) => handlePriceChange(1, parseInt(e.target.value) || 500)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-                      placeholder="500"
-                    />
-                  </div>
+              {hasTravelDates && (
+                <div className="flex mb-3 rounded-lg border border-gray-300 p-0.5" role="group" aria-label="Compare prices">
+                  {priceBases.map((basis) => (
+                    <button
+                      key={basis.value}
+                      type="button"
+                      onClick={() => handlePriceBasisChange(basis.value)}
+                      aria-pressed={filters.priceBasis === basis.value}
+                      className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                        filters.priceBasis === basis.value
+                          ? 'bg-emerald-600 text-white'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {basis.label}
+                    </button>
+                  ))}
                 </div>
-                <div className="flex items-center justify-between text-xs text-gray-600">
-                  <span>${filters.priceRange[0]}</span>
-                  <span>${filters.priceRange[1]}</span>
-                </div>
-              </div>
+              )}
+              <PriceRangeSlider
+                histogram={priceHistogram}
+                value={filters.priceRange}
+                onChange={(priceRange) => onFiltersChange({ ...filters, priceRange })}
+              />
             </div>
 
             {/* Capacity */}
@@ -159,36 +198,60 @@ const FilterSidebar: React.FC<FilterSidebarProps> = ({
             <div>
               <h3 className="text-sm font-medium text-gray-900 mb-3">Camper Type</h3>
               <div className="space-y-2">
-                {camperTypes.map((type) => (
-                  <label key={type.value} className="flex items-center">
-                    <input
-                      type="radio"
-                      name="camperType"
-                      value={type.value}
-                      checked={filters.type === type.value}
-                      onChange={(e) => onFiltersChange({ ...filters, type: e.target.value })}
-                      className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">{type.label}</span>
-                  </label>
-                ))}
+                {camperTypes.map((type) => {
+                  const count = optionCounts?.type(type.value);
+                  const checked = filters.type === type.value;
+                  // A selected option stays enabled so it can always be switched off
+                  const disabled = count === 0 && !checked;
+                  return (
+                    <label key={type.value} className={`flex items-center ${disabled ? 'opacity-50' : ''}`}>
+                      <input
+                        type="radio"
+                        name="camperType"
+                        value={type.value}
+                        checked={checked}
+                        disabled={disabled}
+                        onChange={(e) => onFiltersChange({ ...filters, type: e.target.value })}
+                        className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{type.label}</span>
+                      <OptionCount count={count} />
+                    </label>
+                  );
+                })}
               </div>
             </div>
 
-            {/* Features */}
+            {/* Amenities */}
             <div>
-              <h3 className="text-sm font-medium text-gray-900 mb-3">Features</h3>
-              <div className="space-y-2">
-                {featureOptions.map((feature) => (
-                  <label key={feature.value} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={filters.features.includes(feature.value)}
-                      onChange={() => handleFeatureToggle(feature.value)}
-                      className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300 rounded"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">{feature.label}</span>
-                  </label>
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Amenities</h3>
+              <div className="space-y-4">
+                {amenityGroups.map(({ category, amenities }) => (
+                  <div key={category.key}>
+                    <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-2">
+                      {amenityLabel(category)}
+                    </h4>
+                    <div className="space-y-2">
+                      {amenities.map((amenity) => {
+                        const count = optionCounts?.amenity(amenity.key);
+                        const checked = filters.amenities.includes(amenity.key);
+                        const disabled = count === 0 && !checked;
+                        return (
+                          <label key={amenity.key} className={`flex items-center ${disabled ? 'opacity-50' : ''}`}>
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              disabled={disabled}
+                              onChange={() => handleAmenityToggle(amenity.key)}
+                              className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300 rounded"
+                            />
+                            <span className="ml-2 text-sm text-gray-700">{amenityLabel(amenity)}</span>
+                            <OptionCount count={count} />
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
                 ))}
               </div>
             </div>
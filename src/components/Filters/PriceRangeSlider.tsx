@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { PriceHistogram } from '../../types';
+import { BASE_CURRENCY, formatMoney, toMinorUnits } from '../../lib/money';
+
+type PriceRange = [number | null, number | null];
+
+interface PriceRangeSliderProps {
+  // Scale of the slider, only the number inputs are shown until it is known
+  histogram: PriceHistogram | null;
+  value: PriceRange;
+  onChange: (value: PriceRange) => void;
+}
+
+// Filter prices are whole euros whatever currency the listings use
+const formatEuros = (amount: number) =>
+  formatMoney(toMinorUnits(amount, BASE_CURRENCY), BASE_CURRENCY, { wholeUnits: true });
+
+const parsePrice = (text: string): number | null =>
+  text === '' ? null : Math.max(0, parseInt(text) || 0);
+
+const PriceRangeSlider: React.FC<PriceRangeSliderProps> = ({ histogram, value, onChange }) => {
+  const min = histogram?.min ?? 0;
+  const max = histogram?.max ?? 0;
+  // Handles move freely while dragging, the search runs once they are released
+  const [draft, setDraft] = useState<[number, number]>([value[0] ?? min, value[1] ?? max]);
+
+  // Follow changes made elsewhere (clear filters, shared link, new scale)
+  useEffect(() => {
+    setDraft([value[0] ?? min, value[1] ?? max]);
+  }, [value, min, max]);
+
+  const [low, high] = draft;
+  const hasSlider = !!histogram && max > min;
+  const percentOf = (price: number) =>
+    hasSlider ? ((Math.min(Math.max(price, min), max) - min) / (max - min)) * 100 : 0;
+  const tallestBucket = Math.max(1, ...(histogram?.buckets.map(bucket => bucket.count) ?? []));
+
+  // A handle at the end of the scale means no limit, so listings priced
+  // outside today's range are not cut off later
+  const commit = () => {
+    const next: PriceRange = [low <= min ? null : low, high >= max ? null : high];
+    if (next[0] !== value[0] || next[1] !== value[1]) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {hasSlider && histogram && (
+        <div>
+          <div className="flex items-end h-12 gap-px" aria-hidden="true">
+            {histogram.buckets.map((bucket) => (
+              <div
+                key={bucket.from}
+                className={`flex-1 rounded-t-sm ${
+                  bucket.to > low && bucket.from < high ? 'bg-emerald-400' : 'bg-gray-200'
+                }`}
+                style={{ height: bucket.count > 0 ? `${Math.max((bucket.count / tallestBucket) * 100, 6)}%` : 0 }}
+              />
+            ))}
+          </div>
+
+          <div className="relative h-5">
+            <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1 rounded bg-gray-200" />
+            <div
+              className="absolute top-1/2 -translate-y-1/2 h-1 rounded bg-emerald-500"
+              style={{ left: `${percentOf(low)}%`, right: `${100 - percentOf(high)}%` }}
+            />
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={1}
+              value={Math.min(Math.max(low, min), max)}
+              onChange={(e) => setDraft([Math.min(Number(e.target.value), high), high])}
+              onPointerUp={commit}
+              onKeyUp={commit}
+              aria-label="Minimum price"
+              className="price-range-input"
+              // Both handles at the top end: the lower one must stay reachable
+              style={{ zIndex: low >= max ? 2 : 1 }}
+            />
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={1}
+              value={Math.min(Math.max(high, min), max)}
+              onChange={(e) => setDraft([low, Math.max(Number(e.target.value), low)])}
+              onPointerUp={commit}
+              onKeyUp={commit}
+              aria-label="Maximum price"
+              className="price-range-input"
+            />
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>{formatEuros(low)}</span>
+            <span>{formatEuros(high)}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <div className="flex-1">
+          <label className="block text-xs text-gray-600 mb-1">Min ({BASE_CURRENCY})</label>
+          <input
+            type="number"
+            min={0}
+            value={value[0] ?? ''}
+            onChange={(e) => onChange([parsePrice(e.target.value), value[1]])}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            placeholder={histogram ? String(min) : 'No min'}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-xs text-gray-600 mb-1">Max ({BASE_CURRENCY})</label>
+          <input
+            type="number"
+            min={0}
+            value={value[1] ?? ''}
+            onChange={(e) => onChange([value[0], parsePrice(e.target.value)])}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            placeholder={histogram ? String(max) : 'No max'}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceRangeSlider;
@@ -1,36 +1,30 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { Search, MapPin, Calendar, DollarSign, TrendingUp, Shield, Star, Users } from 'lucide-react';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
+import { toISODate } from '../../lib/availability';
+import LocationAutocomplete from './LocationAutocomplete';
+import { BASE_CURRENCY, formatMoney, toMinorUnits } from '../../lib/money';
+
+export interface HeroSearchParams {
+  location: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+}
+
+// Owner marketing figures, in euros and the visitor's number format
+const formatEuros = (amount: number) => formatMoney(toMinorUnits(amount, BASE_CURRENCY), BASE_CURRENCY);
 
 interface HeroProps {
-  onSearch: (query: string) => void;
+  onSearch: (params: HeroSearchParams) => void;
   onAddCampervanClick?: () => void;
 }
 
 const Hero: React.FC<HeroProps> = ({ onSearch, onAddCampervanClick }) => {
-  const locationInputRef = useRef<HTMLInputElement>(null);
   const [startDate, setStartDate] = useState<Date | null>(null);
   const [endDate, setEndDate] = useState<Date | null>(null);
   const [location, setLocation] = useState('');
 
-  useEffect(() => {
-    // Initialize Google Places Autocomplete
-    if (locationInputRef.current && window.google) {
-      const autocomplete = new window.google.maps.places.Autocomplete(locationInputRef.current, {
-        types: ['(cities)'],
-        componentRestrictions: { country: ['sk', 'cz', 'at', 'hu', 'pl'] } // Central Europe focus
-      });
-
-      autocomplete.addListener('place_changed', () => {
-        const place = autocomplete.getPlace();
-        if (place.formatted_address) {
-          setLocation(place.formatted_address);
-        }
-      });
-    }
-  }, []);
-
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -46,7 +40,11 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onAddCampervanClick }) => {
       return;
     }
 
-    onSearch(location || 'all');
+    onSearch({
+      location: location.trim(),
+      startDate: toISODate(startDate),
+      endDate: toISODate(endDate)
+    });
   };
 
   const isSearchDisabled = !startDate || !endDate;
@@ -78,20 +76,12 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onAddCampervanClick }) => {
             {/* Search Form - Primary CTA */}
             <form onSubmit={handleSearch} className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-lg p-6 space-y-4 border border-white/20">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none z-10">
-                    <MapPin className="h-4 w-4 text-gray-400" />
-                  </div>
-                  <input
-                    ref={locationInputRef}
-                    type="text"
-                    name="location"
-                    value={location}
-                    onChange={(e) => setLocation(e.target.value)}
-                    placeholder="Lokalita"
-                    className="w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-gray-900 placeholder-gray-500 bg-white/90"
-                  />
-                </div>
+                <LocationAutocomplete
+                  value={location}
+                  onChange={setLocation}
+                  placeholder="Lokalita"
+                  className="w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-gray-900 placeholder-gray-500 bg-white/90"
+                />
                 
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none z-10">
@@ -181,7 +171,7 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onAddCampervanClick }) => {
                 <div className="text-center space-y-4">
                   <div className="flex items-center justify-center space-x-2">
                     <DollarSign className="h-6 w-6 text-orange-100" />
-                    <span className="font-bold text-xl text-white">Zarábajte až €18,000/rok</span>
+                    <span className="font-bold text-xl text-white">Zarábajte až {formatEuros(18000)}/rok</span>
                   </div>
                   <p className="text-orange-100 text-sm leading-relaxed">
                     Prenajímajte svoj campervan a začnite zarábať pasívny príjem už dnes
@@ -244,7 +234,7 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onAddCampervanClick }) => {
               </div>
               <h3 className="font-bold text-xl text-gray-900">Zarábajte extra príjem</h3>
               <p className="text-gray-600 leading-relaxed">
-                Priemerní majitelia zarábajú €15,000+ ročne prenajímaním svojich campervanoch
+                Priemerní majitelia zarábajú {formatEuros(15000)}+ ročne prenajímaním svojich campervanoch
               </p>
             </div>
             
@@ -254,7 +244,7 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onAddCampervanClick }) => {
               </div>
               <h3 className="font-bold text-xl text-gray-900">Chránené a poistené</h3>
               <p className="text-gray-600 leading-relaxed">
-                €1M poistné krytie a 24/7 asistenčná služba v cene
+                {formatEuros(1000000)} poistné krytie a 24/7 asistenčná služba v cene
               </p>
             </div>
             
@@ -283,11 +273,4 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onAddCampervanClick }) => {
   );
 };
 
-// Declare global Google Maps types
-declare global {
-  interface Window {
-    google: any;
-  }
-}
-
 export default Hero;
\ No newline at end of file
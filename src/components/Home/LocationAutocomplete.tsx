@@ -0,0 +1,168 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { LocationSuggestion } from '../../types';
+import { suggestLocations } from '../../services/locationService';
+
+// Wait for a pause in typing before asking the providers
+const SUGGEST_DELAY_MS = 200;
+
+interface LocationAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const formatListingCount = (count: number) =>
+  `${count} ${count === 1 ? 'campervan' : count < 5 ? 'campervany' : 'campervanov'}`;
+
+const LocationAutocomplete: React.FC<LocationAutocompleteProps> = ({
+  value,
+  onChange,
+  placeholder,
+  className
+}) => {
+  const listId = useId();
+  const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+  // A picked suggestion should not open the dropdown again for its own text
+  const pickedValueRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!value.trim() || value === pickedValueRef.current) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      const { suggestions: found } = await suggestLocations(value, controller.signal);
+      if (controller.signal.aborted) return;
+
+      setSuggestions(found);
+      setActiveIndex(-1);
+      setIsOpen(found.length > 0);
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value]);
+
+  const pick = (suggestion: LocationSuggestion) => {
+    pickedValueRef.current = suggestion.label;
+    onChange(suggestion.label);
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) {
+      if (e.key === 'ArrowDown' && suggestions.length > 0) {
+        e.preventDefault();
+        setIsOpen(true);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((activeIndex + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(activeIndex <= 0 ? suggestions.length - 1 : activeIndex - 1);
+        break;
+      case 'Enter':
+        // Without a highlighted entry Enter submits the search form as usual
+        if (activeIndex >= 0) {
+          e.preventDefault();
+          pick(suggestions[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  const showList = isOpen && suggestions.length > 0;
+
+  return (
+    <div className="relative">
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none z-10">
+        <MapPin className="h-4 w-4 text-gray-400" />
+      </div>
+      <input
+        type="text"
+        name="location"
+        value={value}
+        onChange={(e) => {
+          pickedValueRef.current = null;
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(suggestions.length > 0)}
+        onBlur={() => setIsOpen(false)}
+        placeholder={placeholder}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        className={className}
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1 max-h-72 overflow-y-auto"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown runs before the input loses focus and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between px-3 py-2 cursor-pointer ${
+                index === activeIndex ? 'bg-emerald-50' : ''
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="text-sm text-gray-900 truncate">{suggestion.label}</div>
+                {suggestion.description && (
+                  <div className="text-xs text-gray-500 truncate">{suggestion.description}</div>
+                )}
+              </div>
+              {suggestion.listingCount !== undefined && (
+                <span className="ml-3 flex-shrink-0 text-xs text-emerald-700">
+                  {formatListingCount(suggestion.listingCount)}
+                </span>
+              )}
+            </li>
+          ))}
+          {suggestions.some(suggestion => suggestion.source === 'google') && (
+            <li className="px-3 pt-1 text-[10px] text-gray-400 text-right" aria-hidden="true">
+              powered by Google
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LocationAutocomplete;
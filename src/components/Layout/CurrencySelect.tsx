@@ -0,0 +1,35 @@
+import React from 'react';
+import { useAppDispatch } from '../../hooks/redux';
+import { useMoney } from '../../hooks/useMoney';
+import { setDisplayCurrency } from '../../store/slices/currencySlice';
+import { LISTING_CURRENCIES } from '../../lib/money';
+
+interface CurrencySelectProps {
+  className?: string;
+}
+
+/**
+ * 💱 Display currency picker, prices are converted with the stored rate table
+ */
+const CurrencySelect: React.FC<CurrencySelectProps> = ({ className = '' }) => {
+  const dispatch = useAppDispatch();
+  const { displayCurrency, currencies } = useMoney();
+  // Until the rate table arrives the listing currencies are known to exist
+  const codes = currencies.length > 0 ? currencies.map(currency => currency.code) : LISTING_CURRENCIES;
+
+  return (
+    <select
+      value={displayCurrency ?? ''}
+      onChange={(e) => dispatch(setDisplayCurrency(e.target.value || null))}
+      aria-label="Mena zobrazených cien"
+      className={`px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 ${className}`}
+    >
+      <option value="">Mena inzerátu</option>
+      {codes.map((code) => (
+        <option key={code} value={code}>{code}</option>
+      ))}
+    </select>
+  );
+};
+
+export default CurrencySelect;
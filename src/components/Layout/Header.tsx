@@ -1,8 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Search, Menu, X, User, LogOut, PlusCircle, Heart, Calendar, Car, Settings } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Menu, X, User, LogOut, PlusCircle, Heart, Calendar, Car, Settings, Inbox, MessageCircle, ShieldCheck } from 'lucide-react';
 import { useAppSelector, useAppDispatch } from '../../hooks/redux';
 import { logout } from '../../store/slices/authSlice';
 import { setSearchQuery } from '../../store/slices/campersSlice';
+import { ROUTES } from '../../lib/routes';
+import CurrencySelect from './CurrencySelect';
 
 interface HeaderProps {
   onSearch?: (query: string) => void;
@@ -12,8 +15,12 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanClick }) => {
   const dispatch = useAppDispatch();
+  const navigate = useNavigate();
   const { user, loading, isAuthenticated } = useAppSelector((state) => state.auth);
   const { searchQuery } = useAppSelector((state) => state.campers);
+  const unreadMessages = useAppSelector((state) =>
+    state.messages.conversations.reduce((sum, c) => sum + c.unreadCount, 0)
+  );
   
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [localSearchQuery, setLocalSearchQuery] = useState(searchQuery);
@@ -47,6 +54,11 @@ const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanCl
     onSearch?.(localSearchQuery);
   };
 
+  const handleNavigate = (path: string) => {
+    navigate(path);
+    setIsMenuOpen(false);
+  };
+
   const handleLogout = async () => {
     dispatch(logout());
     setIsMenuOpen(false);
@@ -100,12 +112,12 @@ const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanCl
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
           <div className="flex items-center">
-            <div className="flex-shrink-0 flex items-center">
+            <button onClick={() => handleNavigate(ROUTES.home)} className="flex-shrink-0 flex items-center">
               <div className="w-8 h-8 bg-gradient-to-br from-emerald-600 to-emerald-700 rounded-lg flex items-center justify-center">
                 <span className="text-white font-bold text-sm">MC</span>
               </div>
               <span className="ml-2 text-xl font-bold text-gray-900">MyCamper</span>
-            </div>
+            </button>
           </div>
 
           {/* Desktop Search */}
@@ -126,6 +138,8 @@ const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanCl
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center space-x-4">
+            <CurrencySelect />
+
             {/* Show "Prenajať Campervany" for unauthenticated users OR customers (not owners) */}
             {(!isAuthenticated || (user && user.role === 'customer')) && (
               <button className="flex items-center space-x-1 px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 transition-colors rounded-lg">
@@ -149,8 +163,11 @@ const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanCl
               <div className="relative" ref={dropdownRef}>
                 <button 
                   onClick={() => setIsMenuOpen(!isMenuOpen)}
-                  className="flex items-center space-x-2 p-2 rounded-full hover:bg-gray-100 transition-colors"
+                  className="relative flex items-center space-x-2 p-2 rounded-full hover:bg-gray-100 transition-colors"
                 >
+                  {unreadMessages > 0 && (
+                    <span className="absolute top-1 left-8 w-2.5 h-2.5 bg-orange-500 rounded-full ring-2 ring-white" />
+                  )}
                   {user.avatar ? (
                     <img
                       src={user.avatar}
@@ -182,20 +199,62 @@ const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanCl
 
                     {/* Menu Items */}
                     <div className="py-1">
-                      <button className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors">
+                      {user.role === 'owner' && (
+                        <button
+                          onClick={() => handleNavigate(ROUTES.owner)}
+                          className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                        >
+                          <Inbox className="h-4 w-4" />
+                          <span>Žiadosti o rezerváciu</span>
+                        </button>
+                      )}
+
+                      <button
+                        onClick={() => handleNavigate(ROUTES.messages)}
+                        className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                      >
+                        <MessageCircle className="h-4 w-4" />
+                        <span className="flex-1 text-left">Správy</span>
+                        {unreadMessages > 0 && (
+                          <span className="px-2 py-0.5 bg-orange-500 text-white text-xs font-semibold rounded-full">
+                            {unreadMessages}
+                          </span>
+                        )}
+                      </button>
+
+                      <button
+                        onClick={() => handleNavigate(ROUTES.favorites)}
+                        className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                      >
                         <Heart className="h-4 w-4" />
                         <span>Obľúbené</span>
                       </button>
                       
-                      <button className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors">
+                      <button
+                        onClick={() => handleNavigate(ROUTES.bookings)}
+                        className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                      >
                         <Calendar className="h-4 w-4" />
                         <span>Rezervácie</span>
                       </button>
                       
-                      <button className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors">
+                      <button
+                        onClick={() => handleNavigate(ROUTES.profile)}
+                        className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                      >
                         <Settings className="h-4 w-4" />
                         <span>Nastavenia profilu</span>
                       </button>
+
+                      {user.isAdmin && (
+                        <button
+                          onClick={() => handleNavigate(ROUTES.admin)}
+                          className="flex items-center space-x-3 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                        >
+                          <ShieldCheck className="h-4 w-4" />
+                          <span>Správa kurzov</span>
+                        </button>
+                      )}
                     </div>
 
                     {/* Logout */}
@@ -225,8 +284,11 @@ const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanCl
           <div className="md:hidden">
             <button
               onClick={() => setIsMenuOpen(!isMenuOpen)}
-              className="p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 transition-colors"
+              className="relative p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 transition-colors"
             >
+              {isAuthenticated && unreadMessages > 0 && (
+                <span className="absolute top-1 right-1 w-2.5 h-2.5 bg-orange-500 rounded-full ring-2 ring-white" />
+              )}
               {isMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
             </button>
           </div>
@@ -250,6 +312,8 @@ const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanCl
                 />
               </form>
 
+              <CurrencySelect className="w-full" />
+
               {/* Mobile role-based buttons */}
               {isAuthenticated && user ? (
                 <>
@@ -300,20 +364,62 @@ const Header: React.FC<HeaderProps> = ({ onSearch, onAuthClick, onAddCampervanCl
 
                   {/* Mobile Menu Items */}
                   <div className="space-y-1">
-                    <button className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg">
+                    {user.role === 'owner' && (
+                      <button
+                        onClick={() => handleNavigate(ROUTES.owner)}
+                        className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg"
+                      >
+                        <Inbox className="h-4 w-4" />
+                        <span>Žiadosti o rezerváciu</span>
+                      </button>
+                    )}
+
+                    <button
+                      onClick={() => handleNavigate(ROUTES.messages)}
+                      className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg"
+                    >
+                      <MessageCircle className="h-4 w-4" />
+                      <span className="flex-1 text-left">Správy</span>
+                      {unreadMessages > 0 && (
+                        <span className="px-2 py-0.5 bg-orange-500 text-white text-xs font-semibold rounded-full">
+                          {unreadMessages}
+                        </span>
+                      )}
+                    </button>
+
+                    <button
+                      onClick={() => handleNavigate(ROUTES.favorites)}
+                      className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg"
+                    >
                       <Heart className="h-4 w-4" />
                       <span>Obľúbené</span>
                     </button>
                     
-                    <button className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg">
+                    <button
+                      onClick={() => handleNavigate(ROUTES.bookings)}
+                      className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg"
+                    >
                       <Calendar className="h-4 w-4" />
                       <span>Rezervácie</span>
                     </button>
                     
-                    <button className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg">
+                    <button
+                      onClick={() => handleNavigate(ROUTES.profile)}
+                      className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg"
+                    >
                       <Settings className="h-4 w-4" />
                       <span>Nastavenia profilu</span>
                     </button>
+
+                    {user.isAdmin && (
+                      <button
+                        onClick={() => handleNavigate(ROUTES.admin)}
+                        className="flex items-center space-x-3 w-full px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors rounded-lg"
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                        <span>Správa kurzov</span>
+                      </button>
+                    )}
                   </div>
 
                   {/* Mobile Logout */}
@@ -0,0 +1,240 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, MessageCircle, Send } from 'lucide-react';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import {
+  fetchConversations,
+  selectConversation,
+  closeConversation,
+  sendMessage
+} from '../../store/slices/messagesSlice';
+import { Conversation } from '../../types';
+import { ROUTES } from '../../lib/routes';
+
+const formatTime = (date: string) => {
+  const value = new Date(date);
+  const isToday = value.toDateString() === new Date().toDateString();
+  return isToday
+    ? value.toLocaleTimeString('sk-SK', { hour: '2-digit', minute: '2-digit' })
+    : value.toLocaleDateString('sk-SK', { day: 'numeric', month: 'short' });
+};
+
+const Inbox: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { user } = useAppSelector((state) => state.auth);
+  const {
+    conversations,
+    loading,
+    error,
+    activeConversationId,
+    messagesByConversation,
+    messagesLoading,
+    sending,
+    sendError
+  } = useAppSelector((state) => state.messages);
+
+  const [draft, setDraft] = useState('');
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId) || null;
+  const messages = activeConversationId ? messagesByConversation[activeConversationId] || [] : [];
+
+  useEffect(() => {
+    if (user?.id) {
+      dispatch(fetchConversations(user.id));
+    }
+  }, [dispatch, user?.id]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, activeConversationId]);
+
+  if (!user) return null;
+
+  const getOtherParty = (conversation: Conversation) =>
+    conversation.customer.id === user.id ? conversation.owner : conversation.customer;
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeConversationId || !draft.trim()) return;
+
+    const result = await dispatch(sendMessage({
+      conversationId: activeConversationId,
+      senderId: user.id,
+      body: draft
+    }));
+    if (sendMessage.fulfilled.match(result)) {
+      setDraft('');
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate(ROUTES.home)}
+        className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900 transition-colors mb-6"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        <span>Späť na vyhľadávanie</span>
+      </button>
+
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Správy</h1>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden flex h-[70vh]">
+        {/* Conversation list */}
+        <div className={`w-full md:w-80 border-r border-gray-200 overflow-y-auto ${activeConversation ? 'hidden md:block' : ''}`}>
+          {loading && conversations.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+            </div>
+          ) : conversations.length === 0 ? (
+            <div className="text-center py-12 px-4">
+              <MessageCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">Zatiaľ žiadne správy</p>
+            </div>
+          ) : (
+            conversations.map((conversation) => {
+              const otherParty = getOtherParty(conversation);
+              return (
+                <button
+                  key={conversation.id}
+                  onClick={() => dispatch(selectConversation(conversation))}
+                  className={`w-full flex items-start space-x-3 p-4 text-left border-b border-gray-100 hover:bg-gray-50 transition-colors ${
+                    conversation.id === activeConversationId ? 'bg-emerald-50' : ''
+                  }`}
+                >
+                  <img
+                    src={otherParty.avatar}
+                    alt={otherParty.name}
+                    className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between items-baseline">
+                      <span className={`text-sm truncate ${conversation.unreadCount > 0 ? 'font-bold text-gray-900' : 'font-medium text-gray-900'}`}>
+                        {otherParty.name}
+                      </span>
+                      <span className="text-xs text-gray-500 ml-2 flex-shrink-0">{formatTime(conversation.lastMessageAt)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">{conversation.camper.title}</p>
+                    <div className="flex justify-between items-center">
+                      <p className="text-sm text-gray-600 truncate">
+                        {conversation.lastMessage?.body || 'Zatiaľ žiadne správy'}
+                      </p>
+                      {conversation.unreadCount > 0 && (
+                        <span className="ml-2 px-2 py-0.5 bg-orange-500 text-white text-xs font-semibold rounded-full">
+                          {conversation.unreadCount}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        {/* Thread */}
+        <div className={`flex-1 flex-col ${activeConversation ? 'flex' : 'hidden md:flex'}`}>
+          {!activeConversation ? (
+            <div className="flex-1 flex items-center justify-center text-gray-500">
+              Vyberte konverzáciu
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center space-x-3 p-4 border-b border-gray-200">
+                <button
+                  onClick={() => dispatch(closeConversation())}
+                  className="md:hidden p-1 text-gray-600"
+                  aria-label="Späť"
+                >
+                  <ArrowLeft className="h-5 w-5" />
+                </button>
+                {activeConversation.camper.images[0] && (
+                  <img
+                    src={activeConversation.camper.images[0]}
+                    alt={activeConversation.camper.title}
+                    className="w-12 h-9 object-cover rounded"
+                  />
+                )}
+                <div>
+                  <p className="font-semibold text-gray-900">{getOtherParty(activeConversation).name}</p>
+                  <p className="text-xs text-gray-500">{activeConversation.camper.title}</p>
+                </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                {messagesLoading && messages.length === 0 ? (
+                  <div className="flex justify-center py-12">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+                  </div>
+                ) : messages.length === 0 ? (
+                  <p className="text-center text-sm text-gray-500 py-12">
+                    Napíšte prvú správu, napr. otázku na vybavenie alebo termín.
+                  </p>
+                ) : (
+                  messages.map((message) => {
+                    const isOwn = message.senderId === user.id;
+                    return (
+                      <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                        <div
+                          className={`max-w-[75%] px-4 py-2 rounded-2xl text-sm ${
+                            isOwn ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-900'
+                          }`}
+                        >
+                          <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                          <p className={`text-xs mt-1 ${isOwn ? 'text-emerald-100' : 'text-gray-500'}`}>
+                            {formatTime(message.createdAt)}
+                            {isOwn && message.readAt && ' · Prečítané'}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+                <div ref={threadEndRef} />
+              </div>
+
+              <form onSubmit={handleSend} className="p-4 border-t border-gray-200">
+                {sendError && <p className="text-red-600 text-sm mb-2">{sendError}</p>}
+                <div className="flex space-x-2">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleSend(e);
+                      }
+                    }}
+                    rows={1}
+                    maxLength={4000}
+                    placeholder="Napíšte správu..."
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={sending || !draft.trim()}
+                    className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:bg-gray-300"
+                    aria-label="Odoslať"
+                  >
+                    <Send className="h-4 w-4" />
+                  </button>
+                </div>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Inbox;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { X, PlusCircle, AlertCircle } from 'lucide-react';
+
+interface BecomeOwnerPromptProps {
+  isOpen: boolean;
+  saving: boolean;
+  error: string | null;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+// Shown to customers who try to list a campervan
+const BecomeOwnerPrompt: React.FC<BecomeOwnerPromptProps> = ({
+  isOpen,
+  saving,
+  error,
+  onConfirm,
+  onClose
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-md w-full p-6 relative shadow-2xl">
+        <button
+          onClick={onClose}
+          disabled={saving}
+          className="absolute top-4 right-4 p-2 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <div className="text-center mb-6">
+          <PlusCircle className="h-12 w-12 text-orange-600 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Campervany pridávajú majitelia</h2>
+          <p className="text-gray-600">
+            Váš účet je zákaznícky. Ak chcete ponúkať vlastný campervan, prepnite si účet na majiteľa.
+            Vaše rezervácie a obľúbené campervany zostanú zachované.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-500 mt-0.5 flex-shrink-0" />
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg font-semibold hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            Zrušiť
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={saving}
+            className="flex-1 bg-orange-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Prepínam...' : 'Stať sa majiteľom'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BecomeOwnerPrompt;
@@ -0,0 +1,497 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ArrowLeft, ArrowRight, Check, CheckCircle, MapPin } from 'lucide-react';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import { createCamper, searchCampers } from '../../store/slices/campersSlice';
+import { Camper, User } from '../../types';
+import {
+  LISTING_STEPS,
+  ListingDraft,
+  ListingErrors,
+  createEmptyDraft,
+  validateListingStep,
+  draftToCamper,
+  DESCRIPTION_MIN_LENGTH,
+  MAX_IMAGES
+} from '../../lib/listingDraft';
+import { HIGH_SEASON_TEMPLATE } from '../../lib/pricing';
+import { LISTING_CURRENCIES } from '../../lib/money';
+import { deleteCamperPhotos } from '../../services/storageService';
+import { geocodeAddress } from '../../services/geocodingService';
+import { getAmenityIcon, groupAmenities } from '../../lib/amenities';
+import { useAmenities, useAmenityLabel } from '../../hooks/useAmenities';
+import CamperCard from '../Campers/CamperCard';
+import PhotoUploader, { ImagesUpdate } from './PhotoUploader';
+
+interface ListingWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  owner: User;
+}
+
+const camperTypes: { value: Camper['type']; label: string }[] = [
+  { value: 'motorhome', label: 'Motorhome' },
+  { value: 'trailer', label: 'Trailer' },
+  { value: 'van', label: 'Van' },
+  { value: 'popup', label: 'Pop-up' }
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-red-600 text-sm mt-1">{message}</p> : null;
+
+const ListingWizard: React.FC<ListingWizardProps> = ({ isOpen, onClose, owner }) => {
+  const dispatch = useAppDispatch();
+  const { publishing, publishError } = useAppSelector((state) => state.campers);
+
+  const [stepIndex, setStepIndex] = useState(0);
+  const [draft, setDraft] = useState<ListingDraft>(createEmptyDraft);
+  const [errors, setErrors] = useState<ListingErrors>({});
+  const [published, setPublished] = useState(false);
+  const [geocoding, setGeocoding] = useState(false);
+  // Bumped on close, so uploads that finish later know their draft is gone
+  const draftSessionRef = useRef(0);
+  const amenityGroups = groupAmenities(useAmenities());
+  const amenityLabel = useAmenityLabel();
+
+  // Disable/enable body scroll when modal opens/closes
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = 'unset';
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const step = LISTING_STEPS[stepIndex];
+  const isLastStep = stepIndex === LISTING_STEPS.length - 1;
+  const highSeason = draft.pricing.seasonalRates[0];
+
+  const updateDraft = (changes: Partial<ListingDraft>) => {
+    setDraft({ ...draft, ...changes });
+  };
+
+  const updatePricing = (changes: Partial<ListingDraft['pricing']>) => {
+    setDraft({ ...draft, pricing: { ...draft.pricing, ...changes } });
+  };
+
+  const draftSession = draftSessionRef.current;
+  const handleImagesChange = (update: ImagesUpdate) => {
+    if (draftSession !== draftSessionRef.current) {
+      // Uploaded after the wizard was closed, nothing will reference these photos
+      if (typeof update === 'function') {
+        deleteCamperPhotos(update([]));
+      }
+      return;
+    }
+    setDraft(current => ({
+      ...current,
+      images: typeof update === 'function' ? update(current.images) : update
+    }));
+  };
+
+  const handleClose = () => {
+    draftSessionRef.current += 1;
+    if (!published) {
+      // Uploaded photos of an abandoned draft would stay in storage forever
+      deleteCamperPhotos(draft.images);
+    }
+    setStepIndex(0);
+    setDraft(createEmptyDraft());
+    setErrors({});
+    setPublished(false);
+    onClose();
+  };
+
+  const handleNext = async () => {
+    let checkedDraft = draft;
+
+    // The pickup point is looked up on the map before the owner moves on
+    if (step.key === 'location' && !draft.place && draft.location.trim().length >= 2) {
+      setGeocoding(true);
+      const { place, error } = await geocodeAddress(draft.location);
+      setGeocoding(false);
+
+      if (error) {
+        setErrors({ location: 'Adresu sa teraz nepodarilo overiť, skúste to znova' });
+        return;
+      }
+
+      checkedDraft = { ...draft, place };
+      setDraft(checkedDraft);
+    }
+
+    const stepErrors = validateListingStep(step.key, checkedDraft);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length === 0) {
+      setStepIndex(stepIndex + 1);
+    }
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    setStepIndex(Math.max(0, stepIndex - 1));
+  };
+
+  const handlePublish = async () => {
+    const allErrors = validateListingStep('review', draft);
+    setErrors(allErrors);
+    if (Object.keys(allErrors).length > 0) return;
+
+    const result = await dispatch(createCamper({ draft, owner }));
+    if (createCamper.fulfilled.match(result)) {
+      setPublished(true);
+      // The new listing shows up in the results if it matches the current search
+      dispatch(searchCampers());
+    }
+  };
+
+  const handleAmenityToggle = (amenity: string, checked: boolean) => {
+    updateDraft({
+      amenities: checked
+        ? [...draft.amenities, amenity]
+        : draft.amenities.filter(a => a !== amenity)
+    });
+  };
+
+  const handleHighSeasonToggle = (enabled: boolean) => {
+    updatePricing({
+      seasonalRates: enabled
+        ? [{ ...HIGH_SEASON_TEMPLATE, name: 'Hlavná sezóna', price: Math.round(draft.price * 1.25) || 1 }]
+        : []
+    });
+  };
+
+  const renderStep = () => {
+    switch (step.key) {
+      case 'basics':
+        return (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Názov inzerátu *</label>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => updateDraft({ title: e.target.value })}
+                placeholder="napr. Útulný VW California pre dvoch"
+                className={inputClassName}
+              />
+              <FieldError message={errors.title} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Typ vozidla *</label>
+              <div className="grid grid-cols-2 gap-3">
+                {camperTypes.map((type) => (
+                  <button
+                    key={type.value}
+                    type="button"
+                    onClick={() => updateDraft({ type: type.value })}
+                    className={`px-4 py-3 border-2 rounded-lg text-sm font-medium transition-colors ${
+                      draft.type === type.value
+                        ? 'border-emerald-600 bg-emerald-50 text-emerald-800'
+                        : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    {type.label}
+                  </button>
+                ))}
+              </div>
+              <FieldError message={errors.type} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Počet miest na spanie *</label>
+              <input
+                type="number"
+                min={1}
+                max={12}
+                value={draft.capacity}
+                onChange={(e) => updateDraft({ capacity: parseInt(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+              <FieldError message={errors.capacity} />
+            </div>
+          </div>
+        );
+
+      case 'description':
+        return (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Popis *</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              rows={8}
+              placeholder="Opíšte vozidlo, pre koho je vhodné a čo je v cene..."
+              className={inputClassName}
+            />
+            <div className="flex justify-between">
+              <FieldError message={errors.description} />
+              <span className="text-xs text-gray-500 mt-1 ml-auto">
+                {draft.description.trim().length} / {DESCRIPTION_MIN_LENGTH}+
+              </span>
+            </div>
+          </div>
+        );
+
+      case 'amenities':
+        return (
+          <div className="space-y-6">
+            {amenityGroups.map(({ category, amenities }) => (
+              <div key={category.key}>
+                <h3 className="text-sm font-medium text-gray-900 mb-3">{amenityLabel(category)}</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {amenities.map((amenity) => {
+                    const Icon = getAmenityIcon(amenity.icon);
+                    return (
+                      <label key={amenity.key} className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={draft.amenities.includes(amenity.key)}
+                          onChange={(e) => handleAmenityToggle(amenity.key, e.target.checked)}
+                          className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300 rounded"
+                        />
+                        <Icon className="ml-2 h-4 w-4 text-gray-500" />
+                        <span className="ml-2 text-sm text-gray-700">{amenityLabel(amenity)}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+
+      case 'location':
+        return (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Kde si zákazníci vozidlo vyzdvihnú? *</label>
+            <input
+              type="text"
+              value={draft.location}
+              onChange={(e) => updateDraft({ location: e.target.value, place: null })}
+              placeholder="napr. Bratislava, Slovensko"
+              className={inputClassName}
+            />
+            <FieldError message={errors.location} />
+            {draft.place && (
+              <p className="flex items-start space-x-1 text-sm text-gray-600 mt-2">
+                <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0 text-emerald-600" />
+                <span>Na mape: {draft.place.label}</span>
+              </p>
+            )}
+          </div>
+        );
+
+      case 'price':
+        return (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Mena</label>
+              <select
+                value={draft.currency}
+                onChange={(e) => updateDraft({ currency: e.target.value })}
+                className={inputClassName}
+              >
+                {LISTING_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Zákazníci platia v tejto mene</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cena za noc ({draft.currency}) *</label>
+              <input
+                type="number"
+                min={1}
+                value={draft.price || ''}
+                onChange={(e) => updateDraft({ price: parseFloat(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+              <FieldError message={errors.price} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Upratovací poplatok ({draft.currency})</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.pricing.cleaningFee}
+                  onChange={(e) => updatePricing({ cleaningFee: parseFloat(e.target.value) || 0 })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Víkendový príplatok (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.pricing.weekendSurchargePercent}
+                  onChange={(e) => updatePricing({ weekendSurchargePercent: parseFloat(e.target.value) || 0 })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Týždenná zľava (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.pricing.weeklyDiscountPercent}
+                  onChange={(e) => updatePricing({ weeklyDiscountPercent: parseFloat(e.target.value) || 0 })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Mesačná zľava (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.pricing.monthlyDiscountPercent}
+                  onChange={(e) => updatePricing({ monthlyDiscountPercent: parseFloat(e.target.value) || 0 })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={!!highSeason}
+                  onChange={(e) => handleHighSeasonToggle(e.target.checked)}
+                  className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">Iná cena v hlavnej sezóne (júl – august)</span>
+              </label>
+              {highSeason && (
+                <input
+                  type="number"
+                  min={1}
+                  value={highSeason.price || ''}
+                  onChange={(e) => updatePricing({
+                    seasonalRates: [{ ...highSeason, price: parseFloat(e.target.value) || 0 }]
+                  })}
+                  className={inputClassName}
+                />
+              )}
+            </div>
+            <FieldError message={errors.pricing} />
+          </div>
+        );
+
+      case 'photos':
+        return (
+          <div>
+            <PhotoUploader
+              images={draft.images}
+              onChange={handleImagesChange}
+              ownerId={owner.id}
+              maxImages={MAX_IMAGES}
+            />
+            <FieldError message={errors.images} />
+          </div>
+        );
+
+      case 'review':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">Takto uvidia váš inzerát zákazníci vo výsledkoch vyhľadávania.</p>
+            <div className="max-w-sm mx-auto">
+              <CamperCard camper={draftToCamper(draft, owner)} onClick={() => {}} />
+            </div>
+            {Object.values(errors).filter(Boolean).map((message) => (
+              <FieldError key={message} message={message} />
+            ))}
+            {publishError && <FieldError message={publishError} />}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto relative shadow-2xl">
+        <button
+          onClick={handleClose}
+          className="absolute top-4 right-4 p-2 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        {published ? (
+          <div className="text-center p-8">
+            <CheckCircle className="h-12 w-12 text-emerald-600 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Inzerát je zverejnený</h2>
+            <p className="text-gray-600 mb-6">Váš campervan sa teraz zobrazuje vo vyhľadávaní.</p>
+            <button
+              onClick={handleClose}
+              className="bg-emerald-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-emerald-700 transition-colors"
+            >
+              Hotovo
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* Header with progress */}
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900">Pridať campervan</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Krok {stepIndex + 1} z {LISTING_STEPS.length}: {step.label}
+              </p>
+              <div className="flex space-x-1 mt-4">
+                {LISTING_STEPS.map((s, index) => (
+                  <div
+                    key={s.key}
+                    className={`h-1.5 flex-1 rounded-full ${index <= stepIndex ? 'bg-orange-500' : 'bg-gray-200'}`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="p-6">{renderStep()}</div>
+
+            {/* Footer */}
+            <div className="flex justify-between p-6 border-t border-gray-200">
+              <button
+                onClick={handleBack}
+                disabled={stepIndex === 0 || publishing}
+                className="flex items-center space-x-1 px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 transition-colors disabled:opacity-40"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>Späť</span>
+              </button>
+              {isLastStep ? (
+                <button
+                  onClick={handlePublish}
+                  disabled={publishing}
+                  className="flex items-center space-x-1 px-6 py-2 text-sm font-semibold text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors disabled:bg-gray-300"
+                >
+                  <Check className="h-4 w-4" />
+                  <span>{publishing ? 'Zverejňujem...' : 'Zverejniť'}</span>
+                </button>
+              ) : (
+                <button
+                  onClick={handleNext}
+                  disabled={geocoding}
+                  className="flex items-center space-x-1 px-6 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-gray-300"
+                >
+                  <span>{geocoding ? 'Hľadám adresu...' : 'Ďalej'}</span>
+                  <ArrowRight className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ListingWizard;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Calendar, Check, X, ChevronDown, ChevronUp, Inbox } from 'lucide-react';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import {
+  fetchOwnerBookings,
+  fetchBookingHistory,
+  updateBookingStatus
+} from '../../store/slices/bookingsSlice';
+import { Booking, BookingStatus } from '../../types';
+import {
+  BOOKING_STATUS_COLORS,
+  BOOKING_STATUS_LABELS,
+  PENDING_BOOKING_EXPIRY_HOURS,
+  UNLISTED_CAMPER_TITLE,
+  getAvailableTransitions
+} from '../../lib/bookingStatus';
+import { fromISODate } from '../../lib/availability';
+import { ROUTES } from '../../lib/routes';
+import { formatMoney } from '../../lib/money';
+
+const formatDate = (date: string) =>
+  fromISODate(date).toLocaleDateString('sk-SK', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('sk-SK', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const ACTOR_LABELS = {
+  customer: 'Zákazník',
+  owner: 'Majiteľ',
+  system: 'Systém'
+};
+
+const OwnerDashboard: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { user } = useAppSelector((state) => state.auth);
+  const {
+    ownerBookings,
+    ownerBookingsLoading,
+    ownerBookingsError,
+    updatingBookingId,
+    historyByBookingId
+  } = useAppSelector((state) => state.bookings);
+
+  const [expandedBookingId, setExpandedBookingId] = useState<string | null>(null);
+  const [decliningBookingId, setDecliningBookingId] = useState<string | null>(null);
+  const [declineNote, setDeclineNote] = useState('');
+
+  useEffect(() => {
+    if (user?.id) {
+      dispatch(fetchOwnerBookings(user.id));
+    }
+  }, [dispatch, user?.id]);
+
+  const handleToggleHistory = (bookingId: string) => {
+    if (expandedBookingId === bookingId) {
+      setExpandedBookingId(null);
+      return;
+    }
+    setExpandedBookingId(bookingId);
+    if (!historyByBookingId[bookingId]) {
+      dispatch(fetchBookingHistory(bookingId));
+    }
+  };
+
+  const handleTransition = (booking: Booking, to: BookingStatus, note?: string) => {
+    dispatch(updateBookingStatus({ booking, to, actor: 'owner', note }));
+    setDecliningBookingId(null);
+    setDeclineNote('');
+  };
+
+  const pendingCount = ownerBookings.filter(b => b.status === 'pending').length;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate(ROUTES.home)}
+        className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900 transition-colors mb-6"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        <span>Späť na vyhľadávanie</span>
+      </button>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Žiadosti o rezerváciu</h1>
+        <p className="text-gray-600 mt-1">
+          {pendingCount > 0
+            ? `${pendingCount} ${pendingCount === 1 ? 'žiadosť čaká' : 'žiadostí čaká'} na vaše rozhodnutie. Bez odpovede do ${PENDING_BOOKING_EXPIRY_HOURS} hodín sa žiadosť automaticky zruší.`
+            : 'Všetky žiadosti sú vybavené'}
+        </p>
+      </div>
+
+      {ownerBookingsError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{ownerBookingsError}</p>
+        </div>
+      )}
+
+      {ownerBookingsLoading && ownerBookings.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+        </div>
+      ) : ownerBookings.length === 0 ? (
+        <div className="text-center py-12">
+          <Inbox className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Zatiaľ žiadne rezervácie</h3>
+          <p className="text-gray-600">Keď si niekto rezervuje váš campervan, uvidíte to tu.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {ownerBookings.map((booking) => {
+            const transitions = getAvailableTransitions(booking, 'owner');
+            const isUpdating = updatingBookingId === booking.id;
+            const history = historyByBookingId[booking.id];
+
+            return (
+              <div key={booking.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 p-4">
+                <div className="flex flex-col md:flex-row md:items-center gap-4">
+                  {booking.camper ? (
+                    <img
+                      src={booking.camper.images[0]}
+                      alt={booking.camper.title}
+                      className="w-full md:w-28 h-20 object-cover rounded-lg"
+                    />
+                  ) : (
+                    <div className="w-full md:w-28 h-20 bg-gray-100 rounded-lg" />
+                  )}
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <h3 className="font-semibold text-gray-900">{booking.camper?.title ?? UNLISTED_CAMPER_TITLE}</h3>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${BOOKING_STATUS_COLORS[booking.status]}`}>
+                        {BOOKING_STATUS_LABELS[booking.status]}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                      <Calendar className="h-4 w-4" />
+                      <span>{formatDate(booking.startDate)} – {formatDate(booking.endDate)} · {booking.nights} nocí</span>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {booking.customer.name} · <span className="font-medium text-gray-900">{formatMoney(booking.totalPrice, booking.currency)}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    {transitions.includes('confirmed') && (
+                      <button
+                        onClick={() => handleTransition(booking, 'confirmed')}
+                        disabled={isUpdating}
+                        className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors disabled:bg-gray-300"
+                      >
+                        <Check className="h-4 w-4" />
+                        <span>Potvrdiť</span>
+                      </button>
+                    )}
+                    {transitions.includes('cancelled') && (
+                      <button
+                        onClick={() => setDecliningBookingId(booking.id)}
+                        disabled={isUpdating}
+                        className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <X className="h-4 w-4" />
+                        <span>{booking.status === 'pending' ? 'Odmietnuť' : 'Zrušiť'}</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleToggleHistory(booking.id)}
+                      className="p-2 text-gray-500 hover:text-gray-900 transition-colors"
+                      aria-label="História"
+                    >
+                      {expandedBookingId === booking.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </button>
+                  </div>
+                </div>
+
+                {decliningBookingId === booking.id && (
+                  <div className="mt-4 space-y-2">
+                    <textarea
+                      value={declineNote}
+                      onChange={(e) => setDeclineNote(e.target.value)}
+                      placeholder="Dôvod (zobrazí sa zákazníkovi)"
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setDecliningBookingId(null)}
+                        className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                      >
+                        Späť
+                      </button>
+                      <button
+                        onClick={() => handleTransition(booking, 'cancelled', declineNote)}
+                        className="px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
+                      >
+                        {booking.status === 'pending' ? 'Odmietnuť rezerváciu' : 'Zrušiť rezerváciu'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {expandedBookingId === booking.id && (
+                  <div className="mt-4 border-t border-gray-100 pt-3">
+                    {!history ? (
+                      <p className="text-sm text-gray-500">Načítavam históriu...</p>
+                    ) : (
+                      <ol className="space-y-2">
+                        {history.map((change) => (
+                          <li key={change.id} className="flex items-start justify-between text-sm">
+                            <div>
+                              <span className="font-medium text-gray-900">{BOOKING_STATUS_LABELS[change.toStatus]}</span>
+                              <span className="text-gray-500"> · {ACTOR_LABELS[change.actor]}</span>
+                              {change.note && <p className="text-gray-600">„{change.note}"</p>}
+                            </div>
+                            <span className="text-gray-500">{formatDateTime(change.createdAt)}</span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OwnerDashboard;
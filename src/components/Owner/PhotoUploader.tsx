@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, Star, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { resizeImage, ACCEPTED_IMAGE_TYPES } from '../../lib/imageResize';
+import { uploadCamperPhoto, deleteCamperPhotos } from '../../services/storageService';
+
+export type ImagesUpdate = string[] | ((current: string[]) => string[]);
+
+interface PhotoUploaderProps {
+  images: string[];
+  // Accepts a function like a state setter, uploads finish after other changes
+  onChange: (update: ImagesUpdate) => void;
+  ownerId: string;
+  maxImages: number;
+}
+
+const moveItem = (items: string[], from: number, to: number): string[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+const PhotoUploader: React.FC<PhotoUploaderProps> = ({ images, onChange, ownerId, maxImages }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  const isUploading = uploadingCount > 0;
+  // Uploads in progress hold their slot, so parallel uploads cannot overshoot the limit
+  const remainingSlots = maxImages - images.length - uploadingCount;
+
+  const handleFilesSelected = async (fileList: FileList | null) => {
+    if (!fileList) return;
+
+    const files = Array.from(fileList).filter(file => ACCEPTED_IMAGE_TYPES.includes(file.type));
+    const accepted = files.slice(0, remainingSlots);
+    setError(
+      files.length < fileList.length
+        ? 'Niektoré súbory nie sú obrázky (JPEG, PNG, WebP) a boli preskočené'
+        : accepted.length < files.length
+          ? `Maximálne ${maxImages} fotiek, niektoré boli preskočené`
+          : null
+    );
+    if (accepted.length === 0) return;
+
+    setUploadingCount(count => count + accepted.length);
+
+    for (const file of accepted) {
+      try {
+        const resized = await resizeImage(file);
+        const { url, error: uploadError } = await uploadCamperPhoto(ownerId, resized);
+        if (url) {
+          onChange(current => [...current, url]);
+        } else {
+          setError(`Fotku ${file.name} sa nepodarilo nahrať: ${uploadError}`);
+        }
+      } catch (resizeError) {
+        console.error('❌ PhotoUploader: Resize error:', resizeError);
+        setError(`Fotku ${file.name} sa nepodarilo spracovať`);
+      }
+      setUploadingCount(count => count - 1);
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemove = (image: string) => {
+    onChange(current => current.filter(i => i !== image));
+    // The file is not referenced by any listing anymore
+    deleteCamperPhotos([image]);
+  };
+
+  const handleDrop = (index: number) => {
+    if (draggedIndex !== null && draggedIndex !== index) {
+      onChange(moveItem(images, draggedIndex, index));
+    }
+    setDraggedIndex(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isUploading || remainingSlots <= 0}
+        className="w-full flex flex-col items-center justify-center py-8 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-emerald-500 hover:text-emerald-700 transition-colors disabled:opacity-50 disabled:hover:border-gray-300 disabled:hover:text-gray-600"
+      >
+        {isUploading ? (
+          <>
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600 mb-2"></div>
+            <span className="text-sm">Nahrávam... ({uploadingCount})</span>
+          </>
+        ) : (
+          <>
+            <ImagePlus className="h-6 w-6 mb-2" />
+            <span className="text-sm font-medium">Pridať fotky</span>
+            <span className="text-xs text-gray-500 mt-1">
+              JPEG, PNG alebo WebP · ešte {Math.max(0, remainingSlots)} z {maxImages}
+            </span>
+          </>
+        )}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => handleFilesSelected(e.target.files)}
+      />
+
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+
+      {images.length > 0 && (
+        <>
+          <p className="text-xs text-gray-500">Poradie zmeníte potiahnutím. Prvá fotka je titulná.</p>
+          <div className="grid grid-cols-3 gap-3">
+            {images.map((image, index) => (
+              <div
+                key={image}
+                draggable={!isUploading}
+                onDragStart={() => setDraggedIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDraggedIndex(null)}
+                className={`relative group cursor-move ${draggedIndex === index ? 'opacity-50' : ''}`}
+              >
+                <img src={image} alt={`Fotka ${index + 1}`} className="w-full h-24 object-cover rounded-lg" />
+                {index === 0 ? (
+                  <span className="absolute bottom-1 left-1 px-2 py-0.5 bg-white/90 rounded-full text-xs font-medium">
+                    Titulná
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveItem(images, index, 0))}
+                    className="absolute bottom-1 left-1 p-1 bg-white rounded-full shadow"
+                    aria-label="Nastaviť ako titulnú"
+                  >
+                    <Star className="h-3 w-3 text-orange-500" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(image)}
+                  disabled={isUploading}
+                  className="absolute top-1 right-1 p-1 bg-white rounded-full shadow"
+                  aria-label="Odstrániť fotku"
+                >
+                  <Trash2 className="h-3 w-3 text-red-600" />
+                </button>
+                <div className="absolute bottom-1 right-1 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveItem(images, index, index - 1))}
+                    disabled={index === 0}
+                    className="p-1 bg-white rounded-full shadow disabled:hidden"
+                    aria-label="Posunúť doľava"
+                  >
+                    <ChevronLeft className="h-3 w-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveItem(images, index, index + 1))}
+                    disabled={index === images.length - 1}
+                    className="p-1 bg-white rounded-full shadow disabled:hidden"
+                    aria-label="Posunúť doprava"
+                  >
+                    <ChevronRight className="h-3 w-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhotoUploader;
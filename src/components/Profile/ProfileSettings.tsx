@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Camera, CheckCircle } from 'lucide-react';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import { updateProfile } from '../../store/slices/authSlice';
+import { PreferredLanguage, ProfileUpdate } from '../../types';
+import {
+  BIO_MAX_LENGTH,
+  AVATAR_DIMENSION,
+  PREFERRED_LANGUAGES,
+  ProfileErrors,
+  validateProfile
+} from '../../lib/profile';
+import { resizeImage, ACCEPTED_IMAGE_TYPES } from '../../lib/imageResize';
+import { uploadAvatar, deleteAvatar } from '../../services/storageService';
+import { ROUTES } from '../../lib/routes';
+
+const ProfileSettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { user, profileSaving, profileError } = useAppSelector((state) => state.auth);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [form, setForm] = useState<ProfileUpdate>({
+    name: user?.name ?? '',
+    avatar: user?.avatar,
+    phone: user?.phone ?? '',
+    bio: user?.bio ?? '',
+    preferredLanguage: user?.preferredLanguage ?? 'sk'
+  });
+  const [errors, setErrors] = useState<ProfileErrors>({});
+  const [avatarUploading, setAvatarUploading] = useState(false);
+  const [avatarError, setAvatarError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Avatar uploaded in this form but not saved yet, removed when replaced or abandoned
+  const unsavedAvatarRef = useRef<string | null>(null);
+
+  useEffect(() => () => {
+    if (unsavedAvatarRef.current) {
+      deleteAvatar(unsavedAvatarRef.current);
+    }
+  }, []);
+
+  if (!user) return null;
+
+  const updateField = <K extends keyof ProfileUpdate>(field: K, value: ProfileUpdate[K]) => {
+    setForm({ ...form, [field]: value });
+    setErrors({ ...errors, [field]: undefined });
+    setSaved(false);
+  };
+
+  const handleAvatarSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      setAvatarError('Vyberte obrázok (JPEG, PNG, WebP)');
+      return;
+    }
+
+    setAvatarUploading(true);
+    setAvatarError(null);
+
+    try {
+      const resized = await resizeImage(file, AVATAR_DIMENSION);
+      const { url, error } = await uploadAvatar(user.id, resized);
+
+      if (error || !url) {
+        setAvatarError(error ?? 'Nahrávanie zlyhalo');
+        return;
+      }
+
+      if (unsavedAvatarRef.current) {
+        deleteAvatar(unsavedAvatarRef.current);
+      }
+      unsavedAvatarRef.current = url;
+      updateField('avatar', url);
+    } catch (error) {
+      setAvatarError(error instanceof Error ? error.message : 'Nahrávanie zlyhalo');
+    } finally {
+      setAvatarUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateProfile(form);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    const result = await dispatch(updateProfile(form));
+    if (updateProfile.fulfilled.match(result)) {
+      unsavedAvatarRef.current = null;
+      setSaved(true);
+    }
+  };
+
+  const inputClass = (field: keyof ProfileUpdate) =>
+    `w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 ${
+      errors[field] ? 'border-red-300' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate(ROUTES.home)}
+        className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900 transition-colors mb-6"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        <span>Späť na vyhľadávanie</span>
+      </button>
+
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Nastavenia profilu</h1>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-6">
+        <div className="flex items-center space-x-4">
+          <div className="relative">
+            {form.avatar ? (
+              <img src={form.avatar} alt={form.name} className="h-20 w-20 rounded-full object-cover" />
+            ) : (
+              <div className="h-20 w-20 rounded-full bg-emerald-600 flex items-center justify-center text-white text-2xl font-bold">
+                {form.name.charAt(0).toUpperCase()}
+              </div>
+            )}
+            {avatarUploading && (
+              <div className="absolute inset-0 rounded-full bg-white/70 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+              </div>
+            )}
+          </div>
+          <div>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={avatarUploading}
+              className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Camera className="h-4 w-4" />
+              <span>Zmeniť fotku</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                handleAvatarSelected(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {(avatarError || errors.avatar) && (
+              <p className="text-red-600 text-xs mt-1">{avatarError || errors.avatar}</p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">E-mail</label>
+          <input
+            type="email"
+            value={user.email}
+            disabled
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm bg-gray-50 text-gray-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Meno</label>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => updateField('name', e.target.value)}
+            className={inputClass('name')}
+          />
+          {errors.name && <p className="text-red-600 text-xs mt-1">{errors.name}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Telefón</label>
+          <input
+            type="tel"
+            value={form.phone ?? ''}
+            onChange={(e) => updateField('phone', e.target.value)}
+            placeholder="+421 900 123 456"
+            className={inputClass('phone')}
+          />
+          {errors.phone && <p className="text-red-600 text-xs mt-1">{errors.phone}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">O mne</label>
+          <textarea
+            value={form.bio ?? ''}
+            onChange={(e) => updateField('bio', e.target.value)}
+            rows={4}
+            placeholder="Pár slov o sebe pre majiteľov a hostí"
+            className={inputClass('bio')}
+          />
+          <div className="flex justify-between text-xs mt-1">
+            <span className="text-red-600">{errors.bio}</span>
+            <span className="text-gray-500">{(form.bio ?? '').length}/{BIO_MAX_LENGTH}</span>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Preferovaný jazyk</label>
+          <select
+            value={form.preferredLanguage}
+            onChange={(e) => updateField('preferredLanguage', e.target.value as PreferredLanguage)}
+            className={inputClass('preferredLanguage')}
+          >
+            {PREFERRED_LANGUAGES.map(language => (
+              <option key={language.value} value={language.value}>{language.label}</option>
+            ))}
+          </select>
+          {errors.preferredLanguage && <p className="text-red-600 text-xs mt-1">{errors.preferredLanguage}</p>}
+        </div>
+
+        {profileError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{profileError}</p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end space-x-4">
+          {saved && (
+            <span className="flex items-center space-x-1 text-sm text-emerald-600">
+              <CheckCircle className="h-4 w-4" />
+              <span>Uložené</span>
+            </span>
+          )}
+          <button
+            type="submit"
+            disabled={profileSaving || avatarUploading}
+            className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            {profileSaving ? 'Ukladám...' : 'Uložiť zmeny'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProfileSettings;
@@ -0,0 +1,33 @@
+import { useCallback, useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { fetchAmenities } from '../store/slices/amenitiesSlice';
+import { getAmenityLabel } from '../lib/amenities';
+import { resolveLanguage } from '../lib/profile';
+
+/**
+ * 🧰 The amenity catalogue, loaded by the first component that needs it
+ */
+export const useAmenities = () => {
+  const dispatch = useAppDispatch();
+  const amenities = useAppSelector((state) => state.amenities.items);
+
+  useEffect(() => {
+    dispatch(fetchAmenities());
+  }, [dispatch]);
+
+  return amenities;
+};
+
+/**
+ * 🏷️ Amenity and category labels in the user's language, resolved once for
+ * every component that shows the catalogue
+ */
+export const useAmenityLabel = () => {
+  const preferredLanguage = useAppSelector((state) => state.auth.user?.preferredLanguage);
+  const language = resolveLanguage(preferredLanguage);
+
+  return useCallback(
+    (item: Parameters<typeof getAmenityLabel>[0]) => getAmenityLabel(item, language),
+    [language]
+  );
+};
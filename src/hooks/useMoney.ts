@@ -0,0 +1,35 @@
+import { useEffect, useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from './redux';
+import { fetchCurrencies } from '../store/slices/currencySlice';
+import { CurrencyCode } from '../types';
+import { convertMoney, formatMoney, toExchangeRates } from '../lib/money';
+
+/**
+ * 💶 Money formatting in the user's locale and display currency
+ * `formatPrice` converts to the display currency when one is picked and its
+ * rate is known, marked "≈" since the charge stays in the listing currency.
+ */
+export const useMoney = () => {
+  const dispatch = useAppDispatch();
+  const { displayCurrency, currencies } = useAppSelector((state) => state.currency);
+
+  useEffect(() => {
+    dispatch(fetchCurrencies());
+  }, [dispatch]);
+
+  return useMemo(() => {
+    const rates = toExchangeRates(currencies);
+
+    const formatPrice = (amount: number, currency: CurrencyCode) => {
+      if (displayCurrency && displayCurrency !== currency) {
+        const converted = convertMoney(amount, currency, displayCurrency, rates);
+        if (converted !== null) {
+          return `≈ ${formatMoney(converted, displayCurrency, { wholeUnits: true })}`;
+        }
+      }
+      return formatMoney(amount, currency);
+    };
+
+    return { formatPrice, displayCurrency, currencies };
+  }, [currencies, displayCurrency]);
+};
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from './redux';
+import { setSearchState } from '../store/slices/campersSlice';
+import { parseSearchParams, toSearchString } from '../lib/searchParams';
+import { ROUTES } from '../lib/routes';
+
+// Changes this close together (typing a price) update one history entry
+const HISTORY_COALESCE_MS = 1000;
+
+/**
+ * 🔗 Keep the search (text, filters, dates, sort) in the home page query string
+ * The URL wins when it changes (load, shared link, back/forward), the store
+ * wins when the user changes the search, which pushes a new history entry.
+ */
+export const useSearchUrlSync = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { searchQuery, filters, sortBy } = useAppSelector((state) => state.campers);
+
+  const isHome = location.pathname === ROUTES.home;
+  const storeSearch = toSearchString({ searchQuery, filters, sortBy });
+
+  // Last query string both sides agreed on
+  const syncedSearchRef = useRef<string | null>(null);
+  const previousStoreSearchRef = useRef(storeSearch);
+  const lastPushRef = useRef(0);
+
+  // URL → store
+  useEffect(() => {
+    if (!isHome) return;
+
+    const parsed = parseSearchParams(new URLSearchParams(location.search));
+    const urlSearch = toSearchString(parsed);
+    if (urlSearch === syncedSearchRef.current) return;
+
+    syncedSearchRef.current = urlSearch;
+    dispatch(setSearchState(parsed));
+  }, [dispatch, isHome, location.search]);
+
+  // Store → URL, only for changes made in the app (not the ones restored above)
+  useEffect(() => {
+    if (storeSearch === previousStoreSearchRef.current) return;
+    previousStoreSearchRef.current = storeSearch;
+    if (storeSearch === syncedSearchRef.current) return;
+
+    syncedSearchRef.current = storeSearch;
+    const now = Date.now();
+    const replace = isHome && now - lastPushRef.current < HISTORY_COALESCE_MS;
+    lastPushRef.current = now;
+
+    // A search started from another page (header search) shows its results
+    navigate({ pathname: ROUTES.home, search: storeSearch }, { replace });
+  }, [navigate, isHome, storeSearch]);
+};
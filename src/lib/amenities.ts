@@ -0,0 +1,93 @@
+import {
+  Armchair,
+  Bath,
+  Bike,
+  Camera,
+  CheckCircle,
+  ChefHat,
+  Droplets,
+  Flame,
+  LucideIcon,
+  Navigation,
+  PawPrint,
+  Refrigerator,
+  ShowerHead,
+  Snowflake,
+  Sun,
+  Tent,
+  Tv,
+  Wifi,
+  Wind,
+  Zap
+} from 'lucide-react';
+import { Amenity, AmenityCategory } from '../types';
+
+export const AMENITY_CATEGORIES: { key: AmenityCategory; labels: Record<string, string> }[] = [
+  { key: 'kitchen', labels: { sk: 'Kuchyňa', en: 'Kitchen' } },
+  { key: 'bathroom', labels: { sk: 'Kúpeľňa', en: 'Bathroom' } },
+  { key: 'comfort', labels: { sk: 'Pohodlie', en: 'Comfort' } },
+  { key: 'power', labels: { sk: 'Energia', en: 'Power' } },
+  { key: 'outdoor', labels: { sk: 'Vonku', en: 'Outdoor' } },
+  { key: 'driving', labels: { sk: 'Jazda', en: 'Driving' } },
+  { key: 'policies', labels: { sk: 'Pravidlá', en: 'Policies' } }
+];
+
+// Icons the catalogue may name; new amenities pick one of these or get a check mark
+const AMENITY_ICONS: Record<string, LucideIcon> = {
+  armchair: Armchair,
+  bath: Bath,
+  bike: Bike,
+  camera: Camera,
+  'chef-hat': ChefHat,
+  droplets: Droplets,
+  flame: Flame,
+  navigation: Navigation,
+  'paw-print': PawPrint,
+  refrigerator: Refrigerator,
+  'shower-head': ShowerHead,
+  snowflake: Snowflake,
+  sun: Sun,
+  tent: Tent,
+  tv: Tv,
+  wifi: Wifi,
+  wind: Wind,
+  zap: Zap
+};
+
+export const getAmenityIcon = (icon: string): LucideIcon => AMENITY_ICONS[icon] ?? CheckCircle;
+
+/**
+ * 🏷️ Label in the given language, English when there is no translation
+ */
+export const getAmenityLabel = (item: { key?: string; labels: Record<string, string> }, language: string): string =>
+  item.labels[language] ?? item.labels.en ?? item.key ?? '';
+
+export const isAmenityKey = (value: string): boolean => /^[a-z][a-zA-Z0-9]*$/.test(value);
+
+const categoryIndex = (category: AmenityCategory) =>
+  AMENITY_CATEGORIES.findIndex(({ key }) => key === category);
+
+/**
+ * 🧰 Catalogue in display order: by category, then by sort order
+ */
+export const sortAmenities = (amenities: Amenity[]): Amenity[] =>
+  [...amenities].sort((a, b) =>
+    categoryIndex(a.category) - categoryIndex(b.category) || a.sortOrder - b.sortOrder
+  );
+
+/**
+ * 🧰 Catalogue grouped by category, optionally only the given keys (a camper's amenities)
+ * Keys missing from the catalogue are skipped.
+ */
+export const groupAmenities = (
+  catalogue: Amenity[],
+  keys?: string[]
+): { category: (typeof AMENITY_CATEGORIES)[number]; amenities: Amenity[] }[] =>
+  AMENITY_CATEGORIES
+    .map(category => ({
+      category,
+      amenities: catalogue.filter(amenity =>
+        amenity.category === category.key && (!keys || keys.includes(amenity.key))
+      )
+    }))
+    .filter(group => group.amenities.length > 0);
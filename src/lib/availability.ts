@@ -0,0 +1,57 @@
+import { AvailabilityRange } from '../types';
+
+// All ranges are [startDate, endDate) with YYYY-MM-DD strings: endDate is the
+// check-out day, which stays free for the next guest's check-in.
+
+/**
+ * 📅 Format a local Date (as returned by date pickers) as YYYY-MM-DD
+ */
+export const toISODate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * 📅 Parse YYYY-MM-DD as a local Date at midnight
+ */
+export const fromISODate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * 🔀 Do two [start, end) ranges share at least one night?
+ */
+export const rangesOverlap = (
+  startA: string,
+  endA: string,
+  startB: string,
+  endB: string
+): boolean => startA < endB && startB < endA;
+
+/**
+ * 🌙 Is the night starting on `date` booked or blocked?
+ */
+export const isNightUnavailable = (date: string, ranges: AvailabilityRange[]): boolean =>
+  ranges.some(range => range.startDate <= date && date < range.endDate);
+
+/**
+ * 🔍 First booked/blocked range overlapping the stay, if any
+ */
+export const findConflict = (
+  checkIn: string,
+  checkOut: string,
+  ranges: AvailabilityRange[]
+): AvailabilityRange | undefined =>
+  ranges.find(range => rangesOverlap(checkIn, checkOut, range.startDate, range.endDate));
+
+/**
+ * ✅ Is the camper free for every night of the stay?
+ */
+export const isRangeAvailable = (
+  checkIn: string,
+  checkOut: string,
+  ranges: AvailabilityRange[]
+): boolean => !findConflict(checkIn, checkOut, ranges);
@@ -0,0 +1,79 @@
+import { Booking } from '../types';
+import { fromISODate } from './availability';
+import { BOOKING_STATUS_LABELS, UNLISTED_CAMPER_TITLE } from './bookingStatus';
+import { formatMoney } from './money';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (date: string) =>
+  fromISODate(date).toLocaleDateString('sk-SK', { day: 'numeric', month: 'long', year: 'numeric' });
+
+// The document is Slovak, amounts in the currency the booking was charged in
+const formatAmount = (amount: number, booking: Booking) =>
+  formatMoney(amount, booking.currency, { locale: 'sk-SK' });
+
+export const getBookingReference = (booking: Pick<Booking, 'id'>) =>
+  booking.id.slice(0, 8).toUpperCase();
+
+/**
+ * 🧾 Standalone, printable HTML confirmation of a booking
+ */
+export const buildConfirmationHtml = (booking: Booking): string => {
+  const lineItems = booking.priceBreakdown?.lineItems ?? [];
+  const rows = lineItems
+    .map(item => `<tr><td>${escapeHtml(item.label)}${item.quantity ? ` × ${item.quantity}` : ''}</td><td class="amount">${formatAmount(item.amount, booking)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="sk">
+<head>
+<meta charset="utf-8">
+<title>Potvrdenie rezervácie ${getBookingReference(booking)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 640px; margin: 40px auto; color: #111827; }
+  h1 { color: #047857; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  td { padding: 6px 0; border-bottom: 1px solid #e5e7eb; }
+  .amount { text-align: right; }
+  .total td { font-weight: bold; border-bottom: none; }
+  .muted { color: #6b7280; }
+</style>
+</head>
+<body>
+<h1>MyCamper – potvrdenie rezervácie</h1>
+<p class="muted">Číslo rezervácie: <strong>${getBookingReference(booking)}</strong> · Stav: ${BOOKING_STATUS_LABELS[booking.status]}</p>
+<h2>${escapeHtml(booking.camper?.title ?? UNLISTED_CAMPER_TITLE)}</h2>
+${booking.camper ? `<p>${escapeHtml(booking.camper.location)}</p>` : ''}
+<p>Príchod: <strong>${formatDate(booking.startDate)}</strong><br>
+Odchod: <strong>${formatDate(booking.endDate)}</strong><br>
+Počet nocí: ${booking.nights}</p>
+<p>Zákazník: ${escapeHtml(booking.customer.name)} (${escapeHtml(booking.customer.email)})${booking.camper ? `<br>
+Majiteľ: ${escapeHtml(booking.camper.owner.name)}` : ''}</p>
+<table>
+${rows}
+<tr class="total"><td>Spolu</td><td class="amount">${formatAmount(booking.totalPrice, booking)}</td></tr>
+</table>
+<p class="muted">Vystavené ${new Date().toLocaleString('sk-SK')}</p>
+</body>
+</html>`;
+};
+
+/**
+ * 📄 Download the confirmation as an HTML file (opens and prints in any browser)
+ */
+export const downloadBookingConfirmation = (booking: Booking) => {
+  const blob = new Blob([buildConfirmationHtml(booking)], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `rezervacia-${getBookingReference(booking)}.html`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
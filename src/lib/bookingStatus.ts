@@ -0,0 +1,101 @@
+import { Booking, BookingActor, BookingStatus } from '../types';
+import { toISODate } from './availability';
+
+interface BookingTransition {
+  from: BookingStatus[];
+  to: BookingStatus;
+  actors: BookingActor[];
+  // Which side of the stay the transition is allowed on
+  timing: 'beforeStart' | 'afterEnd' | 'anytime';
+}
+
+// Same rule table as booking_transition_allowed() in the database
+export const BOOKING_TRANSITIONS: BookingTransition[] = [
+  { from: ['pending'], to: 'confirmed', actors: ['owner'], timing: 'beforeStart' },
+  { from: ['pending', 'confirmed'], to: 'cancelled', actors: ['owner', 'customer'], timing: 'beforeStart' },
+  { from: ['confirmed'], to: 'completed', actors: ['system'], timing: 'afterEnd' },
+  // Unanswered requests expire, see expire_pending_bookings()
+  { from: ['pending'], to: 'cancelled', actors: ['system'], timing: 'anytime' }
+];
+
+// Hours an owner has to answer a request before it expires
+export const PENDING_BOOKING_EXPIRY_HOURS = 72;
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Čaká na potvrdenie',
+  confirmed: 'Potvrdená',
+  cancelled: 'Zrušená',
+  completed: 'Dokončená'
+};
+
+// Shown instead of the title when the camper of a booking is no longer listed
+export const UNLISTED_CAMPER_TITLE = 'Campervan už nie je v ponuke';
+
+export const BOOKING_STATUS_COLORS: Record<BookingStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-emerald-100 text-emerald-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+  completed: 'bg-blue-100 text-blue-800'
+};
+
+/**
+ * 👤 Role of a user towards a booking, null when not a party of it
+ */
+export const getBookingActor = (booking: Booking, userId: string): BookingActor | null => {
+  if (booking.camper?.owner.id === userId) return 'owner';
+  if (booking.customer.id === userId) return 'customer';
+  return null;
+};
+
+const isWithinTiming = (
+  timing: BookingTransition['timing'],
+  booking: Pick<Booking, 'startDate' | 'endDate'>,
+  today: string
+): boolean => {
+  if (timing === 'beforeStart') return today < booking.startDate;
+  if (timing === 'afterEnd') return today >= booking.endDate;
+  return true;
+};
+
+/**
+ * 🔀 Can `actor` move the booking to `to` today?
+ */
+export const canTransition = (
+  booking: Pick<Booking, 'status' | 'startDate' | 'endDate'>,
+  to: BookingStatus,
+  actor: BookingActor,
+  today: string = toISODate(new Date())
+): boolean =>
+  BOOKING_TRANSITIONS.some(transition =>
+    transition.to === to &&
+    transition.from.includes(booking.status) &&
+    transition.actors.includes(actor) &&
+    isWithinTiming(transition.timing, booking, today)
+  );
+
+/**
+ * 📋 Statuses the actor may move the booking to today
+ */
+export const getAvailableTransitions = (
+  booking: Pick<Booking, 'status' | 'startDate' | 'endDate'>,
+  actor: BookingActor,
+  today: string = toISODate(new Date())
+): BookingStatus[] =>
+  BOOKING_TRANSITIONS
+    .map(transition => transition.to)
+    .filter(to => canTransition(booking, to, actor, today));
+
+export type BookingPhase = 'upcoming' | 'inProgress' | 'past' | 'cancelled';
+
+/**
+ * 🗂️ Where a booking stands relative to today, for grouping in dashboards
+ */
+export const getBookingPhase = (
+  booking: Pick<Booking, 'status' | 'startDate' | 'endDate'>,
+  today: string = toISODate(new Date())
+): BookingPhase => {
+  if (booking.status === 'cancelled') return 'cancelled';
+  if (booking.status === 'completed' || today >= booking.endDate) return 'past';
+  if (today >= booking.startDate) return 'inProgress';
+  return 'upcoming';
+};
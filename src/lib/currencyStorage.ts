@@ -0,0 +1,59 @@
+import { Currency, CurrencyCode } from '../types';
+
+// Display currency picked by the visitor and the last rate table seen,
+// so converted prices show right away on the next visit
+const DISPLAY_CURRENCY_STORAGE_KEY = 'mycamper:displayCurrency';
+const CURRENCIES_STORAGE_KEY = 'mycamper:currencies';
+
+/**
+ * 💾 Read the display currency, null (listing currencies) when unset or corrupted
+ */
+export const loadDisplayCurrency = (): CurrencyCode | null => {
+  try {
+    const stored = localStorage.getItem(DISPLAY_CURRENCY_STORAGE_KEY);
+    return stored && /^[A-Z]{3}$/.test(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveDisplayCurrency = (currency: CurrencyCode | null) => {
+  try {
+    if (currency) {
+      localStorage.setItem(DISPLAY_CURRENCY_STORAGE_KEY, currency);
+    } else {
+      localStorage.removeItem(DISPLAY_CURRENCY_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('⚠️ CurrencyStorage: Cannot save display currency:', error);
+  }
+};
+
+const isCurrency = (value: unknown): value is Currency => {
+  const currency = value as Currency;
+  return !!currency
+    && typeof currency.code === 'string'
+    && typeof currency.minorDigits === 'number'
+    && typeof currency.ratePerEur === 'number' && currency.ratePerEur > 0
+    && typeof currency.updatedAt === 'string';
+};
+
+/**
+ * 💾 Read the cached rate table, tolerating missing or corrupted storage
+ */
+export const loadCachedCurrencies = (): Currency[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CURRENCIES_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isCurrency) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCachedCurrencies = (currencies: Currency[]) => {
+  try {
+    localStorage.setItem(CURRENCIES_STORAGE_KEY, JSON.stringify(currencies));
+  } catch (error) {
+    console.error('⚠️ CurrencyStorage: Cannot save exchange rates:', error);
+  }
+};
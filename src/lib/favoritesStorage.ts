@@ -0,0 +1,31 @@
+// Favourites of anonymous visitors, merged into the account on login
+const FAVORITES_STORAGE_KEY = 'mycamper:favorites';
+
+/**
+ * 💾 Read anonymous favourites, tolerating missing or corrupted storage
+ */
+export const loadLocalFavorites = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FAVORITES_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLocalFavorites = (camperIds: string[]) => {
+  try {
+    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(camperIds));
+  } catch (error) {
+    // Private mode or full storage, favourites just won't survive a refresh
+    console.error('⚠️ FavoritesStorage: Cannot save favorites:', error);
+  }
+};
+
+export const clearLocalFavorites = () => {
+  try {
+    localStorage.removeItem(FAVORITES_STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
@@ -0,0 +1,29 @@
+import { GeoPoint } from '../types';
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+// Radius filter choices, the database accepts any positive value
+export const RADIUS_OPTIONS_KM = [10, 25, 50, 100, 200];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * 📍 Great-circle distance in km, same haversine formula as distance_km() in the database
+ */
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * 📍 "800 m", "4.2 km", "37 km"
+ */
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.max(100, Math.round(km * 10) * 100)} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+};
@@ -0,0 +1,55 @@
+// Longest edge of an uploaded listing photo, large enough for the camper modal
+export const MAX_IMAGE_DIMENSION = 1600;
+export const IMAGE_QUALITY = 0.82;
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Cannot read image ${file.name}`));
+    };
+    image.src = url;
+  });
+
+/**
+ * 🖼️ Scale an image down to MAX_IMAGE_DIMENSION and re-encode it as JPEG
+ * Smaller images are only re-encoded, never upscaled.
+ */
+export const resizeImage = async (
+  file: File,
+  maxDimension: number = MAX_IMAGE_DIMENSION,
+  quality: number = IMAGE_QUALITY
+): Promise<Blob> => {
+  const image = await loadImage(file);
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+  // JPEG has no alpha, paint transparent PNG areas white instead of black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Cannot compress image ${file.name}`))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
@@ -0,0 +1,163 @@
+import { Camper, CurrencyCode, GeocodedPlace, PricingRules, User } from '../types';
+import { DEFAULT_PRICING } from './pricing';
+import { BASE_CURRENCY, toMinorUnits } from './money';
+
+export type ListingStep =
+  | 'basics'
+  | 'description'
+  | 'amenities'
+  | 'location'
+  | 'price'
+  | 'photos'
+  | 'review';
+
+export const LISTING_STEPS: { key: ListingStep; label: string }[] = [
+  { key: 'basics', label: 'Základné údaje' },
+  { key: 'description', label: 'Popis' },
+  { key: 'amenities', label: 'Vybavenie' },
+  { key: 'location', label: 'Lokalita' },
+  { key: 'price', label: 'Cena' },
+  { key: 'photos', label: 'Fotky' },
+  { key: 'review', label: 'Kontrola' }
+];
+
+export interface ListingDraft {
+  title: string;
+  type: Camper['type'] | '';
+  capacity: number;
+  description: string;
+  amenities: string[]; // catalogue keys
+  location: string;
+  place: GeocodedPlace | null; // geocoded location, cleared when the location is edited
+  // Amounts as the owner types them (whole units with decimals), see draftPrices()
+  price: number;
+  currency: CurrencyCode;
+  pricing: PricingRules;
+  images: string[];
+}
+
+export type ListingErrors = Partial<Record<keyof ListingDraft, string>>;
+
+export const TITLE_MIN_LENGTH = 3;
+export const TITLE_MAX_LENGTH = 120;
+export const DESCRIPTION_MIN_LENGTH = 50;
+export const MAX_IMAGES = 12;
+
+export const createEmptyDraft = (): ListingDraft => ({
+  title: '',
+  type: '',
+  capacity: 2,
+  description: '',
+  amenities: [],
+  location: '',
+  place: null,
+  price: 0,
+  currency: BASE_CURRENCY,
+  pricing: { ...DEFAULT_PRICING, seasonalRates: [] },
+  images: []
+});
+
+const isPercent = (value: number) => value >= 0 && value <= 100;
+
+/**
+ * ✅ Validate one wizard step, returns field errors (empty when valid).
+ * Title length mirrors the CHECK constraint of the campers table.
+ */
+export const validateListingStep = (step: ListingStep, draft: ListingDraft): ListingErrors => {
+  const errors: ListingErrors = {};
+
+  switch (step) {
+    case 'basics': {
+      const title = draft.title.trim();
+      if (title.length < TITLE_MIN_LENGTH || title.length > TITLE_MAX_LENGTH) {
+        errors.title = `Názov musí mať ${TITLE_MIN_LENGTH} až ${TITLE_MAX_LENGTH} znakov`;
+      }
+      if (!draft.type) {
+        errors.type = 'Vyberte typ vozidla';
+      }
+      if (!Number.isInteger(draft.capacity) || draft.capacity < 1 || draft.capacity > 12) {
+        errors.capacity = 'Počet miest na spanie musí byť 1 až 12';
+      }
+      break;
+    }
+    case 'description':
+      if (draft.description.trim().length < DESCRIPTION_MIN_LENGTH) {
+        errors.description = `Popis musí mať aspoň ${DESCRIPTION_MIN_LENGTH} znakov`;
+      }
+      break;
+    case 'location':
+      if (draft.location.trim().length < 2) {
+        errors.location = 'Zadajte mesto alebo región';
+      } else if (!draft.place) {
+        errors.location = 'Adresu sa nepodarilo nájsť na mape, skúste ju upresniť';
+      }
+      break;
+    case 'price': {
+      const { pricing } = draft;
+      if (!(draft.price > 0)) {
+        errors.price = 'Cena za noc musí byť väčšia ako 0';
+      }
+      if (
+        pricing.cleaningFee < 0 ||
+        !isPercent(pricing.weekendSurchargePercent) ||
+        !isPercent(pricing.weeklyDiscountPercent) ||
+        !isPercent(pricing.monthlyDiscountPercent) ||
+        pricing.seasonalRates.some(season => !(season.price > 0))
+      ) {
+        errors.pricing = 'Skontrolujte poplatky, príplatky a zľavy';
+      }
+      break;
+    }
+    case 'photos':
+      if (draft.images.length === 0) {
+        errors.images = 'Pridajte aspoň jednu fotku';
+      } else if (draft.images.length > MAX_IMAGES) {
+        errors.images = `Maximálne ${MAX_IMAGES} fotiek`;
+      }
+      break;
+    case 'review':
+      // Publishing re-validates every step
+      LISTING_STEPS
+        .filter(({ key }) => key !== 'review')
+        .forEach(({ key }) => Object.assign(errors, validateListingStep(key, draft)));
+      break;
+  }
+
+  return errors;
+};
+
+/**
+ * 💶 Nightly price and pricing rules of the draft in minor units, as stored
+ */
+export const draftPrices = ({ price, currency, pricing }: ListingDraft): Pick<Camper, 'price' | 'pricing'> => ({
+  price: toMinorUnits(price, currency),
+  pricing: {
+    ...pricing,
+    cleaningFee: toMinorUnits(pricing.cleaningFee, currency),
+    seasonalRates: pricing.seasonalRates.map(season => ({ ...season, price: toMinorUnits(season.price, currency) }))
+  }
+});
+
+/**
+ * 👀 Build a Camper from the draft so it can be previewed with CamperCard
+ */
+export const draftToCamper = (draft: ListingDraft, owner: User): Camper => ({
+  id: 'preview',
+  title: draft.title.trim() || 'Váš campervan',
+  description: draft.description.trim(),
+  images: draft.images,
+  ...draftPrices(draft),
+  currency: draft.currency,
+  // Only exact for euro listings, the preview is never sorted
+  basePrice: draft.price,
+  location: draft.location.trim(),
+  coordinates: draft.place?.coordinates ?? null,
+  capacity: draft.capacity,
+  amenities: draft.amenities,
+  type: draft.type || 'van',
+  owner,
+  rating: 0,
+  reviewCount: 0,
+  availability: [],
+  createdAt: new Date().toISOString()
+});
@@ -0,0 +1,96 @@
+import { Currency, CurrencyCode } from '../types';
+
+// Scale of the price filter, the price sorts and the rate table
+export const BASE_CURRENCY: CurrencyCode = 'EUR';
+
+// Currencies an owner can list in, all of them rows of the currency table
+export const LISTING_CURRENCIES: CurrencyCode[] = ['EUR', 'CZK', 'PLN', 'HUF', 'CHF', 'GBP', 'USD'];
+
+// Units of each currency for one euro
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+// Number format of the visitor's browser, Slovak when it is not known
+export const USER_LOCALE = (typeof navigator !== 'undefined' && navigator.language) || 'sk-SK';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const formatterFor = (locale: string, currency: CurrencyCode, fractionDigits: number) => {
+  const key = `${locale}|${currency}|${fractionDigits}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+// Minor unit digits per code from currencies.minor_digits, the digits base_price()
+// and the database round with; 2, the column default, until the table is loaded
+const DEFAULT_MINOR_DIGITS = 2;
+const minorDigitsByCode = new Map<CurrencyCode, number>();
+
+/**
+ * 🔢 Take the minor unit digits from the loaded currency table
+ */
+export const setCurrencyTable = (currencies: Currency[]) => {
+  currencies.forEach(currency => minorDigitsByCode.set(currency.code, currency.minorDigits));
+};
+
+/**
+ * 🔢 Digits of the currency's minor unit (2 for cents, 0 for yen)
+ */
+export const minorDigitsOf = (currency: CurrencyCode): number =>
+  minorDigitsByCode.get(currency) ?? DEFAULT_MINOR_DIGITS;
+
+export const toMinorUnits = (amount: number, currency: CurrencyCode): number =>
+  Math.round(amount * 10 ** minorDigitsOf(currency));
+
+export const fromMinorUnits = (amount: number, currency: CurrencyCode): number =>
+  amount / 10 ** minorDigitsOf(currency);
+
+/**
+ * 💶 Minor units as money in the user's locale, e.g. 12050 EUR → "120,50 €"
+ * Whole amounts are shown without decimals, `wholeUnits` rounds them away.
+ */
+export const formatMoney = (
+  amount: number,
+  currency: CurrencyCode,
+  { locale = USER_LOCALE, wholeUnits = false }: { locale?: string; wholeUnits?: boolean } = {}
+): string => {
+  const major = fromMinorUnits(amount, currency);
+  const value = wholeUnits ? Math.round(major) : major;
+  const fractionDigits = Number.isInteger(value) ? 0 : minorDigitsOf(currency);
+
+  try {
+    return formatterFor(locale, currency, fractionDigits).format(value);
+  } catch {
+    // Unknown locale or currency code
+    return `${value.toFixed(fractionDigits)} ${currency}`;
+  }
+};
+
+/**
+ * 🧮 Rate table keyed by currency code
+ */
+export const toExchangeRates = (currencies: Currency[]): ExchangeRates =>
+  Object.fromEntries(currencies.map(currency => [currency.code, currency.ratePerEur]));
+
+/**
+ * 💱 Convert minor units through the euro, null when a rate is missing
+ */
+export const convertMoney = (
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: ExchangeRates
+): number | null => {
+  if (from === to) return amount;
+  const [fromRate, toRate] = [rates[from], rates[to]];
+  if (!fromRate || !toRate) return null;
+  return toMinorUnits((fromMinorUnits(amount, from) / fromRate) * toRate, to);
+};
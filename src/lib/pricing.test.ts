@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { Camper, PricingRules } from '../types';
+import { DEFAULT_PRICING, calculateQuote, enumerateNights, findSeason, isWeekendNight } from './pricing';
+
+const HIGH_SEASON = { name: 'High season', startDate: '07-01', endDate: '08-31', price: 15000 };
+const WINTER = { name: 'Winter holidays', startDate: '12-20', endDate: '01-06', price: 12000 };
+
+const camperWith = (pricing: Partial<PricingRules> = {}, price = 10000): Pick<Camper, 'price' | 'pricing' | 'currency'> => ({
+  price,
+  pricing: { ...DEFAULT_PRICING, ...pricing },
+  currency: 'EUR'
+});
+
+describe('enumerateNights', () => {
+  it('excludes the check-out day', () => {
+    expect(enumerateNights('2025-07-07', '2025-07-09')).toEqual(['2025-07-07', '2025-07-08']);
+  });
+
+  it('counts every night across a DST change', () => {
+    expect(enumerateNights('2025-03-29', '2025-03-31')).toEqual(['2025-03-29', '2025-03-30']);
+  });
+
+  it('returns no nights for missing or reversed dates', () => {
+    expect(enumerateNights('', '2025-07-09')).toEqual([]);
+    expect(enumerateNights('2025-07-09', '2025-07-09')).toEqual([]);
+    expect(enumerateNights('2025-07-10', '2025-07-09')).toEqual([]);
+  });
+});
+
+describe('findSeason', () => {
+  it('includes both bounds of a season', () => {
+    expect(findSeason('2025-07-01', [HIGH_SEASON])).toBe(HIGH_SEASON);
+    expect(findSeason('2025-08-31', [HIGH_SEASON])).toBe(HIGH_SEASON);
+  });
+
+  it('excludes the days around a season', () => {
+    expect(findSeason('2025-06-30', [HIGH_SEASON])).toBeUndefined();
+    expect(findSeason('2025-09-01', [HIGH_SEASON])).toBeUndefined();
+  });
+
+  it('matches a season that wraps over new year on both sides', () => {
+    expect(findSeason('2025-12-20', [WINTER])).toBe(WINTER);
+    expect(findSeason('2025-12-31', [WINTER])).toBe(WINTER);
+    expect(findSeason('2026-01-01', [WINTER])).toBe(WINTER);
+    expect(findSeason('2026-01-06', [WINTER])).toBe(WINTER);
+    expect(findSeason('2025-12-19', [WINTER])).toBeUndefined();
+    expect(findSeason('2026-01-07', [WINTER])).toBeUndefined();
+  });
+
+  it('picks the first listed season when seasons overlap', () => {
+    const august = { name: 'August', startDate: '08-01', endDate: '08-31', price: 18000 };
+    expect(findSeason('2025-08-15', [august, HIGH_SEASON])).toBe(august);
+  });
+});
+
+describe('isWeekendNight', () => {
+  it('treats Friday and Saturday nights as weekend', () => {
+    expect(isWeekendNight('2025-07-03')).toBe(false); // Thursday
+    expect(isWeekendNight('2025-07-04')).toBe(true); // Friday
+    expect(isWeekendNight('2025-07-05')).toBe(true); // Saturday
+    expect(isWeekendNight('2025-07-06')).toBe(false); // Sunday
+  });
+});
+
+describe('calculateQuote', () => {
+  it('returns null without at least one night', () => {
+    expect(calculateQuote(camperWith(), '2025-07-07', '2025-07-07')).toBeNull();
+  });
+
+  it('switches to the seasonal rate on the first day of the season', () => {
+    // Sunday, Monday before the season, Tuesday 07-01 in it
+    const quote = calculateQuote(camperWith({ seasonalRates: [HIGH_SEASON] }), '2025-06-29', '2025-07-02');
+
+    expect(quote?.lineItems.filter(item => item.kind === 'nights')).toEqual([
+      { kind: 'nights', label: 'Nightly rate', quantity: 2, unitPrice: 10000, amount: 20000 },
+      { kind: 'nights', label: 'High season', quantity: 1, unitPrice: 15000, amount: 15000 }
+    ]);
+    expect(quote?.subtotal).toBe(35000);
+  });
+
+  it('charges the seasonal rate on the last day of the season only', () => {
+    // Sunday 08-31 in the season, Monday 09-01 after it
+    const quote = calculateQuote(camperWith({ seasonalRates: [HIGH_SEASON] }), '2025-08-31', '2025-09-02');
+
+    expect(quote?.subtotal).toBe(25000);
+  });
+
+  it('applies a season that wraps over new year to every night of the stay', () => {
+    const quote = calculateQuote(camperWith({ seasonalRates: [WINTER] }), '2025-12-30', '2026-01-02');
+
+    expect(quote?.lineItems[0]).toMatchObject({ label: 'Winter holidays', quantity: 3, amount: 36000 });
+    expect(quote?.subtotal).toBe(36000);
+  });
+
+  it('adds the weekend surcharge to Friday and Saturday nights', () => {
+    // Thursday, Friday, Saturday
+    const quote = calculateQuote(camperWith({ weekendSurchargePercent: 20 }), '2025-07-03', '2025-07-06');
+
+    expect(quote?.lineItems.filter(item => item.kind === 'nights')).toEqual([
+      { kind: 'nights', label: 'Nightly rate', quantity: 1, unitPrice: 10000, amount: 10000 },
+      { kind: 'nights', label: 'Weekend rate', quantity: 2, unitPrice: 12000, amount: 24000 }
+    ]);
+  });
+
+  it('surcharges weekend nights inside a season on top of the seasonal rate', () => {
+    const quote = calculateQuote(
+      camperWith({ seasonalRates: [HIGH_SEASON], weekendSurchargePercent: 20 }),
+      '2025-07-04',
+      '2025-07-05'
+    );
+
+    expect(quote?.lineItems[0]).toMatchObject({ label: 'High season, weekend', unitPrice: 18000 });
+  });
+
+  describe('length-of-stay discounts', () => {
+    const rules = { weeklyDiscountPercent: 10, monthlyDiscountPercent: 25 };
+    const discountOf = (checkOut: string) =>
+      calculateQuote(camperWith(rules), '2025-09-01', checkOut)?.lineItems.find(item => item.kind === 'discount');
+
+    it('gives no discount below 7 nights', () => {
+      expect(discountOf('2025-09-07')).toBeUndefined();
+    });
+
+    it('gives the weekly discount from 7 nights', () => {
+      expect(discountOf('2025-09-08')).toEqual({ kind: 'discount', label: 'Weekly discount (10%)', amount: -7000 });
+    });
+
+    it('keeps the weekly discount at 27 nights', () => {
+      expect(discountOf('2025-09-28')?.label).toBe('Weekly discount (10%)');
+    });
+
+    it('replaces the weekly discount with the monthly one from 28 nights', () => {
+      expect(discountOf('2025-09-29')).toEqual({ kind: 'discount', label: 'Monthly discount (25%)', amount: -70000 });
+    });
+
+    it('falls back to the weekly discount when there is no monthly one', () => {
+      const quote = calculateQuote(camperWith({ weeklyDiscountPercent: 10 }), '2025-09-01', '2025-09-29');
+      expect(quote?.lineItems.find(item => item.kind === 'discount')?.label).toBe('Weekly discount (10%)');
+    });
+  });
+
+  describe('rounding in minor units', () => {
+    it('rounds a half-cent weekend rate up', () => {
+      // 1010 × 1.15 = 1161.5
+      const quote = calculateQuote(camperWith({ weekendSurchargePercent: 15 }, 1010), '2025-07-04', '2025-07-05');
+      expect(quote?.lineItems[0].unitPrice).toBe(1162);
+    });
+
+    it('rounds a half-cent discount and service fee up', () => {
+      // 7 × 1010 = 7070, 5 % = 353.5; service fee 10 % of 6716 = 671.6
+      const quote = calculateQuote(camperWith({ weeklyDiscountPercent: 5 }, 1010), '2025-09-01', '2025-09-08');
+
+      expect(quote).toMatchObject({ subtotal: 6716, fees: 672, total: 7388 });
+    });
+
+    it('keeps every amount a whole number that adds up to the total', () => {
+      const quote = calculateQuote(
+        camperWith({ seasonalRates: [HIGH_SEASON], weekendSurchargePercent: 12.5, weeklyDiscountPercent: 7, cleaningFee: 4999 }, 9999),
+        '2025-06-27',
+        '2025-07-06'
+      );
+      if (!quote) throw new Error('Expected a quote');
+
+      quote.lineItems.forEach(item => expect(Number.isInteger(item.amount)).toBe(true));
+      expect(quote.lineItems.reduce((sum, item) => sum + item.amount, 0)).toBe(quote.total);
+      expect(quote.subtotal + quote.fees).toBe(quote.total);
+      expect(quote.currency).toBe('EUR');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { Camper, PriceLineItem, PriceQuote, PricingRules, SeasonalRate } from '../types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const PLATFORM_SERVICE_FEE_PERCENT = 10;
+export const WEEKLY_DISCOUNT_MIN_NIGHTS = 7;
+export const MONTHLY_DISCOUNT_MIN_NIGHTS = 28;
+
+export const DEFAULT_PRICING: PricingRules = {
+  seasonalRates: [],
+  weekendSurchargePercent: 0,
+  weeklyDiscountPercent: 0,
+  monthlyDiscountPercent: 0,
+  cleaningFee: 0
+};
+
+// Suggested high season for new listings (July and August)
+export const HIGH_SEASON_TEMPLATE: Omit<SeasonalRate, 'price'> = {
+  name: 'High season',
+  startDate: '07-01',
+  endDate: '08-31'
+};
+
+// Amounts are integer minor units, every step rounds back to whole cents
+const roundMoney = (amount: number) => Math.round(amount);
+
+// Multiply before dividing so halves stay exact and round like the database does
+const percentOf = (amount: number, percent: number) => amount * percent / 100;
+
+/**
+ * 🌙 Every night of the stay as YYYY-MM-DD, check-out day excluded
+ */
+export const enumerateNights = (checkIn: string, checkOut: string): string[] => {
+  if (!checkIn || !checkOut) return [];
+
+  const nights: string[] = [];
+  // Work in UTC so DST changes never skip or repeat a night
+  const end = Date.parse(`${checkOut}T00:00:00Z`);
+  for (let time = Date.parse(`${checkIn}T00:00:00Z`); time < end; time += MS_PER_DAY) {
+    nights.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return nights;
+};
+
+/**
+ * ☀️ Season covering the night, if any. Bounds are inclusive MM-DD and a
+ * season may wrap over new year (e.g. 12-20 → 01-06).
+ */
+export const findSeason = (night: string, seasons: SeasonalRate[]): SeasonalRate | undefined => {
+  const monthDay = night.slice(5);
+  return seasons.find(season =>
+    season.startDate <= season.endDate
+      ? monthDay >= season.startDate && monthDay <= season.endDate
+      : monthDay >= season.startDate || monthDay <= season.endDate
+  );
+};
+
+/**
+ * 📆 Friday and Saturday nights carry the weekend surcharge
+ */
+export const isWeekendNight = (night: string): boolean => {
+  const weekday = new Date(`${night}T00:00:00Z`).getUTCDay();
+  return weekday === 5 || weekday === 6;
+};
+
+/**
+ * 💶 Itemised quote for a stay: nightly rates grouped by season/weekend,
+ * length-of-stay discount, cleaning fee and platform service fee, all in
+ * minor units of the camper currency. Mirrored by camper_trip_total() in the
+ * database, which checks the total of every new booking.
+ * Returns null when the dates do not form at least one night.
+ */
+export const calculateQuote = (
+  camper: Pick<Camper, 'price' | 'pricing' | 'currency'>,
+  checkIn: string,
+  checkOut: string
+): PriceQuote | null => {
+  const nights = enumerateNights(checkIn, checkOut);
+  if (nights.length === 0) return null;
+
+  const rules: PricingRules = { ...DEFAULT_PRICING, ...camper.pricing };
+
+  // Group nights with the same rate into one line item, in stay order
+  const groups = new Map<string, PriceLineItem>();
+  nights.forEach(night => {
+    const season = findSeason(night, rules.seasonalRates);
+    const weekend = isWeekendNight(night) && rules.weekendSurchargePercent > 0;
+    const baseRate = season ? season.price : camper.price;
+    const rate = roundMoney(weekend ? percentOf(baseRate, 100 + rules.weekendSurchargePercent) : baseRate);
+
+    const key = `${season?.name ?? ''}|${weekend}|${rate}`;
+    const group = groups.get(key);
+    if (group) {
+      group.quantity = (group.quantity ?? 0) + 1;
+      group.amount = roundMoney(group.amount + rate);
+    } else {
+      const label = season
+        ? `${season.name}${weekend ? ', weekend' : ''}`
+        : weekend ? 'Weekend rate' : 'Nightly rate';
+      groups.set(key, {
+        kind: 'nights',
+        label,
+        quantity: 1,
+        unitPrice: rate,
+        amount: rate
+      });
+    }
+  });
+
+  const lineItems: PriceLineItem[] = Array.from(groups.values());
+  const nightsTotal = roundMoney(lineItems.reduce((sum, item) => sum + item.amount, 0));
+
+  // Longest applicable length-of-stay discount wins, they never stack
+  let discountPercent = 0;
+  let discountLabel = '';
+  if (nights.length >= MONTHLY_DISCOUNT_MIN_NIGHTS && rules.monthlyDiscountPercent > 0) {
+    discountPercent = rules.monthlyDiscountPercent;
+    discountLabel = 'Monthly discount';
+  } else if (nights.length >= WEEKLY_DISCOUNT_MIN_NIGHTS && rules.weeklyDiscountPercent > 0) {
+    discountPercent = rules.weeklyDiscountPercent;
+    discountLabel = 'Weekly discount';
+  }
+
+  const discount = roundMoney(percentOf(nightsTotal, discountPercent));
+  if (discount > 0) {
+    lineItems.push({ kind: 'discount', label: `${discountLabel} (${discountPercent}%)`, amount: -discount });
+  }
+
+  const subtotal = roundMoney(nightsTotal - discount);
+
+  const cleaningFee = roundMoney(rules.cleaningFee);
+  if (cleaningFee > 0) {
+    lineItems.push({ kind: 'cleaning', label: 'Cleaning fee', amount: cleaningFee });
+  }
+
+  const serviceFee = roundMoney(percentOf(subtotal + cleaningFee, PLATFORM_SERVICE_FEE_PERCENT));
+  lineItems.push({ kind: 'service', label: 'Service fee', amount: serviceFee });
+
+  const fees = roundMoney(cleaningFee + serviceFee);
+
+  return {
+    nights: nights.length,
+    lineItems,
+    subtotal,
+    fees,
+    total: roundMoney(subtotal + fees),
+    currency: camper.currency
+  };
+};
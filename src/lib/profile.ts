@@ -0,0 +1,73 @@
+import { PreferredLanguage, ProfileUpdate } from '../types';
+
+export const PREFERRED_LANGUAGES: { value: PreferredLanguage; label: string }[] = [
+  { value: 'sk', label: 'Slovenčina' },
+  { value: 'cs', label: 'Čeština' },
+  { value: 'en', label: 'English' },
+  { value: 'de', label: 'Deutsch' }
+];
+
+// Site language, used when neither the profile nor the browser names a supported one
+export const DEFAULT_LANGUAGE: PreferredLanguage = 'sk';
+
+/**
+ * 🌐 Language for translated content: the signed-in user's preference, else
+ * the first supported browser language, else the site language
+ */
+export const resolveLanguage = (
+  preferred: PreferredLanguage | undefined,
+  browserLanguages: readonly string[] = typeof navigator === 'undefined' ? [] : navigator.languages
+): PreferredLanguage => {
+  if (preferred) return preferred;
+
+  const supported = browserLanguages
+    .map(tag => tag.slice(0, 2).toLowerCase())
+    .find(code => PREFERRED_LANGUAGES.some(language => language.value === code));
+  return (supported as PreferredLanguage | undefined) ?? DEFAULT_LANGUAGE;
+};
+
+export const NAME_MIN_LENGTH = 2;
+export const NAME_MAX_LENGTH = 80;
+export const BIO_MAX_LENGTH = 500;
+// Longest edge of an uploaded avatar
+export const AVATAR_DIMENSION = 400;
+
+const PHONE_PATTERN = /^\+?[0-9][0-9 ]{5,19}$/;
+
+export type ProfileErrors = Partial<Record<keyof ProfileUpdate, string>>;
+
+// Messages for the CHECK constraints of users and user_contacts, by constraint name
+export const PROFILE_CONSTRAINT_MESSAGES: Record<string, string> = {
+  users_name_length: `Meno musí mať ${NAME_MIN_LENGTH} až ${NAME_MAX_LENGTH} znakov`,
+  user_contacts_phone_format: 'Telefónne číslo môže obsahovať len číslice, medzery a úvodné +',
+  users_bio_length: `O mne môže mať najviac ${BIO_MAX_LENGTH} znakov`,
+  users_avatar_url: 'Profilová fotka musí byť https adresa',
+  users_preferred_language: 'Vyberte jazyk zo zoznamu'
+};
+
+/**
+ * ✅ Validate a profile update, returns field errors (empty when valid).
+ * Rules mirror the CHECK constraints of the users table.
+ */
+export const validateProfile = (update: ProfileUpdate): ProfileErrors => {
+  const errors: ProfileErrors = {};
+
+  const name = update.name.trim();
+  if (name.length < NAME_MIN_LENGTH || name.length > NAME_MAX_LENGTH) {
+    errors.name = PROFILE_CONSTRAINT_MESSAGES.users_name_length;
+  }
+  if (update.phone && !PHONE_PATTERN.test(update.phone.trim())) {
+    errors.phone = PROFILE_CONSTRAINT_MESSAGES.user_contacts_phone_format;
+  }
+  if (update.bio && update.bio.trim().length > BIO_MAX_LENGTH) {
+    errors.bio = PROFILE_CONSTRAINT_MESSAGES.users_bio_length;
+  }
+  if (update.avatar && !update.avatar.startsWith('https://')) {
+    errors.avatar = PROFILE_CONSTRAINT_MESSAGES.users_avatar_url;
+  }
+  if (!PREFERRED_LANGUAGES.some(language => language.value === update.preferredLanguage)) {
+    errors.preferredLanguage = PROFILE_CONSTRAINT_MESSAGES.users_preferred_language;
+  }
+
+  return errors;
+};
@@ -0,0 +1,21 @@
+import { Location } from 'react-router-dom';
+
+// Every page of the app, also the targets of the Header menu
+export const ROUTES = {
+  home: '/',
+  camper: '/campers/:id',
+  favorites: '/favorites',
+  bookings: '/bookings',
+  messages: '/messages',
+  owner: '/owner',
+  profile: '/profile',
+  admin: '/admin',
+  authCallback: '/auth/callback'
+} as const;
+
+export const camperPath = (camperId: string) => `/campers/${camperId}`;
+
+// Router state of a camper link: the page the modal opens over
+export interface CamperLinkState {
+  backgroundLocation?: Location;
+}
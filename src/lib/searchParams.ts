@@ -0,0 +1,134 @@
+import { Camper, FilterOptions, PriceBasis } from '../types';
+import { fromISODate, toISODate } from './availability';
+import { DEFAULT_SORT, SortOption, isSortOption } from './sorting';
+import { RADIUS_OPTIONS_KM } from './geo';
+import { isAmenityKey } from './amenities';
+
+export const MAX_QUERY_LENGTH = 100;
+const MAX_CAPACITY = 12;
+// Sanity cap for prices in links, the real bounds come from the catalogue
+const MAX_PRICE = 1000000;
+
+export const DEFAULT_FILTERS: FilterOptions = {
+  priceRange: [null, null],
+  priceBasis: 'night',
+  capacity: 0,
+  type: '',
+  amenities: [],
+  startDate: '',
+  endDate: '',
+  radiusKm: 0
+};
+
+const CAMPER_TYPES: Camper['type'][] = ['motorhome', 'trailer', 'van', 'popup'];
+
+// Short, human-readable names so shared links stay tidy
+const PARAM = {
+  query: 'q',
+  minPrice: 'min',
+  maxPrice: 'max',
+  priceBasis: 'price',
+  capacity: 'guests',
+  type: 'type',
+  amenities: 'features', // name kept so links shared before the catalogue still work
+  startDate: 'from',
+  endDate: 'to',
+  radius: 'km',
+  sort: 'sort'
+} as const;
+
+export interface SearchState {
+  searchQuery: string;
+  filters: FilterOptions;
+  sortBy: SortOption;
+}
+
+const parseInteger = (value: string | null, min: number, max: number): number | null => {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  const number = Number(value);
+  return number >= min && number <= max ? number : null;
+};
+
+// Real calendar dates only: 2025-02-30 does not survive the round trip
+const parseDate = (value: string | null): string | null =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) && toISODate(fromISODate(value)) === value ? value : null;
+
+/**
+ * 🔎 Read the search state from a URL query string
+ * Malformed or out-of-range values fall back to their defaults one by one,
+ * so a half-broken link still restores everything it can.
+ */
+export const parseSearchParams = (params: URLSearchParams): SearchState => {
+  const searchQuery = (params.get(PARAM.query) ?? '').trim().slice(0, MAX_QUERY_LENGTH);
+
+  let minPrice = parseInteger(params.get(PARAM.minPrice), 0, MAX_PRICE);
+  let maxPrice = parseInteger(params.get(PARAM.maxPrice), 0, MAX_PRICE);
+  if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+    [minPrice, maxPrice] = [maxPrice, minPrice];
+  }
+
+  const type = params.get(PARAM.type);
+  // The catalogue lives in the database, so keys are only checked for their shape here
+  const amenities = (params.get(PARAM.amenities) ?? '')
+    .split(',')
+    .filter((amenity, index, all) => isAmenityKey(amenity) && all.indexOf(amenity) === index);
+
+  // Dates only make sense as a pair of a stay that has not ended yet
+  let startDate = parseDate(params.get(PARAM.startDate)) ?? '';
+  let endDate = parseDate(params.get(PARAM.endDate)) ?? '';
+  if (!startDate || !endDate || startDate >= endDate || endDate <= toISODate(new Date())) {
+    startDate = '';
+    endDate = '';
+  }
+
+  // The trip total needs the stay, without dates the filter is by night
+  const priceBasis: PriceBasis = params.get(PARAM.priceBasis) === 'trip' && startDate ? 'trip' : 'night';
+
+  const radius = parseInteger(params.get(PARAM.radius), 1, Math.max(...RADIUS_OPTIONS_KM));
+  const sort = params.get(PARAM.sort);
+
+  return {
+    searchQuery,
+    sortBy: sort && isSortOption(sort) ? sort : DEFAULT_SORT,
+    filters: {
+      priceRange: [minPrice, maxPrice],
+      priceBasis,
+      capacity: parseInteger(params.get(PARAM.capacity), 0, MAX_CAPACITY) ?? DEFAULT_FILTERS.capacity,
+      type: type && CAMPER_TYPES.includes(type as Camper['type']) ? type : DEFAULT_FILTERS.type,
+      amenities,
+      startDate,
+      endDate,
+      radiusKm: radius !== null && RADIUS_OPTIONS_KM.includes(radius) ? radius : DEFAULT_FILTERS.radiusKm
+    }
+  };
+};
+
+/**
+ * 🔗 Write the search state as a URL query string, defaults are left out
+ * Amenities are sorted so the same search always gives the same link.
+ */
+export const toSearchParams = ({ searchQuery, filters, sortBy }: SearchState): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (searchQuery.trim()) params.set(PARAM.query, searchQuery.trim());
+  if (filters.priceRange[0] !== null) params.set(PARAM.minPrice, String(filters.priceRange[0]));
+  if (filters.priceRange[1] !== null) params.set(PARAM.maxPrice, String(filters.priceRange[1]));
+  if (filters.capacity > 0) params.set(PARAM.capacity, String(filters.capacity));
+  if (filters.type) params.set(PARAM.type, filters.type);
+  if (filters.amenities.length > 0) params.set(PARAM.amenities, [...filters.amenities].sort().join(','));
+  if (filters.startDate && filters.endDate) {
+    params.set(PARAM.startDate, filters.startDate);
+    params.set(PARAM.endDate, filters.endDate);
+    if (filters.priceBasis === 'trip') params.set(PARAM.priceBasis, filters.priceBasis);
+  }
+  if (filters.radiusKm > 0) params.set(PARAM.radius, String(filters.radiusKm));
+  if (sortBy !== DEFAULT_SORT) params.set(PARAM.sort, sortBy);
+
+  return params;
+};
+
+/**
+ * 🔗 Query string of a search, commas of the amenity list kept readable
+ */
+export const toSearchString = (state: SearchState): string =>
+  toSearchParams(state).toString().replace(/%2C/g, ',');
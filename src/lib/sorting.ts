@@ -0,0 +1,27 @@
+// Results are ordered by camper_sort_key() in the database, pages included
+export type SortOption =
+  | 'relevance'
+  | 'newest'
+  | 'priceAsc'
+  | 'priceDesc'
+  | 'rating'
+  | 'reviewCount'
+  | 'capacity'
+  | 'distance';
+
+// Best text matches first; without search text this is the same as newest
+export const DEFAULT_SORT: SortOption = 'relevance';
+
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'relevance', label: 'Odporúčané' },
+  { value: 'newest', label: 'Najnovšie' },
+  { value: 'priceAsc', label: 'Cena: od najnižšej' },
+  { value: 'priceDesc', label: 'Cena: od najvyššej' },
+  { value: 'rating', label: 'Najlepšie hodnotené' },
+  { value: 'reviewCount', label: 'Najviac recenzií' },
+  { value: 'capacity', label: 'Najviac miest na spanie' },
+  { value: 'distance', label: 'Najbližšie' }
+];
+
+export const isSortOption = (value: string): value is SortOption =>
+  SORT_OPTIONS.some(option => option.value === value);
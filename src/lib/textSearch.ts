@@ -0,0 +1,56 @@
+// Same word rules as search_tokens() and the search_vector column in the database:
+// accents and case are folded, words are runs of letters and digits, a query word
+// matches the words it starts. Only used to highlight matches, results are ranked
+// by camper_search_rank() alone.
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * 🔤 Lower case without accents ("Košice" → "kosice"), like lower(unaccent()) in Postgres
+ */
+export const foldText = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * 🔤 Distinct folded words of a search query
+ */
+export const tokenizeQuery = (query: string): string[] =>
+  [...new Set(foldText(query).match(WORD) ?? [])];
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * 🖍️ Split a text into plain and matched parts, original accents kept
+ * A word matches when it starts with a query word; only that prefix is marked.
+ */
+export const highlightTerms = (text: string, tokens: string[]): TextSegment[] => {
+  if (tokens.length === 0) return [{ text, match: false }];
+
+  const segments: TextSegment[] = [];
+  let plainStart = 0;
+
+  for (const { 0: word, index } of text.matchAll(WORD)) {
+    const folded = foldText(word);
+    const token = tokens
+      .filter(candidate => folded.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!token || index === undefined) continue;
+
+    // Folding keeps one letter per letter for Latin scripts, otherwise mark the whole word
+    const length = folded.length === word.length ? token.length : word.length;
+
+    if (index > plainStart) {
+      segments.push({ text: text.slice(plainStart, index), match: false });
+    }
+    segments.push({ text: text.slice(index, index + length), match: true });
+    plainStart = index + length;
+  }
+
+  if (plainStart < text.length) {
+    segments.push({ text: text.slice(plainStart), match: false });
+  }
+
+  return segments;
+};
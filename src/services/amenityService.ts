@@ -0,0 +1,53 @@
+import { supabase } from '../lib/supabase';
+import { Amenity } from '../types';
+import { sortAmenities } from '../lib/amenities';
+
+interface AmenityRow {
+  key: string;
+  labels: Record<string, string>;
+  icon: string;
+  category: Amenity['category'];
+  sort_order: number;
+}
+
+/**
+ * 🧰 Get the amenity catalogue in display order
+ */
+export const getAmenities = async (): Promise<{ amenities: Amenity[]; error: string | null }> => {
+  console.log('🧰 AmenityService: Fetching amenity catalogue');
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('amenities')
+      .select('key, labels, icon, category, sort_order');
+
+    if (dbError) {
+      console.error('❌ AmenityService: Database error:', dbError);
+      return {
+        amenities: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const amenities = sortAmenities(((data || []) as AmenityRow[]).map(row => ({
+      key: row.key,
+      labels: row.labels,
+      icon: row.icon,
+      category: row.category,
+      sortOrder: row.sort_order
+    })));
+    console.log(`✅ AmenityService: Loaded ${amenities.length} amenities`);
+
+    return {
+      amenities,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ AmenityService: Critical error:', error);
+    return {
+      amenities: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
@@ -0,0 +1,344 @@
+import { supabase } from '../lib/supabase';
+import { Booking, BookingActor, BookingStatus, BookingStatusChange, Camper, PriceQuote, User } from '../types';
+import { CAMPER_COLUMNS, CamperRow, UserRow, mapCamperRow, mapUserRow } from './camperService';
+import { canTransition } from '../lib/bookingStatus';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface BookingServiceResult {
+  booking: Booking | null;
+  error: string | null;
+}
+
+// Booking columns with the camper (and its owner) and customer joined. The camper
+// is a left join: RLS hides unpublished campers from customers, their bookings stay
+const bookingColumns = (camperJoin: 'campers' | 'campers!inner') => `
+  id, start_date, end_date, total_price, currency, price_breakdown, status, created_at,
+  camper:${camperJoin} (${CAMPER_COLUMNS}),
+  customer:users!bookings_customer_id_fkey (id, name, email, role, avatar, rating, review_count)
+`;
+
+const BOOKING_COLUMNS = bookingColumns('campers');
+
+interface BookingRow {
+  id: string;
+  start_date: string;
+  end_date: string;
+  total_price: number;
+  currency: string;
+  price_breakdown: PriceQuote | null;
+  status: BookingStatus;
+  created_at: string;
+  camper: CamperRow | null;
+  customer: UserRow | UserRow[] | null;
+}
+
+const mapBookingRow = (row: BookingRow): Booking => ({
+  id: row.id,
+  camper: row.camper ? mapCamperRow(row.camper) : null,
+  customer: mapUserRow(row.customer, 'customer'),
+  startDate: row.start_date,
+  endDate: row.end_date,
+  nights: calculateNights(row.start_date, row.end_date),
+  totalPrice: row.total_price,
+  currency: row.currency,
+  priceBreakdown: row.price_breakdown,
+  status: row.status,
+  createdAt: row.created_at
+});
+
+/**
+ * 🌙 Number of nights between check-in and check-out (YYYY-MM-DD strings)
+ */
+export const calculateNights = (checkIn: string, checkOut: string): number => {
+  if (!checkIn || !checkOut) return 0;
+  const start = new Date(checkIn);
+  const end = new Date(checkOut);
+  const nights = Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+  return nights > 0 ? nights : 0;
+};
+
+/**
+ * 🔨 Create a pending booking for the given camper and customer
+ */
+export const createBooking = async (bookingData: {
+  camper: Camper;
+  customer: User;
+  startDate: string;
+  endDate: string;
+  quote: PriceQuote;
+}): Promise<BookingServiceResult> => {
+  const { camper, customer, startDate, endDate, quote } = bookingData;
+  console.log('🔨 BookingService: Creating booking:', { camperId: camper.id, startDate, endDate });
+
+  const nights = calculateNights(startDate, endDate);
+  if (nights <= 0) {
+    return {
+      booking: null,
+      error: 'Dátum odchodu musí byť po dátume príchodu.'
+    };
+  }
+
+  try {
+    const insertStartTime = Date.now();
+
+    const { data: newBooking, error: dbError } = await supabase
+      .from('bookings')
+      .insert([
+        {
+          camper_id: camper.id,
+          customer_id: customer.id,
+          start_date: startDate,
+          end_date: endDate,
+          // total_price is computed by the database, which rejects a quote that does not match it
+          price_breakdown: quote,
+          status: 'pending'
+        }
+      ])
+      .select('id, start_date, end_date, total_price, currency, price_breakdown, status, created_at')
+      .single();
+
+    const insertTime = Date.now() - insertStartTime;
+    console.log(`🔨 BookingService: Insert completed in ${insertTime}ms`);
+
+    if (dbError) {
+      console.error('❌ BookingService: Database insert error:', dbError);
+
+      // Exclusion constraint / block trigger: dates taken in the meantime
+      if (dbError.code === '23P01') {
+        return {
+          booking: null,
+          error: 'Vybrané dátumy už nie sú dostupné. Vyberte si prosím iný termín.'
+        };
+      }
+
+      // Price trigger: the camper pricing changed after the quote was shown
+      if (dbError.code === '22023') {
+        return {
+          booking: null,
+          error: 'Cena sa medzičasom zmenila. Obnovte prosím stránku a skontrolujte novú cenu.'
+        };
+      }
+
+      return {
+        booking: null,
+        error: `Failed to create booking: ${dbError.message}`
+      };
+    }
+
+    console.log('✅ BookingService: Booking created successfully:', newBooking.id);
+
+    const booking: Booking = {
+      id: newBooking.id,
+      camper,
+      customer,
+      startDate: newBooking.start_date,
+      endDate: newBooking.end_date,
+      nights: calculateNights(newBooking.start_date, newBooking.end_date),
+      totalPrice: newBooking.total_price,
+      currency: newBooking.currency,
+      priceBreakdown: newBooking.price_breakdown as PriceQuote | null,
+      status: newBooking.status as BookingStatus,
+      createdAt: newBooking.created_at
+    };
+
+    return {
+      booking,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ BookingService: Booking creation error:', error);
+    return {
+      booking: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 📥 Get bookings of all campers owned by the user, newest first
+ */
+export const getOwnerBookings = async (ownerId: string): Promise<{ bookings: Booking[]; error: string | null }> => {
+  console.log('📥 BookingService: Getting bookings for owner:', ownerId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('bookings')
+      // Inner join so the filter on the camper owner drops other bookings;
+      // owners always see their own campers, published or not
+      .select(bookingColumns('campers!inner'))
+      .eq('camper.owner_id', ownerId)
+      .order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('❌ BookingService: Database error:', dbError);
+      return {
+        bookings: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    return {
+      bookings: ((data || []) as unknown as BookingRow[]).map(mapBookingRow),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ BookingService: Critical error:', error);
+    return {
+      bookings: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🧳 Get bookings made by a customer, with the ids of those already reviewed
+ */
+export const getCustomerBookings = async (customerId: string): Promise<{
+  bookings: Booking[];
+  reviewedBookingIds: string[];
+  error: string | null;
+}> => {
+  console.log('🧳 BookingService: Getting bookings for customer:', customerId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('bookings')
+      .select(`${BOOKING_COLUMNS}, reviews (id)`)
+      .eq('customer_id', customerId)
+      .order('start_date', { ascending: false });
+
+    if (dbError) {
+      console.error('❌ BookingService: Database error:', dbError);
+      return {
+        bookings: [],
+        reviewedBookingIds: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const rows = (data || []) as unknown as (BookingRow & {
+      reviews: { id: string }[] | { id: string } | null;
+    })[];
+
+    return {
+      bookings: rows.map(mapBookingRow),
+      // booking_id is unique, PostgREST may embed the review as an object or a list
+      reviewedBookingIds: rows
+        .filter(row => Array.isArray(row.reviews) ? row.reviews.length > 0 : !!row.reviews)
+        .map(row => row.id),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ BookingService: Critical error:', error);
+    return {
+      bookings: [],
+      reviewedBookingIds: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🔀 Move a booking to another status through the transition RPC.
+ * Rules are checked here first for a fast answer; the database enforces them again.
+ */
+export const transitionBookingStatus = async (transition: {
+  booking: Booking;
+  to: BookingStatus;
+  actor: BookingActor;
+  note?: string;
+}): Promise<BookingServiceResult> => {
+  const { booking, to, actor, note } = transition;
+  console.log('🔀 BookingService: Transition:', { bookingId: booking.id, from: booking.status, to, actor });
+
+  if (!canTransition(booking, to, actor)) {
+    return {
+      booking: null,
+      error: 'Túto zmenu stavu rezervácie nie je možné vykonať.'
+    };
+  }
+
+  try {
+    const { data, error: dbError } = await supabase
+      .rpc('transition_booking_status', {
+        p_booking_id: booking.id,
+        p_to_status: to,
+        p_note: note?.trim() || null
+      })
+      .single();
+
+    if (dbError) {
+      console.error('❌ BookingService: Transition error:', dbError);
+      return {
+        booking: null,
+        error: `Failed to update booking: ${dbError.message}`
+      };
+    }
+
+    const updated = data as { status: BookingStatus };
+    console.log('✅ BookingService: Booking is now', updated.status);
+
+    return {
+      booking: { ...booking, status: updated.status },
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ BookingService: Critical error:', error);
+    return {
+      booking: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🕓 Get the status history of a booking, oldest first
+ */
+export const getBookingHistory = async (bookingId: string): Promise<{
+  history: BookingStatusChange[];
+  error: string | null;
+}> => {
+  try {
+    const { data, error: dbError } = await supabase
+      .from('booking_status_history')
+      .select('id, booking_id, from_status, to_status, actor, changed_by, note, created_at')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
+
+    if (dbError) {
+      console.error('❌ BookingService: History error:', dbError);
+      return {
+        history: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const history: BookingStatusChange[] = (data || []).map(row => ({
+      id: row.id,
+      bookingId: row.booking_id,
+      fromStatus: row.from_status as BookingStatus | null,
+      toStatus: row.to_status as BookingStatus,
+      actor: row.actor as BookingActor,
+      changedBy: row.changed_by,
+      note: row.note,
+      createdAt: row.created_at
+    }));
+
+    return {
+      history,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ BookingService: Critical error:', error);
+    return {
+      history: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
@@ -0,0 +1,523 @@
+import { supabase } from '../lib/supabase';
+import { AvailabilityRange, Camper, CurrencyCode, GeoPoint, PriceHistogram, PricingRules, SearchFacets, SearchOrigin, User } from '../types';
+import { DEFAULT_PRICING } from '../lib/pricing';
+import { DEFAULT_FILTERS, SearchState, toSearchString } from '../lib/searchParams';
+import { DEFAULT_SORT } from '../lib/sorting';
+
+// Columns selected for every camper query, owner profile joined via owner_id;
+// base_price is computed by the database function of the same name
+export const CAMPER_COLUMNS = `
+  id, title, description, images, price, currency, base_price, pricing, location, latitude, longitude, capacity, amenities, type,
+  rating, review_count, created_at,
+  owner:users!campers_owner_id_fkey (id, name, email, role, avatar, rating, review_count)
+`;
+
+export interface UserRow {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  avatar: string | null;
+  rating: number | null;
+  review_count: number | null;
+}
+
+export interface CamperRow {
+  id: string;
+  title: string;
+  description: string;
+  images: string[] | null;
+  price: number;
+  currency: string;
+  base_price: number | string | null;
+  pricing: Partial<PricingRules> | null;
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  capacity: number;
+  amenities: string[] | null;
+  type: Camper['type'];
+  rating: number | string | null;
+  review_count: number | null;
+  created_at: string;
+  owner: UserRow | UserRow[] | null;
+}
+
+interface AvailabilityRangeRow {
+  start_date: string;
+  end_date: string;
+  kind: AvailabilityRange['kind'];
+}
+
+const mapAvailabilityRow = (row: AvailabilityRangeRow): AvailabilityRange => ({
+  startDate: row.start_date,
+  endDate: row.end_date,
+  kind: row.kind
+});
+
+/**
+ * 🔄 Map a joined users row to the User model
+ */
+export const mapUserRow = (row: UserRow | UserRow[] | null, fallbackRole: User['role'] = 'owner'): User => {
+  // PostgREST returns an object for many-to-one joins, but be defensive
+  const user = Array.isArray(row) ? row[0] : row;
+
+  if (!user) {
+    return {
+      id: '',
+      name: 'Unknown user',
+      email: '',
+      role: fallbackRole
+    };
+  }
+
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role as 'owner' | 'customer',
+    avatar: user.avatar || undefined,
+    rating: user.rating ?? undefined,
+    reviewCount: user.review_count ?? undefined
+  };
+};
+
+/**
+ * 🔄 Map a database row (snake_case, joined owner) to the Camper model
+ */
+export const mapCamperRow = (row: CamperRow): Camper => ({
+  id: row.id,
+  title: row.title,
+  description: row.description,
+  images: row.images || [],
+  price: row.price,
+  currency: row.currency,
+  basePrice: Number(row.base_price ?? 0),
+  pricing: { ...DEFAULT_PRICING, ...(row.pricing || {}) },
+  location: row.location,
+  coordinates: row.latitude !== null && row.longitude !== null
+    ? { lat: row.latitude, lng: row.longitude }
+    : null,
+  capacity: row.capacity,
+  amenities: row.amenities || [],
+  type: row.type,
+  owner: mapUserRow(row.owner),
+  rating: Number(row.rating ?? 0),
+  reviewCount: row.review_count ?? 0,
+  availability: [],
+  createdAt: row.created_at
+});
+
+// Campers per page of search results (three rows of the grid)
+export const SEARCH_PAGE_SIZE = 12;
+
+/**
+ * 🚐 One page of published campers matching the search, in result order
+ * `afterId` is the last camper of the previous page (keyset paging), the
+ * total is only counted for the first page. With an `origin` the radius
+ * filter and the distance sort are measured from that place, and campers
+ * without coordinates only stay in a radius when their location names it.
+ */
+export const searchCampers = async (
+  { searchQuery, filters, sortBy }: SearchState,
+  origin: SearchOrigin | null,
+  afterId: string | null = null,
+  signal?: AbortSignal
+): Promise<{ campers: Camper[]; total: number | null; error: string | null }> => {
+  console.log('🚐 CamperService: Searching campers:', { searchQuery, sortBy, afterId });
+
+  try {
+    const queryStartTime = Date.now();
+
+    let query = supabase
+      .rpc('search_campers', {
+        p_query: searchQuery,
+        p_min_price: filters.priceRange[0],
+        p_max_price: filters.priceRange[1],
+        p_price_basis: filters.priceBasis,
+        p_min_capacity: filters.capacity,
+        p_type: filters.type || null,
+        p_amenities: filters.amenities,
+        p_start_date: filters.startDate || null,
+        p_end_date: filters.endDate || null,
+        p_sort: sortBy,
+        p_after_id: afterId,
+        p_lat: origin?.coordinates.lat ?? null,
+        p_lng: origin?.coordinates.lng ?? null,
+        p_radius_km: filters.radiusKm || null,
+        p_place: origin?.place ?? ''
+      }, { count: afterId ? undefined : 'exact' })
+      .select(CAMPER_COLUMNS)
+      .limit(SEARCH_PAGE_SIZE);
+
+    if (signal) {
+      query = query.abortSignal(signal);
+    }
+
+    const { data, count, error: dbError } = await query;
+
+    const queryTime = Date.now() - queryStartTime;
+    console.log(`📊 CamperService: Query completed in ${queryTime}ms`);
+
+    if (dbError) {
+      console.error('❌ CamperService: Database error:', dbError);
+      return {
+        campers: [],
+        total: null,
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    // Rows stay in the order of camper_sort_key(): the last one is the cursor
+    // of the next page, so the page must not be sorted again here
+    const campers = ((data || []) as unknown as CamperRow[]).map(mapCamperRow);
+    console.log(`✅ CamperService: Loaded ${campers.length} campers`);
+
+    return {
+      campers,
+      total: count,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ CamperService: Critical error:', error);
+    return {
+      campers: [],
+      total: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+interface SearchFacetRow {
+  facet: 'type' | 'amenity';
+  value: string;
+  match_count: number;
+}
+
+interface PriceBucketRow {
+  price_from: number;
+  price_to: number;
+  match_count: number;
+}
+
+// Counts change only when listings or bookings do, so the same filters
+// (toggling an option back and forth) reuse a recent answer
+const FACETS_TTL_MS = 5 * 60 * 1000;
+const FACETS_CACHE_SIZE = 50;
+const facetsCache = new Map<string, { value: SearchFacets; loadedAt: number }>();
+const priceHistogramCache = new Map<string, { value: PriceHistogram | null; loadedAt: number }>();
+
+const facetsCacheKey = (search: SearchState, origin: SearchOrigin | null) =>
+  `${toSearchString({ ...search, sortBy: DEFAULT_SORT })}@${origin ? `${origin.coordinates.lat},${origin.coordinates.lng},${origin.place}` : ''}`;
+
+const readRecent = <T>(cache: Map<string, { value: T; loadedAt: number }>, key: string) => {
+  const cached = cache.get(key);
+  return cached && Date.now() - cached.loadedAt < FACETS_TTL_MS ? cached : undefined;
+};
+
+const rememberRecent = <T>(cache: Map<string, { value: T; loadedAt: number }>, key: string, value: T) => {
+  // Oldest entry out first (a Map keeps insertion order)
+  cache.delete(key);
+  cache.set(key, { value, loadedAt: Date.now() });
+  if (cache.size > FACETS_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value as string);
+  }
+};
+
+/**
+ * 🧮 Per-option match counts for the filter sidebar
+ * Each type counts with the other filters but not the selected type, each
+ * amenity with everything selected plus itself. Sorting does not matter.
+ */
+export const getSearchFacets = async (
+  search: SearchState,
+  origin: SearchOrigin | null,
+  signal?: AbortSignal
+): Promise<{ facets: SearchFacets | null; error: string | null }> => {
+  const { searchQuery, filters } = search;
+  const key = facetsCacheKey(search, origin);
+
+  const cached = readRecent(facetsCache, key);
+  if (cached) {
+    return { facets: cached.value, error: null };
+  }
+
+  console.log('🧮 CamperService: Counting search facets:', { searchQuery });
+
+  try {
+    let query = supabase.rpc('search_facets', {
+      p_query: searchQuery,
+      p_min_price: filters.priceRange[0],
+      p_max_price: filters.priceRange[1],
+      p_price_basis: filters.priceBasis,
+      p_min_capacity: filters.capacity,
+      p_type: filters.type || null,
+      p_amenities: filters.amenities,
+      p_start_date: filters.startDate || null,
+      p_end_date: filters.endDate || null,
+      p_lat: origin?.coordinates.lat ?? null,
+      p_lng: origin?.coordinates.lng ?? null,
+      p_radius_km: filters.radiusKm || null,
+      p_place: origin?.place ?? ''
+    });
+
+    if (signal) {
+      query = query.abortSignal(signal);
+    }
+
+    const { data, error: dbError } = await query;
+
+    if (dbError) {
+      console.error('❌ CamperService: Database error:', dbError);
+      return {
+        facets: null,
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const facets: SearchFacets = { types: {}, amenities: {} };
+    for (const row of (data || []) as SearchFacetRow[]) {
+      const counts = row.facet === 'type' ? facets.types : facets.amenities;
+      counts[row.value] = row.match_count;
+    }
+
+    rememberRecent(facetsCache, key, facets);
+
+    return { facets, error: null };
+
+  } catch (error) {
+    console.error('❌ CamperService: Critical error:', error);
+    return {
+      facets: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 📊 Price slider scale and histogram for the current search
+ * The bounds span every published camper (by night, or the trip total of the
+ * selected stay), the counts follow the other filters but not the price range.
+ * Null histogram when there is nothing published yet.
+ */
+export const getPriceHistogram = async (
+  search: SearchState,
+  origin: SearchOrigin | null,
+  signal?: AbortSignal
+): Promise<{ histogram: PriceHistogram | null; error: string | null }> => {
+  const { searchQuery, filters } = search;
+  const key = facetsCacheKey({ ...search, filters: { ...filters, priceRange: DEFAULT_FILTERS.priceRange } }, origin);
+
+  const cached = readRecent(priceHistogramCache, key);
+  if (cached) {
+    return { histogram: cached.value, error: null };
+  }
+
+  console.log('📊 CamperService: Loading price histogram:', { searchQuery, priceBasis: filters.priceBasis });
+
+  try {
+    let query = supabase.rpc('search_price_histogram', {
+      p_query: searchQuery,
+      p_price_basis: filters.priceBasis,
+      p_min_capacity: filters.capacity,
+      p_type: filters.type || null,
+      p_amenities: filters.amenities,
+      p_start_date: filters.startDate || null,
+      p_end_date: filters.endDate || null,
+      p_lat: origin?.coordinates.lat ?? null,
+      p_lng: origin?.coordinates.lng ?? null,
+      p_radius_km: filters.radiusKm || null,
+      p_place: origin?.place ?? ''
+    });
+
+    if (signal) {
+      query = query.abortSignal(signal);
+    }
+
+    const { data, error: dbError } = await query;
+
+    if (dbError) {
+      console.error('❌ CamperService: Database error:', dbError);
+      return {
+        histogram: null,
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const buckets = ((data || []) as PriceBucketRow[]).map(row => ({
+      from: row.price_from,
+      to: row.price_to,
+      count: row.match_count
+    }));
+    const histogram = buckets.length > 0
+      ? { min: buckets[0].from, max: buckets[buckets.length - 1].to, buckets }
+      : null;
+
+    rememberRecent(priceHistogramCache, key, histogram);
+
+    return { histogram, error: null };
+
+  } catch (error) {
+    console.error('❌ CamperService: Critical error:', error);
+    return {
+      histogram: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🔗 Get one published camper, e.g. for a shared /campers/:id link
+ */
+export const getCamper = async (camperId: string): Promise<{
+  camper: Camper | null;
+  error: string | null;
+}> => {
+  console.log('🔗 CamperService: Fetching camper:', camperId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('campers')
+      .select(CAMPER_COLUMNS)
+      .eq('id', camperId)
+      .eq('is_published', true)
+      .maybeSingle();
+
+    if (dbError) {
+      console.error('❌ CamperService: Database error:', dbError);
+      return {
+        camper: null,
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    if (!data) {
+      return {
+        camper: null,
+        error: 'Campervan neexistuje alebo už nie je v ponuke.'
+      };
+    }
+
+    return {
+      camper: mapCamperRow(data as unknown as CamperRow),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ CamperService: Critical error:', error);
+    return {
+      camper: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 📅 Get booked and blocked date ranges of a camper
+ */
+export const getCamperAvailability = async (camperId: string): Promise<{
+  availability: AvailabilityRange[];
+  error: string | null;
+}> => {
+  console.log('📅 CamperService: Getting availability for camper:', camperId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .rpc('get_camper_unavailability', { p_camper_id: camperId });
+
+    if (dbError) {
+      console.error('❌ CamperService: Availability error:', dbError);
+      return {
+        availability: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const availability = ((data || []) as AvailabilityRangeRow[]).map(mapAvailabilityRow);
+
+    return {
+      availability,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ CamperService: Critical error:', error);
+    return {
+      availability: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🔨 Create a listing owned by the given owner
+ */
+export const createCamper = async (camperData: {
+  ownerId: string;
+  title: string;
+  description: string;
+  images: string[];
+  price: number;
+  currency: CurrencyCode;
+  pricing: PricingRules;
+  location: string;
+  coordinates: GeoPoint;
+  capacity: number;
+  amenities: string[];
+  type: Camper['type'];
+}): Promise<{ camper: Camper | null; error: string | null }> => {
+  console.log('🔨 CamperService: Creating camper:', camperData.title);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('campers')
+      .insert([
+        {
+          owner_id: camperData.ownerId,
+          title: camperData.title.trim(),
+          description: camperData.description.trim(),
+          images: camperData.images,
+          price: camperData.price,
+          currency: camperData.currency,
+          pricing: camperData.pricing,
+          location: camperData.location.trim(),
+          latitude: camperData.coordinates.lat,
+          longitude: camperData.coordinates.lng,
+          capacity: camperData.capacity,
+          amenities: camperData.amenities,
+          type: camperData.type,
+          is_published: true
+        }
+      ])
+      .select(CAMPER_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('❌ CamperService: Database insert error:', dbError);
+      return {
+        camper: null,
+        error: `Failed to create listing: ${dbError.message}`
+      };
+    }
+
+    const camper = mapCamperRow(data as unknown as CamperRow);
+    console.log('✅ CamperService: Camper created successfully:', camper.id);
+
+    // The new listing counts towards the filter options from now on
+    facetsCache.clear();
+    priceHistogramCache.clear();
+
+    return {
+      camper,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ CamperService: Camper creation error:', error);
+    return {
+      camper: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
@@ -0,0 +1,89 @@
+import { supabase } from '../lib/supabase';
+import { Currency, CurrencyCode } from '../types';
+
+interface CurrencyRow {
+  code: string;
+  minor_digits: number;
+  rate_per_eur: number | string;
+  updated_at: string;
+}
+
+/**
+ * 💱 Get the currency table with the exchange rates against the euro
+ */
+export const getCurrencies = async (): Promise<{ currencies: Currency[]; error: string | null }> => {
+  console.log('💱 CurrencyService: Fetching exchange rates');
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('currencies')
+      .select('code, minor_digits, rate_per_eur, updated_at')
+      .order('code');
+
+    if (dbError) {
+      console.error('❌ CurrencyService: Database error:', dbError);
+      return {
+        currencies: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const currencies = ((data || []) as CurrencyRow[]).map(row => ({
+      code: row.code,
+      minorDigits: row.minor_digits,
+      ratePerEur: Number(row.rate_per_eur),
+      updatedAt: row.updated_at
+    }));
+    console.log(`✅ CurrencyService: Loaded ${currencies.length} currencies`);
+
+    return {
+      currencies,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ CurrencyService: Critical error:', error);
+    return {
+      currencies: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🔄 Admins set new exchange rates, a `{ CZK: 24.6, ... }` object of units per euro
+ * The database rejects the whole object when a code is unknown or a rate is not positive.
+ */
+export const refreshExchangeRates = async (
+  rates: Record<CurrencyCode, number>
+): Promise<{ updated: number; error: string | null }> => {
+  console.log('🔄 CurrencyService: Refreshing exchange rates:', Object.keys(rates).join(', '));
+
+  try {
+    const { data, error: dbError } = await supabase.rpc('refresh_exchange_rates', { p_rates: rates });
+
+    if (dbError) {
+      console.error('❌ CurrencyService: Refresh error:', dbError);
+      return {
+        updated: 0,
+        error: dbError.code === '42501'
+          ? 'Kurzy môže meniť iba administrátor.'
+          : `Failed to refresh exchange rates: ${dbError.message}`
+      };
+    }
+
+    console.log(`✅ CurrencyService: Updated ${data} exchange rates`);
+
+    return {
+      updated: Number(data) || 0,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ CurrencyService: Critical error:', error);
+    return {
+      updated: 0,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
@@ -0,0 +1,229 @@
+import { supabase } from '../lib/supabase';
+import { FavoriteCamper } from '../types';
+import { CAMPER_COLUMNS, CamperRow, mapCamperRow } from './camperService';
+import { clearLocalFavorites, loadLocalFavorites } from '../lib/favoritesStorage';
+
+/**
+ * ❤️ Get camper ids the user marked as favourite, newest first
+ */
+export const getFavorites = async (userId: string): Promise<{
+  favorites: string[];
+  error: string | null;
+}> => {
+  console.log('❤️ FavoriteService: Fetching favorites for user:', userId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('favorites')
+      .select('camper_id')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('❌ FavoriteService: Database error:', dbError);
+      return {
+        favorites: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    return {
+      favorites: ((data || []) as { camper_id: string }[]).map(row => row.camper_id),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ FavoriteService: Critical error:', error);
+    return {
+      favorites: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 📋 Get the user's favourites with the campers and the price they were saved at
+ */
+export const getFavoriteCampers = async (userId: string): Promise<{
+  favorites: FavoriteCamper[];
+  error: string | null;
+}> => {
+  console.log('📋 FavoriteService: Fetching favorite campers for user:', userId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('favorites')
+      .select(`camper_id, saved_price, saved_currency, created_at, camper:campers (${CAMPER_COLUMNS})`)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('❌ FavoriteService: Database error:', dbError);
+      return {
+        favorites: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const rows = (data || []) as unknown as {
+      camper_id: string;
+      saved_price: number | null;
+      saved_currency: string | null;
+      created_at: string;
+      camper: CamperRow | null;
+    }[];
+
+    // RLS hides unpublished campers, so the join comes back empty for them
+    const favorites = rows.map(row => ({
+      camperId: row.camper_id,
+      camper: row.camper ? mapCamperRow(row.camper) : null,
+      savedPrice: row.saved_price,
+      savedCurrency: row.saved_currency,
+      savedAt: row.created_at
+    }));
+
+    return {
+      favorites,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ FavoriteService: Critical error:', error);
+    return {
+      favorites: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * ➕ Add favourites, campers that are already favourites are skipped
+ */
+export const addFavorites = async (userId: string, camperIds: string[]): Promise<{ error: string | null }> => {
+  if (camperIds.length === 0) {
+    return { error: null };
+  }
+
+  console.log('➕ FavoriteService: Adding favorites:', camperIds);
+
+  try {
+    const { error: dbError } = await supabase
+      .from('favorites')
+      .upsert(
+        camperIds.map(camperId => ({ user_id: userId, camper_id: camperId })),
+        { onConflict: 'user_id,camper_id', ignoreDuplicates: true }
+      );
+
+    if (dbError) {
+      console.error('❌ FavoriteService: Add error:', dbError);
+      return { error: `Database error: ${dbError.message}` };
+    }
+
+    return { error: null };
+
+  } catch (error) {
+    console.error('❌ FavoriteService: Critical error:', error);
+    return {
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * ➖ Remove favourites
+ */
+export const removeFavorites = async (userId: string, camperIds: string[]): Promise<{ error: string | null }> => {
+  if (camperIds.length === 0) {
+    return { error: null };
+  }
+
+  console.log('➖ FavoriteService: Removing favorites:', camperIds);
+
+  try {
+    const { error: dbError } = await supabase
+      .from('favorites')
+      .delete()
+      .eq('user_id', userId)
+      .in('camper_id', camperIds);
+
+    if (dbError) {
+      console.error('❌ FavoriteService: Remove error:', dbError);
+      return { error: `Database error: ${dbError.message}` };
+    }
+
+    return { error: null };
+
+  } catch (error) {
+    console.error('❌ FavoriteService: Critical error:', error);
+    return {
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 🔎 Camper ids that still point to a visible camper; one deleted or
+ * unpublished camper would otherwise fail the whole batch insert
+ */
+const findExistingCampers = async (camperIds: string[]): Promise<{
+  camperIds: string[];
+  error: string | null;
+}> => {
+  const validIds = camperIds.filter(id => UUID_PATTERN.test(id));
+  if (validIds.length === 0) {
+    return { camperIds: [], error: null };
+  }
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('campers')
+      .select('id')
+      .in('id', validIds);
+
+    if (dbError) {
+      console.error('❌ FavoriteService: Database error:', dbError);
+      return { camperIds: [], error: `Database error: ${dbError.message}` };
+    }
+
+    const existing = new Set(((data || []) as { id: string }[]).map(row => row.id));
+    return {
+      camperIds: validIds.filter(id => existing.has(id)),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ FavoriteService: Critical error:', error);
+    return {
+      camperIds: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🔀 Move favourites collected while signed out into the account, then
+ * return the account's favourites. Ids of campers that are gone are dropped;
+ * local ones are kept if the merge fails, so the next login can retry.
+ */
+export const syncFavorites = async (userId: string): Promise<string[]> => {
+  const localFavorites = loadLocalFavorites();
+
+  if (localFavorites.length > 0) {
+    const { camperIds, error: lookupError } = await findExistingCampers(localFavorites);
+    if (!lookupError) {
+      if (camperIds.length < localFavorites.length) {
+        console.log('🧹 FavoriteService: Dropping stale local favorites:', localFavorites.filter(id => !camperIds.includes(id)));
+      }
+      const { error } = await addFavorites(userId, camperIds);
+      if (!error) {
+        clearLocalFavorites();
+      }
+    }
+  }
+
+  const { favorites, error } = await getFavorites(userId);
+  // Without the account list at least keep showing what the visitor clicked
+  return error ? localFavorites : favorites;
+};
@@ -0,0 +1,65 @@
+import { GeocodedPlace } from '../types';
+
+// OpenStreetMap Nominatim, or a self-hosted instance with the same API
+const GEOCODER_URL = import.meta.env.VITE_GEOCODER_URL || 'https://nominatim.openstreetmap.org';
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+// Places do not move: every address is looked up once per session
+const cache = new Map<string, GeocodedPlace | null>();
+
+/**
+ * 🗺️ Coordinates of an address or place name, null place when nothing matches
+ */
+export const geocodeAddress = async (address: string, signal?: AbortSignal): Promise<{
+  place: GeocodedPlace | null;
+  error: string | null;
+}> => {
+  const key = address.trim().toLowerCase();
+  if (!key) {
+    return { place: null, error: null };
+  }
+
+  if (cache.has(key)) {
+    return { place: cache.get(key) ?? null, error: null };
+  }
+
+  console.log('🗺️ GeocodingService: Geocoding:', address);
+
+  try {
+    const params = new URLSearchParams({ q: address.trim(), format: 'json', limit: '1' });
+    const response = await fetch(`${GEOCODER_URL}/search?${params}`, {
+      headers: { 'Accept-Language': 'sk,en' },
+      signal
+    });
+
+    if (!response.ok) {
+      console.error('❌ GeocodingService: HTTP error:', response.status);
+      return {
+        place: null,
+        error: `Geocoding error: ${response.status}`
+      };
+    }
+
+    const [result] = (await response.json()) as NominatimResult[];
+    const place = result
+      ? { label: result.display_name, coordinates: { lat: Number(result.lat), lng: Number(result.lon) } }
+      : null;
+
+    cache.set(key, place);
+    console.log('✅ GeocodingService: Resolved:', place?.label ?? 'no match');
+
+    return { place, error: null };
+
+  } catch (error) {
+    console.error('❌ GeocodingService: Critical error:', error);
+    return {
+      place: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
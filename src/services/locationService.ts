@@ -0,0 +1,139 @@
+import { supabase } from '../lib/supabase';
+import { LocationSuggestion } from '../types';
+import { foldText } from '../lib/textSearch';
+
+// Suggestions shown in the dropdown, our own listings first
+const MAX_SUGGESTIONS = 8;
+
+// Countries the Google adapter suggests cities in (Central Europe focus)
+const GOOGLE_COUNTRIES = ['sk', 'cz', 'at', 'hu', 'pl'];
+
+/**
+ * 📍 A source of location suggestions for the search field
+ * Providers throw on failure; suggestLocations() keeps the others working.
+ */
+export interface LocationSuggestionProvider {
+  name: LocationSuggestion['source'];
+  isAvailable: () => boolean;
+  suggest: (query: string, signal?: AbortSignal) => Promise<LocationSuggestion[]>;
+}
+
+interface LocationRow {
+  name: string;
+  kind: 'city' | 'region';
+  listing_count: number;
+}
+
+/**
+ * 🚐 Cities and regions where published campers are, with listing counts
+ */
+export const listingLocationProvider: LocationSuggestionProvider = {
+  name: 'listings',
+  isAvailable: () => true,
+  suggest: async (query, signal) => {
+    let request = supabase.rpc('suggest_locations', { p_query: query, p_limit: MAX_SUGGESTIONS });
+    if (signal) {
+      request = request.abortSignal(signal);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return ((data || []) as LocationRow[]).map(row => ({
+      id: `listings:${row.name}`,
+      label: row.name,
+      description: row.kind === 'city' ? 'Mesto' : 'Región',
+      listingCount: row.listing_count,
+      source: 'listings'
+    }));
+  }
+};
+
+/**
+ * 🌍 Google Places predictions, only when the Maps script is on the page
+ */
+export const googlePlacesProvider: LocationSuggestionProvider = {
+  name: 'google',
+  isAvailable: () => !!window.google?.maps?.places?.AutocompleteService,
+  suggest: (query, signal) => new Promise((resolve, reject) => {
+    const places = window.google?.maps.places;
+    if (!places) {
+      resolve([]);
+      return;
+    }
+
+    // Google cannot cancel a prediction request: settle on abort, ignore the late answer
+    const abort = () => reject(new DOMException('Location suggestions aborted', 'AbortError'));
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+
+    new places.AutocompleteService().getPlacePredictions(
+      { input: query, types: ['(cities)'], componentRestrictions: { country: GOOGLE_COUNTRIES } },
+      (predictions, status) => {
+        signal?.removeEventListener('abort', abort);
+        if (signal?.aborted) return;
+
+        if (status !== 'OK' && status !== 'ZERO_RESULTS') {
+          reject(new Error(`Google Places: ${status}`));
+          return;
+        }
+
+        resolve((predictions || []).map(prediction => ({
+          id: `google:${prediction.place_id}`,
+          label: prediction.structured_formatting?.main_text ?? prediction.description,
+          description: prediction.structured_formatting?.secondary_text,
+          source: 'google'
+        })));
+      }
+    );
+  })
+};
+
+export const DEFAULT_LOCATION_PROVIDERS = [listingLocationProvider, googlePlacesProvider];
+
+/**
+ * 📍 Suggestions of all available providers, deduplicated by place name
+ */
+export const suggestLocations = async (
+  query: string,
+  signal?: AbortSignal,
+  providers: LocationSuggestionProvider[] = DEFAULT_LOCATION_PROVIDERS
+): Promise<{ suggestions: LocationSuggestion[]; error: string | null }> => {
+  if (!query.trim()) {
+    return { suggestions: [], error: null };
+  }
+
+  const available = providers.filter(provider => provider.isAvailable());
+  const results = await Promise.allSettled(available.map(provider => provider.suggest(query.trim(), signal)));
+
+  const seen = new Set<string>();
+  const suggestions: LocationSuggestion[] = [];
+  const errors: string[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`❌ LocationService: ${available[index].name} provider error:`, result.reason);
+      errors.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+      return;
+    }
+
+    result.value.forEach(suggestion => {
+      const key = foldText(suggestion.label);
+      if (!seen.has(key)) {
+        seen.add(key);
+        suggestions.push(suggestion);
+      }
+    });
+  });
+
+  return {
+    suggestions: suggestions.slice(0, MAX_SUGGESTIONS),
+    // Only an error when no provider could answer
+    error: errors.length === results.length && errors.length > 0 ? errors.join('; ') : null
+  };
+};
@@ -0,0 +1,350 @@
+import { supabase } from '../lib/supabase';
+import { Camper, Conversation, Message, User } from '../types';
+import { UserRow, mapUserRow } from './camperService';
+
+const USER_COLUMNS = 'id, name, email, role, avatar, rating, review_count';
+
+// Conversation columns with the camper, both parties and the latest message joined
+const CONVERSATION_COLUMNS = `
+  id, booking_id, last_message_at,
+  camper:campers (id, title, images),
+  customer:users!conversations_customer_id_fkey (${USER_COLUMNS}),
+  owner:users!conversations_owner_id_fkey (${USER_COLUMNS}),
+  messages (id, conversation_id, sender_id, body, read_at, created_at)
+`;
+
+const MESSAGE_COLUMNS = 'id, conversation_id, sender_id, body, read_at, created_at';
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface ConversationRow {
+  id: string;
+  booking_id: string | null;
+  last_message_at: string;
+  camper: { id: string; title: string; images: string[] | null };
+  customer: UserRow | UserRow[] | null;
+  owner: UserRow | UserRow[] | null;
+  messages: MessageRow[] | null;
+}
+
+export const mapMessageRow = (row: MessageRow): Message => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  senderId: row.sender_id,
+  body: row.body,
+  readAt: row.read_at,
+  createdAt: row.created_at
+});
+
+const mapConversationRow = (row: ConversationRow, unreadCount: number): Conversation => ({
+  id: row.id,
+  camper: {
+    id: row.camper.id,
+    title: row.camper.title,
+    images: row.camper.images || []
+  },
+  bookingId: row.booking_id,
+  customer: mapUserRow(row.customer, 'customer'),
+  owner: mapUserRow(row.owner, 'owner'),
+  lastMessage: row.messages?.[0] ? mapMessageRow(row.messages[0]) : null,
+  lastMessageAt: row.last_message_at,
+  unreadCount
+});
+
+/**
+ * 🔔 Number of unread messages per conversation, for messages sent to the user
+ */
+const getUnreadCounts = async (userId: string): Promise<Map<string, number>> => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('conversation_id')
+    .is('read_at', null)
+    .neq('sender_id', userId);
+
+  if (error) {
+    console.error('⚠️ MessageService: Unread count error:', error);
+  }
+
+  const counts = new Map<string, number>();
+  ((data || []) as { conversation_id: string }[]).forEach(row => {
+    counts.set(row.conversation_id, (counts.get(row.conversation_id) || 0) + 1);
+  });
+  return counts;
+};
+
+/**
+ * 📬 Get the user's conversations (as customer or owner), latest activity first
+ */
+export const getConversations = async (userId: string): Promise<{
+  conversations: Conversation[];
+  error: string | null;
+}> => {
+  console.log('📬 MessageService: Fetching conversations for user:', userId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('conversations')
+      .select(CONVERSATION_COLUMNS)
+      .or(`customer_id.eq.${userId},owner_id.eq.${userId}`)
+      .order('last_message_at', { ascending: false })
+      .order('created_at', { referencedTable: 'messages', ascending: false })
+      .limit(1, { referencedTable: 'messages' });
+
+    if (dbError) {
+      console.error('❌ MessageService: Database error:', dbError);
+      return {
+        conversations: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const unreadCounts = await getUnreadCounts(userId);
+    const conversations = ((data || []) as unknown as ConversationRow[])
+      .map(row => mapConversationRow(row, unreadCounts.get(row.id) || 0));
+
+    return {
+      conversations,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ MessageService: Critical error:', error);
+    return {
+      conversations: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 💬 Find the customer's conversation about a camper (or one of their
+ * bookings of it), or start a new one
+ */
+export const getOrCreateConversation = async (
+  camper: Pick<Camper, 'id' | 'owner'>,
+  customer: User,
+  bookingId: string | null = null
+): Promise<{ conversation: Conversation | null; error: string | null }> => {
+  console.log('💬 MessageService: Opening conversation:', { camperId: camper.id, customerId: customer.id, bookingId });
+
+  if (camper.owner.id === customer.id) {
+    return {
+      conversation: null,
+      error: 'Nemôžete písať sami sebe.'
+    };
+  }
+
+  try {
+    const findExisting = () => {
+      const query = supabase
+        .from('conversations')
+        .select(CONVERSATION_COLUMNS)
+        .eq('camper_id', camper.id)
+        .eq('customer_id', customer.id);
+
+      return (bookingId ? query.eq('booking_id', bookingId) : query.is('booking_id', null))
+        .order('created_at', { referencedTable: 'messages', ascending: false })
+        .limit(1, { referencedTable: 'messages' })
+        .maybeSingle();
+    };
+
+    const { data: existing, error: findError } = await findExisting();
+
+    if (findError) {
+      console.error('❌ MessageService: Database error:', findError);
+      return {
+        conversation: null,
+        error: `Database error: ${findError.message}`
+      };
+    }
+
+    if (existing) {
+      const unreadCounts = await getUnreadCounts(customer.id);
+      const row = existing as unknown as ConversationRow;
+      return {
+        conversation: mapConversationRow(row, unreadCounts.get(row.id) || 0),
+        error: null
+      };
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('conversations')
+      .insert({
+        camper_id: camper.id,
+        booking_id: bookingId,
+        customer_id: customer.id,
+        owner_id: camper.owner.id
+      })
+      .select(CONVERSATION_COLUMNS)
+      .single();
+
+    if (insertError) {
+      // Opened in another tab at the same time, the other insert won
+      if (insertError.code === '23505') {
+        const { data: raced } = await findExisting();
+        if (raced) {
+          return {
+            conversation: mapConversationRow(raced as unknown as ConversationRow, 0),
+            error: null
+          };
+        }
+      }
+
+      console.error('❌ MessageService: Conversation creation error:', insertError);
+      return {
+        conversation: null,
+        error: `Database error: ${insertError.message}`
+      };
+    }
+
+    console.log('✅ MessageService: Conversation created');
+
+    return {
+      conversation: mapConversationRow(created as unknown as ConversationRow, 0),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ MessageService: Critical error:', error);
+    return {
+      conversation: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 📜 Get all messages of a conversation, oldest first
+ */
+export const getMessages = async (conversationId: string): Promise<{
+  messages: Message[];
+  error: string | null;
+}> => {
+  console.log('📜 MessageService: Fetching messages:', conversationId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (dbError) {
+      console.error('❌ MessageService: Database error:', dbError);
+      return {
+        messages: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    return {
+      messages: ((data || []) as MessageRow[]).map(mapMessageRow),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ MessageService: Critical error:', error);
+    return {
+      messages: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * ✉️ Send a message to a conversation
+ */
+export const sendMessage = async (
+  conversationId: string,
+  senderId: string,
+  body: string
+): Promise<{ message: Message | null; error: string | null }> => {
+  console.log('✉️ MessageService: Sending message to conversation:', conversationId);
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('messages')
+      .insert({
+        conversation_id: conversationId,
+        sender_id: senderId,
+        body: body.trim()
+      })
+      .select(MESSAGE_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('❌ MessageService: Send error:', dbError);
+      return {
+        message: null,
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    return {
+      message: mapMessageRow(data as MessageRow),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ MessageService: Critical error:', error);
+    return {
+      message: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 👁️ Mark the other party's messages in a conversation as read
+ */
+export const markConversationRead = async (conversationId: string): Promise<{ error: string | null }> => {
+  try {
+    const { error: dbError } = await supabase
+      .rpc('mark_conversation_read', { p_conversation_id: conversationId });
+
+    if (dbError) {
+      console.error('❌ MessageService: Mark read error:', dbError);
+      return { error: `Database error: ${dbError.message}` };
+    }
+
+    return { error: null };
+
+  } catch (error) {
+    console.error('❌ MessageService: Critical error:', error);
+    return {
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 📡 Subscribe to new messages of the user's conversations (RLS filters the
+ * rows), returns an unsubscribe function
+ */
+export const subscribeToMessages = (
+  userId: string,
+  onMessage: (message: Message) => void
+): (() => void) => {
+  console.log('📡 MessageService: Subscribing to messages for user:', userId);
+
+  const channel = supabase
+    .channel(`messages:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages' },
+      (payload) => onMessage(mapMessageRow(payload.new as MessageRow))
+    )
+    .subscribe();
+
+  return () => {
+    console.log('📡 MessageService: Unsubscribing from messages');
+    supabase.removeChannel(channel);
+  };
+};
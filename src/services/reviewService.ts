@@ -0,0 +1,199 @@
+import { supabase } from '../lib/supabase';
+import { Review, ReviewableBooking, User } from '../types';
+import { UserRow, mapUserRow } from './camperService';
+
+export const REVIEWS_PAGE_SIZE = 5;
+
+const REVIEW_COLUMNS = `
+  id, booking_id, camper_id, rating, comment, created_at,
+  customer:users!reviews_customer_id_fkey (id, name, email, role, avatar, rating, review_count)
+`;
+
+interface ReviewRow {
+  id: string;
+  booking_id: string;
+  camper_id: string;
+  rating: number;
+  comment: string;
+  created_at: string;
+  customer: UserRow | UserRow[] | null;
+}
+
+const mapReviewRow = (row: ReviewRow): Review => ({
+  id: row.id,
+  bookingId: row.booking_id,
+  camperId: row.camper_id,
+  customer: mapUserRow(row.customer, 'customer'),
+  rating: row.rating,
+  comment: row.comment,
+  createdAt: row.created_at
+});
+
+/**
+ * ⭐ Get one page of a camper's reviews, newest first
+ */
+export const getCamperReviews = async (camperId: string, page: number): Promise<{
+  reviews: Review[];
+  total: number;
+  error: string | null;
+}> => {
+  console.log('⭐ ReviewService: Fetching reviews:', { camperId, page });
+
+  try {
+    const from = page * REVIEWS_PAGE_SIZE;
+    const { data, count, error: dbError } = await supabase
+      .from('reviews')
+      .select(REVIEW_COLUMNS, { count: 'exact' })
+      .eq('camper_id', camperId)
+      .order('created_at', { ascending: false })
+      .range(from, from + REVIEWS_PAGE_SIZE - 1);
+
+    if (dbError) {
+      console.error('❌ ReviewService: Database error:', dbError);
+      return {
+        reviews: [],
+        total: 0,
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    return {
+      reviews: ((data || []) as unknown as ReviewRow[]).map(mapReviewRow),
+      total: count ?? 0,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ ReviewService: Critical error:', error);
+    return {
+      reviews: [],
+      total: 0,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 📝 Completed stays of the customer in this camper that are not reviewed yet
+ */
+export const getReviewableBookings = async (camperId: string, customerId: string): Promise<{
+  bookings: ReviewableBooking[];
+  error: string | null;
+}> => {
+  console.log('📝 ReviewService: Fetching reviewable bookings:', { camperId, customerId });
+
+  try {
+    const { data, error: dbError } = await supabase
+      .from('bookings')
+      .select('id, start_date, end_date, reviews (id)')
+      .eq('camper_id', camperId)
+      .eq('customer_id', customerId)
+      .eq('status', 'completed')
+      .order('end_date', { ascending: false });
+
+    if (dbError) {
+      console.error('❌ ReviewService: Database error:', dbError);
+      return {
+        bookings: [],
+        error: `Database error: ${dbError.message}`
+      };
+    }
+
+    const rows = (data || []) as unknown as {
+      id: string;
+      start_date: string;
+      end_date: string;
+      reviews: { id: string }[] | { id: string } | null;
+    }[];
+
+    // booking_id is unique, PostgREST may embed the review as an object or a list
+    const bookings = rows
+      .filter(row => Array.isArray(row.reviews) ? row.reviews.length === 0 : !row.reviews)
+      .map(row => ({ id: row.id, startDate: row.start_date, endDate: row.end_date }));
+
+    return {
+      bookings,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ ReviewService: Critical error:', error);
+    return {
+      bookings: [],
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * ✍️ Review a completed stay; returns the camper aggregates recomputed by the database
+ */
+export const createReview = async (reviewData: {
+  bookingId: string;
+  camperId: string;
+  customer: User;
+  rating: number;
+  comment: string;
+}): Promise<{
+  review: Review | null;
+  camperRating: { rating: number; reviewCount: number } | null;
+  error: string | null;
+}> => {
+  const { bookingId, camperId, customer, rating, comment } = reviewData;
+  console.log('✍️ ReviewService: Creating review:', { bookingId, camperId, rating });
+
+  try {
+    const { data: newReview, error: dbError } = await supabase
+      .from('reviews')
+      .insert({
+        booking_id: bookingId,
+        camper_id: camperId,
+        customer_id: customer.id,
+        rating,
+        comment: comment.trim()
+      })
+      .select(REVIEW_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('❌ ReviewService: Review creation error:', dbError);
+      return {
+        review: null,
+        camperRating: null,
+        error: dbError.code === '23505'
+          ? 'Tento pobyt ste už hodnotili.'
+          : `Database error: ${dbError.message}`
+      };
+    }
+
+    // rating/review_count were just updated by the refresh_camper_rating trigger
+    const { data: camperRow, error: camperError } = await supabase
+      .from('campers')
+      .select('rating, review_count')
+      .eq('id', camperId)
+      .single();
+
+    if (camperError) {
+      // Not fatal: the review is saved, the aggregate shows up on the next load
+      console.error('⚠️ ReviewService: Rating refresh error:', camperError);
+    }
+
+    console.log('✅ ReviewService: Review created successfully');
+
+    return {
+      review: mapReviewRow(newReview as unknown as ReviewRow),
+      camperRating: camperRow
+        ? { rating: Number(camperRow.rating ?? 0), reviewCount: camperRow.review_count ?? 0 }
+        : null,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ ReviewService: Critical error:', error);
+    return {
+      review: null,
+      camperRating: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
@@ -0,0 +1,171 @@
+import { supabase } from '../lib/supabase';
+
+export const CAMPER_PHOTOS_BUCKET = 'camper-photos';
+export const AVATARS_BUCKET = 'avatars';
+
+// Public URLs look like .../storage/v1/object/public/<bucket>/<user_id>/<file>
+const getObjectPath = (bucket: string, url: string): string | null => {
+  const marker = `/object/public/${bucket}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length));
+};
+
+/**
+ * 🔗 Storage path of a photo URL, null for images hosted elsewhere
+ */
+export const getCamperPhotoPath = (url: string): string | null =>
+  getObjectPath(CAMPER_PHOTOS_BUCKET, url);
+
+/**
+ * 📤 Upload a (resized) listing photo into the owner's folder
+ */
+export const uploadCamperPhoto = async (ownerId: string, photo: Blob): Promise<{
+  url: string | null;
+  error: string | null;
+}> => {
+  const path = `${ownerId}/${crypto.randomUUID()}.jpg`;
+  console.log('📤 StorageService: Uploading photo:', path);
+
+  try {
+    const { error: storageError } = await supabase.storage
+      .from(CAMPER_PHOTOS_BUCKET)
+      .upload(path, photo, {
+        contentType: 'image/jpeg',
+        cacheControl: '31536000',
+        upsert: false
+      });
+
+    if (storageError) {
+      console.error('❌ StorageService: Upload error:', storageError);
+      return {
+        url: null,
+        error: `Storage error: ${storageError.message}`
+      };
+    }
+
+    const { data } = supabase.storage.from(CAMPER_PHOTOS_BUCKET).getPublicUrl(path);
+    console.log('✅ StorageService: Photo uploaded');
+
+    return {
+      url: data.publicUrl,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ StorageService: Critical error:', error);
+    return {
+      url: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🗑️ Delete listing photos from storage, URLs hosted elsewhere are skipped
+ */
+export const deleteCamperPhotos = async (urls: string[]): Promise<{ error: string | null }> => {
+  const paths = urls
+    .map(getCamperPhotoPath)
+    .filter((path): path is string => path !== null);
+
+  if (paths.length === 0) {
+    return { error: null };
+  }
+
+  console.log('🗑️ StorageService: Deleting photos:', paths);
+
+  try {
+    const { error: storageError } = await supabase.storage
+      .from(CAMPER_PHOTOS_BUCKET)
+      .remove(paths);
+
+    if (storageError) {
+      console.error('❌ StorageService: Delete error:', storageError);
+      return { error: `Storage error: ${storageError.message}` };
+    }
+
+    return { error: null };
+
+  } catch (error) {
+    console.error('❌ StorageService: Critical error:', error);
+    return {
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 👤 Upload a (resized) avatar into the user's folder
+ */
+export const uploadAvatar = async (userId: string, avatar: Blob): Promise<{
+  url: string | null;
+  error: string | null;
+}> => {
+  const path = `${userId}/${crypto.randomUUID()}.jpg`;
+  console.log('👤 StorageService: Uploading avatar:', path);
+
+  try {
+    const { error: storageError } = await supabase.storage
+      .from(AVATARS_BUCKET)
+      .upload(path, avatar, {
+        contentType: 'image/jpeg',
+        cacheControl: '31536000',
+        upsert: false
+      });
+
+    if (storageError) {
+      console.error('❌ StorageService: Upload error:', storageError);
+      return {
+        url: null,
+        error: `Storage error: ${storageError.message}`
+      };
+    }
+
+    const { data } = supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path);
+    console.log('✅ StorageService: Avatar uploaded');
+
+    return {
+      url: data.publicUrl,
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ StorageService: Critical error:', error);
+    return {
+      url: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🗑️ Delete a replaced avatar, generated or third-party avatars are skipped
+ */
+export const deleteAvatar = async (url: string): Promise<{ error: string | null }> => {
+  const path = getObjectPath(AVATARS_BUCKET, url);
+
+  if (!path) {
+    return { error: null };
+  }
+
+  console.log('🗑️ StorageService: Deleting avatar:', path);
+
+  try {
+    const { error: storageError } = await supabase.storage
+      .from(AVATARS_BUCKET)
+      .remove([path]);
+
+    if (storageError) {
+      console.error('❌ StorageService: Delete error:', storageError);
+      return { error: `Storage error: ${storageError.message}` };
+    }
+
+    return { error: null };
+
+  } catch (error) {
+    console.error('❌ StorageService: Critical error:', error);
+    return {
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
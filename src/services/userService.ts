@@ -1,5 +1,48 @@
 import { supabase } from '../lib/supabase';
-import { User } from '../types';
+import { PreferredLanguage, ProfileUpdate, User } from '../types';
+import { PROFILE_CONSTRAINT_MESSAGES } from '../lib/profile';
+
+// Own profile: public user info plus the editable details; the private contact
+// row is a one-to-one embed, null until the user saves a phone number, and the
+// admins row is only there for admins
+const PROFILE_COLUMNS = 'id, name, email, role, avatar, rating, review_count, bio, preferred_language, contacts:user_contacts (phone), admin:admins (user_id)';
+
+interface ContactsRow {
+  phone: string | null;
+}
+
+interface AdminRow {
+  user_id: string;
+}
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  avatar: string | null;
+  rating: number;
+  review_count: number;
+  bio: string | null;
+  preferred_language: string;
+  // user_id is the key of both tables, PostgREST may embed an object or a list
+  contacts: ContactsRow | ContactsRow[] | null;
+  admin: AdminRow | AdminRow[] | null;
+}
+
+const mapProfileRow = (row: ProfileRow): User => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  role: row.role as 'owner' | 'customer',
+  avatar: row.avatar ?? undefined,
+  rating: row.rating,
+  reviewCount: row.review_count,
+  phone: (Array.isArray(row.contacts) ? row.contacts[0] : row.contacts)?.phone ?? null,
+  bio: row.bio,
+  preferredLanguage: row.preferred_language as PreferredLanguage,
+  isAdmin: Array.isArray(row.admin) ? row.admin.length > 0 : !!row.admin
+});
 
 export interface UserServiceResult {
   user: User | null;
@@ -20,7 +63,7 @@ export const getUserProfile = async (userId: string): Promise<UserServiceResult>
     // 🎯 SINGLE DATABASE QUERY - ULTRA OPTIMIZED
     const { data: userProfile, error: dbError } = await supabase
       .from('users')
-      .select('id, name, email, role, avatar, rating, review_count')
+      .select(PROFILE_COLUMNS)
       .eq('id', userId)
       .limit(1)
       .single();
@@ -59,15 +102,7 @@ export const getUserProfile = async (userId: string): Promise<UserServiceResult>
       // ✅ USER EXISTS IN DATABASE - USE EXACT DATABASE DATA
       console.log('✅ UserService: User profile found:', userProfile);
       
-      const userData: User = {
-        id: userProfile.id,
-        name: userProfile.name,
-        email: userProfile.email,
-        role: userProfile.role as 'owner' | 'customer',
-        avatar: userProfile.avatar,
-        rating: userProfile.rating,
-        reviewCount: userProfile.review_count
-      };
+      const userData = mapProfileRow(userProfile as unknown as ProfileRow);
       
       console.log('🎯 UserService: Returning user with role:', userData.role);
       
@@ -126,7 +161,7 @@ export const createUserProfile = async (userData: {
           review_count: 0
         }
       ])
-      .select('id, name, email, role, avatar, rating, review_count')
+      .select(PROFILE_COLUMNS)
       .single();
 
     const insertTime = Date.now() - insertStartTime;
@@ -142,15 +177,7 @@ export const createUserProfile = async (userData: {
 
     console.log('✅ UserService: Profile created successfully:', newUser);
     
-    const createdUser: User = {
-      id: newUser.id,
-      name: newUser.name,
-      email: newUser.email,
-      role: newUser.role as 'owner' | 'customer',
-      avatar: newUser.avatar,
-      rating: newUser.rating,
-      reviewCount: newUser.review_count
-    };
+    const createdUser = mapProfileRow(newUser as unknown as ProfileRow);
 
     return {
       user: createdUser,
@@ -166,6 +193,148 @@ export const createUserProfile = async (userData: {
   }
 };
 
+// check_violation, report which rule failed instead of the raw message
+const describeProfileError = (dbError: { code: string; message: string }): string => {
+  if (dbError.code === '23514') {
+    const constraint = Object.keys(PROFILE_CONSTRAINT_MESSAGES)
+      .find(name => dbError.message.includes(name));
+    if (constraint) {
+      return PROFILE_CONSTRAINT_MESSAGES[constraint];
+    }
+  }
+  return `Failed to update profile: ${dbError.message}`;
+};
+
+/**
+ * ✏️ Update the editable part of the user's own profile
+ * The users table re-checks every field (CHECK constraints) and ignores
+ * changes to email, role and rating. The phone is saved first, into the
+ * private user_contacts row.
+ */
+export const updateUserProfile = async (
+  userId: string,
+  updates: ProfileUpdate
+): Promise<{ user: User | null; error: string | null }> => {
+  console.log('✏️ UserService: Updating profile:', userId);
+
+  try {
+    const { error: contactsError } = await supabase
+      .from('user_contacts')
+      .upsert({ user_id: userId, phone: updates.phone?.trim() || null }, { onConflict: 'user_id' });
+
+    if (contactsError) {
+      console.error('❌ UserService: Contacts update error:', contactsError);
+      return {
+        user: null,
+        error: describeProfileError(contactsError)
+      };
+    }
+
+    const { data: updatedUser, error: dbError } = await supabase
+      .from('users')
+      .update({
+        name: updates.name.trim(),
+        ...(updates.avatar !== undefined && { avatar: updates.avatar }),
+        bio: updates.bio?.trim() || null,
+        preferred_language: updates.preferredLanguage
+      })
+      .eq('id', userId)
+      .select(PROFILE_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('❌ UserService: Database update error:', dbError);
+      return {
+        user: null,
+        error: describeProfileError(dbError)
+      };
+    }
+
+    console.log('✅ UserService: Profile updated');
+
+    return {
+      user: mapProfileRow(updatedUser as unknown as ProfileRow),
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ UserService: Profile update error:', error);
+    return {
+      user: null,
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🚐 Switch the signed-in customer to the owner role so they can list a campervan
+ */
+export const becomeOwner = async (): Promise<{ error: string | null }> => {
+  console.log('🚐 UserService: Switching to owner role');
+
+  try {
+    const { error: dbError } = await supabase.rpc('become_owner');
+
+    if (dbError) {
+      console.error('❌ UserService: Role change error:', dbError);
+      return {
+        error: `Failed to change role: ${dbError.message}`
+      };
+    }
+
+    console.log('✅ UserService: User is now an owner');
+
+    return {
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ UserService: Role change error:', error);
+    return {
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * 🛡️ Admins make another registered user an admin, found by email
+ */
+export const grantAdmin = async (email: string): Promise<{ error: string | null }> => {
+  console.log('🛡️ UserService: Granting admin rights to:', email);
+
+  try {
+    const { error: dbError } = await supabase.rpc('grant_admin', { p_email: email });
+
+    if (dbError) {
+      console.error('❌ UserService: Grant admin error:', dbError);
+
+      if (dbError.code === 'P0002') {
+        return {
+          error: 'Používateľ s týmto e-mailom neexistuje.'
+        };
+      }
+
+      return {
+        error: dbError.code === '42501'
+          ? 'Administrátorov môže pridávať iba administrátor.'
+          : `Failed to grant admin rights: ${dbError.message}`
+      };
+    }
+
+    console.log('✅ UserService: Admin rights granted');
+
+    return {
+      error: null
+    };
+
+  } catch (error) {
+    console.error('❌ UserService: Grant admin error:', error);
+    return {
+      error: `Service error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
 /**
  * 🔍 Check if user has access token (is authenticated)
  */
@@ -2,12 +2,22 @@ import { configureStore } from '@reduxjs/toolkit';
 import authReducer from './slices/authSlice';
 import uiReducer from './slices/uiSlice';
 import campersReducer from './slices/campersSlice';
+import bookingsReducer from './slices/bookingsSlice';
+import reviewsReducer from './slices/reviewsSlice';
+import messagesReducer from './slices/messagesSlice';
+import amenitiesReducer from './slices/amenitiesSlice';
+import currencyReducer from './slices/currencySlice';
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
     ui: uiReducer,
     campers: campersReducer,
+    bookings: bookingsReducer,
+    reviews: reviewsReducer,
+    messages: messagesReducer,
+    amenities: amenitiesReducer,
+    currency: currencyReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -0,0 +1,67 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Amenity } from '../../types';
+import { getAmenities } from '../../services/amenityService';
+
+// Amenity catalogue shared by the listing form, filters and camper detail
+interface AmenitiesState {
+  items: Amenity[];
+  loaded: boolean;
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: AmenitiesState = {
+  items: [],
+  loaded: false,
+  loading: false,
+  error: null,
+};
+
+// 🎯 ASYNC THUNK: Load the catalogue once per session
+export const fetchAmenities = createAsyncThunk(
+  'amenities/fetchAmenities',
+  async (_, { rejectWithValue }) => {
+    try {
+      const { amenities, error } = await getAmenities();
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return amenities;
+    } catch (error) {
+      console.error('❌ Redux: fetchAmenities error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { amenities } = getState() as { amenities: AmenitiesState };
+      return !amenities.loaded && !amenities.loading;
+    }
+  }
+);
+
+const amenitiesSlice = createSlice({
+  name: 'amenities',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchAmenities.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchAmenities.fulfilled, (state, action) => {
+        state.loading = false;
+        state.loaded = true;
+        state.items = action.payload;
+      })
+      .addCase(fetchAmenities.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default amenitiesSlice.reducer;
@@ -1,7 +1,10 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { Session } from '@supabase/supabase-js';
-import { User } from '../../types';
-import { getUserProfile, createUserProfile } from '../../services/userService';
+import { ProfileUpdate, User } from '../../types';
+import { getUserProfile, createUserProfile, updateUserProfile, becomeOwner } from '../../services/userService';
+import { syncFavorites } from '../../services/favoriteService';
+import { deleteAvatar } from '../../services/storageService';
+import { validateProfile } from '../../lib/profile';
 import { supabase, getRedirectUrl } from '../../lib/supabase';
 
 interface AuthState {
@@ -17,6 +20,8 @@ interface AuthState {
   } | null;
   error: string | null;
   isAuthenticated: boolean;
+  profileSaving: boolean;
+  profileError: string | null;
 }
 
 const initialState: AuthState = {
@@ -27,6 +32,8 @@ const initialState: AuthState = {
   pendingUserData: null,
   error: null,
   isAuthenticated: false,
+  profileSaving: false,
+  profileError: null,
 };
 
 // 🎯 ASYNC THUNK: Handle user session
@@ -67,10 +74,14 @@ export const handleUserSession = createAsyncThunk(
       }
 
       if (userProfile) {
+        // Hearts clicked before login become part of the account
+        const favorites = await syncFavorites(userProfile.id);
+
         return {
           type: 'USER_LOADED',
           session,
-          user: userProfile
+          user: userProfile,
+          favorites
         };
       }
 
@@ -109,6 +120,9 @@ export const completeProfileSetup = createAsyncThunk(
         return rejectWithValue('Failed to create user profile');
       }
 
+      // The favorites table needs the profile row, so merge only now
+      await syncFavorites(user.id);
+
       return user;
     } catch (error) {
       console.error('❌ Redux: completeProfileSetup error:', error);
@@ -196,6 +210,71 @@ export const register = createAsyncThunk(
   }
 );
 
+// 🎯 ASYNC THUNK: Save the signed-in user's profile settings
+export const updateProfile = createAsyncThunk(
+  'auth/updateProfile',
+  async (updates: ProfileUpdate, { getState, rejectWithValue }) => {
+    const state = getState() as { auth: AuthState };
+    const currentUser = state.auth.user;
+
+    if (!currentUser) {
+      return rejectWithValue('Not signed in');
+    }
+
+    const errors = Object.values(validateProfile(updates));
+    if (errors.length > 0) {
+      return rejectWithValue(errors[0]);
+    }
+
+    try {
+      const { user, error } = await updateUserProfile(currentUser.id, updates);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      if (!user) {
+        return rejectWithValue('Failed to update profile');
+      }
+
+      // The previous upload is no longer referenced anywhere
+      if (currentUser.avatar && currentUser.avatar !== user.avatar) {
+        await deleteAvatar(currentUser.avatar);
+      }
+
+      return user;
+    } catch (error) {
+      console.error('❌ Redux: updateProfile error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Let a customer list campervans by switching to the owner role
+export const switchToOwner = createAsyncThunk(
+  'auth/switchToOwner',
+  async (_, { getState, rejectWithValue }) => {
+    const state = getState() as { auth: AuthState };
+
+    if (!state.auth.user) {
+      return rejectWithValue('Not signed in');
+    }
+
+    try {
+      const { error } = await becomeOwner();
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ Redux: switchToOwner error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
 // 🎯 ASYNC THUNK: Logout
 export const logout = createAsyncThunk(
   'auth/logout',
@@ -326,6 +405,36 @@ const authSlice = createSlice({
         state.error = action.payload as string;
       })
       
+      // Profile settings
+      .addCase(updateProfile.pending, (state) => {
+        state.profileSaving = true;
+        state.profileError = null;
+      })
+      .addCase(updateProfile.fulfilled, (state, action) => {
+        state.profileSaving = false;
+        state.user = action.payload;
+      })
+      .addCase(updateProfile.rejected, (state, action) => {
+        state.profileSaving = false;
+        state.profileError = action.payload as string;
+      })
+
+      // Role switch, reported through profileError like other account changes
+      .addCase(switchToOwner.pending, (state) => {
+        state.profileSaving = true;
+        state.profileError = null;
+      })
+      .addCase(switchToOwner.fulfilled, (state) => {
+        state.profileSaving = false;
+        if (state.user) {
+          state.user.role = 'owner';
+        }
+      })
+      .addCase(switchToOwner.rejected, (state, action) => {
+        state.profileSaving = false;
+        state.profileError = action.payload as string;
+      })
+
       // Logout
       .addCase(logout.pending, (state) => {
         state.loading = true;
@@ -338,6 +447,7 @@ const authSlice = createSlice({
         state.pendingUserData = null;
         state.error = null;
         state.isAuthenticated = false;
+        state.profileError = null;
       })
       .addCase(logout.rejected, (state, action) => {
         state.loading = false;
@@ -0,0 +1,273 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Booking, BookingActor, BookingStatus, BookingStatusChange, Camper, User } from '../../types';
+import {
+  createBooking as createBookingRecord,
+  getOwnerBookings,
+  getCustomerBookings,
+  getBookingHistory,
+  transitionBookingStatus
+} from '../../services/bookingService';
+import { findConflict } from '../../lib/availability';
+import { calculateQuote } from '../../lib/pricing';
+import { submitReview } from './reviewsSlice';
+
+interface BookingsState {
+  currentBooking: Booking | null;
+  creating: boolean;
+  error: string | null;
+  ownerBookings: Booking[];
+  ownerBookingsLoading: boolean;
+  ownerBookingsError: string | null;
+  customerBookings: Booking[];
+  customerBookingsLoading: boolean;
+  customerBookingsError: string | null;
+  reviewedBookingIds: string[];
+  updatingBookingId: string | null;
+  historyByBookingId: Record<string, BookingStatusChange[]>;
+}
+
+const initialState: BookingsState = {
+  currentBooking: null,
+  creating: false,
+  error: null,
+  ownerBookings: [],
+  ownerBookingsLoading: false,
+  ownerBookingsError: null,
+  customerBookings: [],
+  customerBookingsLoading: false,
+  customerBookingsError: null,
+  reviewedBookingIds: [],
+  updatingBookingId: null,
+  historyByBookingId: {},
+};
+
+// 🎯 ASYNC THUNK: Create a pending booking for the signed-in user
+export const createBooking = createAsyncThunk(
+  'bookings/createBooking',
+  async ({
+    camper,
+    checkIn,
+    checkOut,
+    user
+  }: {
+    camper: Camper;
+    checkIn: string;
+    checkOut: string;
+    user: User;
+  }, { rejectWithValue }) => {
+    const quote = calculateQuote(camper, checkIn, checkOut);
+    if (!quote) {
+      return rejectWithValue('Dátum odchodu musí byť po dátume príchodu.');
+    }
+
+    if (findConflict(checkIn, checkOut, camper.availability)) {
+      return rejectWithValue('Vybrané dátumy sa prekrývajú s existujúcou rezerváciou alebo blokovaním.');
+    }
+
+    try {
+      const { booking, error } = await createBookingRecord({
+        camper,
+        customer: user,
+        startDate: checkIn,
+        endDate: checkOut,
+        quote
+      });
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      if (!booking) {
+        return rejectWithValue('Failed to create booking');
+      }
+
+      return booking;
+    } catch (error) {
+      console.error('❌ Redux: createBooking error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Load incoming bookings for the owner's campers
+export const fetchOwnerBookings = createAsyncThunk(
+  'bookings/fetchOwnerBookings',
+  async (ownerId: string, { rejectWithValue }) => {
+    try {
+      const { bookings, error } = await getOwnerBookings(ownerId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return bookings;
+    } catch (error) {
+      console.error('❌ Redux: fetchOwnerBookings error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Load the signed-in customer's own bookings
+export const fetchCustomerBookings = createAsyncThunk(
+  'bookings/fetchCustomerBookings',
+  async (customerId: string, { rejectWithValue }) => {
+    try {
+      const { bookings, reviewedBookingIds, error } = await getCustomerBookings(customerId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return { bookings, reviewedBookingIds };
+    } catch (error) {
+      console.error('❌ Redux: fetchCustomerBookings error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Move a booking to another status (approve, decline, cancel)
+export const updateBookingStatus = createAsyncThunk(
+  'bookings/updateBookingStatus',
+  async (transition: {
+    booking: Booking;
+    to: BookingStatus;
+    actor: BookingActor;
+    note?: string;
+  }, { rejectWithValue }) => {
+    try {
+      const { booking, error } = await transitionBookingStatus(transition);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      if (!booking) {
+        return rejectWithValue('Failed to update booking');
+      }
+
+      return booking;
+    } catch (error) {
+      console.error('❌ Redux: updateBookingStatus error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Load the status history of a booking
+export const fetchBookingHistory = createAsyncThunk(
+  'bookings/fetchBookingHistory',
+  async (bookingId: string, { rejectWithValue }) => {
+    try {
+      const { history, error } = await getBookingHistory(bookingId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return { bookingId, history };
+    } catch (error) {
+      console.error('❌ Redux: fetchBookingHistory error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+const bookingsSlice = createSlice({
+  name: 'bookings',
+  initialState,
+  reducers: {
+    clearCurrentBooking: (state) => {
+      state.currentBooking = null;
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(createBooking.pending, (state) => {
+        state.creating = true;
+        state.error = null;
+        state.currentBooking = null;
+      })
+      .addCase(createBooking.fulfilled, (state, action) => {
+        state.creating = false;
+        state.currentBooking = action.payload;
+      })
+      .addCase(createBooking.rejected, (state, action) => {
+        state.creating = false;
+        state.error = action.payload as string;
+      })
+
+      // Owner bookings
+      .addCase(fetchOwnerBookings.pending, (state) => {
+        state.ownerBookingsLoading = true;
+        state.ownerBookingsError = null;
+      })
+      .addCase(fetchOwnerBookings.fulfilled, (state, action) => {
+        state.ownerBookingsLoading = false;
+        state.ownerBookings = action.payload;
+      })
+      .addCase(fetchOwnerBookings.rejected, (state, action) => {
+        state.ownerBookingsLoading = false;
+        state.ownerBookingsError = action.payload as string;
+      })
+
+      // Customer bookings
+      .addCase(fetchCustomerBookings.pending, (state) => {
+        state.customerBookingsLoading = true;
+        state.customerBookingsError = null;
+      })
+      .addCase(fetchCustomerBookings.fulfilled, (state, action) => {
+        state.customerBookingsLoading = false;
+        state.customerBookings = action.payload.bookings;
+        state.reviewedBookingIds = action.payload.reviewedBookingIds;
+      })
+      .addCase(fetchCustomerBookings.rejected, (state, action) => {
+        state.customerBookingsLoading = false;
+        state.customerBookingsError = action.payload as string;
+      })
+
+      // Status transitions
+      .addCase(updateBookingStatus.pending, (state, action) => {
+        state.updatingBookingId = action.meta.arg.booking.id;
+        state.ownerBookingsError = null;
+        state.customerBookingsError = null;
+      })
+      .addCase(updateBookingStatus.fulfilled, (state, action) => {
+        state.updatingBookingId = null;
+        const updated = action.payload;
+        const index = state.ownerBookings.findIndex(b => b.id === updated.id);
+        if (index !== -1) {
+          state.ownerBookings[index] = updated;
+        }
+        const customerIndex = state.customerBookings.findIndex(b => b.id === updated.id);
+        if (customerIndex !== -1) {
+          state.customerBookings[customerIndex] = updated;
+        }
+        // History is stale now, reload it on next expand
+        delete state.historyByBookingId[updated.id];
+      })
+      .addCase(updateBookingStatus.rejected, (state, action) => {
+        state.updatingBookingId = null;
+        if (action.meta.arg.actor === 'customer') {
+          state.customerBookingsError = action.payload as string;
+        } else {
+          state.ownerBookingsError = action.payload as string;
+        }
+      })
+
+      // Status history
+      .addCase(fetchBookingHistory.fulfilled, (state, action) => {
+        state.historyByBookingId[action.payload.bookingId] = action.payload.history;
+      })
+
+      // A reviewed stay no longer offers the review action
+      .addCase(submitReview.fulfilled, (state, action) => {
+        state.reviewedBookingIds.push(action.payload.review.bookingId);
+      });
+  },
+});
+
+export const { clearCurrentBooking } = bookingsSlice.actions;
+export default bookingsSlice.reducer;
@@ -1,95 +1,546 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { Camper } from '../../types';
-import { mockCampers } from '../../data/mockData';
-
-interface FilterOptions {
-  priceRange: [number, number];
-  capacity: number;
-  type: string;
-  features: string[];
-}
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { AvailabilityRange, Camper, FavoriteCamper, FilterOptions, GeocodedPlace, PriceHistogram, SearchFacets, SearchOrigin, User } from '../../types';
+import { ListingDraft, draftPrices } from '../../lib/listingDraft';
+import {
+  searchCampers as searchCamperRecords,
+  getSearchFacets,
+  getPriceHistogram,
+  getCamper,
+  getCamperAvailability,
+  createCamper as createCamperRecord
+} from '../../services/camperService';
+import { geocodeAddress } from '../../services/geocodingService';
+import { addFavorites, removeFavorites as removeFavoriteRecords, getFavoriteCampers } from '../../services/favoriteService';
+import { loadLocalFavorites, saveLocalFavorites } from '../../lib/favoritesStorage';
+import { createBooking, updateBookingStatus } from './bookingsSlice';
+import { handleUserSession, logout } from './authSlice';
+import { submitReview } from './reviewsSlice';
+import { DEFAULT_FILTERS, SearchState } from '../../lib/searchParams';
+import { DEFAULT_SORT, SortOption } from '../../lib/sorting';
 
 interface CampersState {
-  allCampers: Camper[];
-  filteredCampers: Camper[];
+  // Search results loaded so far, pages appended in server order
+  results: Camper[];
+  totalCount: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMoreError: string | null;
+  // Only the latest search and page request may write results (older ones can still be in flight)
+  searchRequestId: string | null;
+  loadMoreRequestId: string | null;
+  // Place the search text resolved to when searching by distance
+  searchOrigin: GeocodedPlace | null;
+  // Match counts per filter option, null when they could not be loaded
+  facets: SearchFacets | null;
+  priceHistogram: PriceHistogram | null;
   searchQuery: string;
   favorites: string[];
+  favoriteCampers: FavoriteCamper[];
+  favoriteCampersLoading: boolean;
+  favoriteCampersError: string | null;
+  // Camper opened by link that is not part of the loaded lists
+  camperDetail: Camper | null;
+  camperDetailError: string | null;
+  // Booked and blocked ranges per camper id, loaded when a camper is opened from
+  // any list (results, favourites, bookings or a link)
+  availabilityByCamperId: Record<string, AvailabilityRange[]>;
   filters: FilterOptions;
+  sortBy: SortOption;
+  loading: boolean;
+  error: string | null;
+  publishing: boolean;
+  publishError: string | null;
 }
 
 const initialState: CampersState = {
-  allCampers: mockCampers,
-  filteredCampers: mockCampers,
+  results: [],
+  totalCount: 0,
+  hasMore: false,
+  loadingMore: false,
+  loadMoreError: null,
+  searchRequestId: null,
+  loadMoreRequestId: null,
+  searchOrigin: null,
+  facets: null,
+  priceHistogram: null,
   searchQuery: '',
-  favorites: [],
-  filters: {
-    priceRange: [0, 500],
-    capacity: 0,
-    type: '',
-    features: []
+  favorites: loadLocalFavorites(),
+  favoriteCampers: [],
+  favoriteCampersLoading: false,
+  favoriteCampersError: null,
+  camperDetail: null,
+  camperDetailError: null,
+  availabilityByCamperId: {},
+  filters: DEFAULT_FILTERS,
+  sortBy: DEFAULT_SORT,
+  loading: false,
+  error: null,
+  publishing: false,
+  publishError: null,
+};
+
+const searchStateOf = ({ searchQuery, filters, sortBy }: CampersState): SearchState =>
+  ({ searchQuery, filters, sortBy });
+
+// The search text is a place (not matched against the listings) when the
+// radius filter or the distance sort needs a point to measure from
+const isPlaceSearch = ({ searchQuery, filters, sortBy }: CampersState) =>
+  !!searchQuery.trim() && (filters.radiusKm > 0 || sortBy === 'distance');
+
+const placeSearchStateOf = (state: CampersState): SearchState =>
+  ({ ...searchStateOf(state), searchQuery: '' });
+
+// The search text goes along as the place, for campers that have no coordinates
+const searchOriginOf = (state: CampersState, place: GeocodedPlace): SearchOrigin =>
+  ({ coordinates: place.coordinates, place: state.searchQuery });
+
+// 🎯 ASYNC THUNK: First page of results for the current search
+export const searchCampers = createAsyncThunk(
+  'campers/searchCampers',
+  async (_, { getState, signal, rejectWithValue }) => {
+    const { campers: state } = getState() as { campers: CampersState };
+
+    try {
+      let origin: GeocodedPlace | null = null;
+
+      if (isPlaceSearch(state)) {
+        const { place, error } = await geocodeAddress(state.searchQuery, signal);
+
+        if (error) {
+          return rejectWithValue(error);
+        }
+
+        if (!place) {
+          return rejectWithValue(`Miesto „${state.searchQuery.trim()}" sa nepodarilo nájsť`);
+        }
+
+        origin = place;
+      }
+
+      const search = origin ? placeSearchStateOf(state) : searchStateOf(state);
+      const searchOrigin = origin ? searchOriginOf(state, origin) : null;
+
+      // Counts are a hint next to the filters, results show without them
+      const [{ campers, total, error }, { facets }, { histogram }] = await Promise.all([
+        searchCamperRecords(search, searchOrigin, null, signal),
+        getSearchFacets(search, searchOrigin, signal),
+        getPriceHistogram(search, searchOrigin, signal)
+      ]);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return { campers, total: total ?? campers.length, origin, facets, priceHistogram: histogram };
+    } catch (error) {
+      console.error('❌ Redux: searchCampers error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Next page of the current search (infinite scroll)
+export const fetchMoreCampers = createAsyncThunk(
+  'campers/fetchMoreCampers',
+  async (_, { getState, rejectWithValue }) => {
+    const { campers: state } = getState() as { campers: CampersState };
+    const lastCamper = state.results[state.results.length - 1];
+
+    try {
+      const origin = state.searchOrigin;
+      const { campers, error } = await searchCamperRecords(
+        origin ? placeSearchStateOf(state) : searchStateOf(state),
+        origin ? searchOriginOf(state, origin) : null,
+        lastCamper?.id ?? null
+      );
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return campers;
+    } catch (error) {
+      console.error('❌ Redux: fetchMoreCampers error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
   },
+  {
+    condition: (_, { getState }) => {
+      const { campers: state } = getState() as { campers: CampersState };
+      return state.hasMore && !state.loading && !state.loadingMore;
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Load a single camper (deep link to /campers/:id)
+export const fetchCamper = createAsyncThunk(
+  'campers/fetchCamper',
+  async (camperId: string, { rejectWithValue }) => {
+    try {
+      const { camper, error } = await getCamper(camperId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      if (!camper) {
+        return rejectWithValue('Camper not found');
+      }
+
+      return camper;
+    } catch (error) {
+      console.error('❌ Redux: fetchCamper error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Load booked/blocked ranges for one camper
+export const fetchCamperAvailability = createAsyncThunk(
+  'campers/fetchCamperAvailability',
+  async (camperId: string, { rejectWithValue }) => {
+    try {
+      const { availability, error } = await getCamperAvailability(camperId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return { camperId, availability };
+    } catch (error) {
+      console.error('❌ Redux: fetchCamperAvailability error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Toggle a favourite optimistically (rolled back on failure)
+export const toggleFavorite = createAsyncThunk(
+  'campers/toggleFavorite',
+  async (camperId: string, { getState, rejectWithValue }) => {
+    // The pending reducer has already flipped the heart
+    const state = getState() as { campers: CampersState; auth: { user: User | null } };
+    const { favorites } = state.campers;
+    const isFavorite = favorites.includes(camperId);
+    const user = state.auth.user;
+
+    if (!user) {
+      saveLocalFavorites(favorites);
+      return camperId;
+    }
+
+    try {
+      const { error } = isFavorite
+        ? await addFavorites(user.id, [camperId])
+        : await removeFavoriteRecords(user.id, [camperId]);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return camperId;
+    } catch (error) {
+      console.error('❌ Redux: toggleFavorite error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Remove several favourites at once (restored on failure)
+export const removeFavorites = createAsyncThunk(
+  'campers/removeFavorites',
+  async (camperIds: string[], { getState, rejectWithValue }) => {
+    const state = getState() as { campers: CampersState; auth: { user: User | null } };
+    const user = state.auth.user;
+
+    if (!user) {
+      saveLocalFavorites(state.campers.favorites);
+      return camperIds;
+    }
+
+    try {
+      const { error } = await removeFavoriteRecords(user.id, camperIds);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return camperIds;
+    } catch (error) {
+      console.error('❌ Redux: removeFavorites error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Load saved campers with the price they were saved at
+export const fetchFavoriteCampers = createAsyncThunk(
+  'campers/fetchFavoriteCampers',
+  async (userId: string, { rejectWithValue }) => {
+    try {
+      const { favorites, error } = await getFavoriteCampers(userId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return favorites;
+    } catch (error) {
+      console.error('❌ Redux: fetchFavoriteCampers error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Publish a listing created in the owner wizard
+export const createCamper = createAsyncThunk(
+  'campers/createCamper',
+  async ({ draft, owner }: { draft: ListingDraft; owner: User }, { rejectWithValue }) => {
+    if (owner.role !== 'owner') {
+      return rejectWithValue('Campervan môže pridať iba majiteľ');
+    }
+
+    if (!draft.type) {
+      return rejectWithValue('Vyberte typ vozidla');
+    }
+
+    if (!draft.place) {
+      return rejectWithValue('Overte adresu vyzdvihnutia');
+    }
+
+    try {
+      const { camper, error } = await createCamperRecord({
+        ownerId: owner.id,
+        title: draft.title,
+        description: draft.description,
+        images: draft.images,
+        ...draftPrices(draft),
+        currency: draft.currency,
+        location: draft.location,
+        coordinates: draft.place.coordinates,
+        capacity: draft.capacity,
+        amenities: draft.amenities,
+        type: draft.type
+      });
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      if (!camper) {
+        return rejectWithValue('Failed to create listing');
+      }
+
+      return camper;
+    } catch (error) {
+      console.error('❌ Redux: createCamper error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+const flipFavorite = (state: CampersState, camperId: string) => {
+  if (state.favorites.includes(camperId)) {
+    state.favorites = state.favorites.filter(id => id !== camperId);
+  } else {
+    state.favorites.push(camperId);
+  }
 };
 
 const campersSlice = createSlice({
   name: 'campers',
   initialState,
   reducers: {
+    // Setting the search only changes the criteria, the page runs searchCampers
     setSearchQuery: (state, action: PayloadAction<string>) => {
       state.searchQuery = action.payload;
-      campersSlice.caseReducers.applyFilters(state);
+    },
+    // Whole search at once, e.g. restored from the URL
+    setSearchState: (state, action: PayloadAction<SearchState>) => {
+      state.searchQuery = action.payload.searchQuery;
+      state.filters = action.payload.filters;
+      state.sortBy = action.payload.sortBy;
+    },
+    setSortBy: (state, action: PayloadAction<SortOption>) => {
+      state.sortBy = action.payload;
     },
     setFilters: (state, action: PayloadAction<FilterOptions>) => {
       state.filters = action.payload;
-      campersSlice.caseReducers.applyFilters(state);
     },
-    toggleFavorite: (state, action: PayloadAction<string>) => {
-      const camperId = action.payload;
-      if (state.favorites.includes(camperId)) {
-        state.favorites = state.favorites.filter(id => id !== camperId);
-      } else {
-        state.favorites.push(camperId);
+    setTravelDates: (state, action: PayloadAction<{ startDate: string; endDate: string }>) => {
+      const datesChanged = state.filters.startDate !== action.payload.startDate
+        || state.filters.endDate !== action.payload.endDate;
+      state.filters.startDate = action.payload.startDate;
+      state.filters.endDate = action.payload.endDate;
+      // Trip totals of other dates are on another scale
+      if (datesChanged && state.filters.priceBasis === 'trip') {
+        state.filters.priceBasis = 'night';
+        state.filters.priceRange = DEFAULT_FILTERS.priceRange;
       }
     },
-    applyFilters: (state) => {
-      let filtered = state.allCampers;
-      
-      // Apply search query
-      if (state.searchQuery.trim()) {
-        filtered = filtered.filter(camper =>
-          camper.location.toLowerCase().includes(state.searchQuery.toLowerCase()) ||
-          camper.title.toLowerCase().includes(state.searchQuery.toLowerCase()) ||
-          camper.description.toLowerCase().includes(state.searchQuery.toLowerCase())
-        );
-      }
-      
-      // Apply price range
-      filtered = filtered.filter(camper => 
-        camper.price >= state.filters.priceRange[0] && camper.price <= state.filters.priceRange[1]
-      );
-      
-      // Apply capacity
-      if (state.filters.capacity > 0) {
-        filtered = filtered.filter(camper => camper.capacity >= state.filters.capacity);
-      }
-      
-      // Apply type
-      if (state.filters.type) {
-        filtered = filtered.filter(camper => camper.type === state.filters.type);
-      }
-      
-      // Apply features
-      if (state.filters.features.length > 0) {
-        filtered = filtered.filter(camper => 
-          state.filters.features.every(feature => 
-            camper.features[feature as keyof typeof camper.features]
-          )
-        );
-      }
-      
-      state.filteredCampers = filtered;
-    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Favourites
+      .addCase(toggleFavorite.pending, (state, action) => {
+        flipFavorite(state, action.meta.arg);
+      })
+      .addCase(toggleFavorite.rejected, (state, action) => {
+        flipFavorite(state, action.meta.arg);
+      })
+      .addCase(removeFavorites.pending, (state, action) => {
+        state.favorites = state.favorites.filter(id => !action.meta.arg.includes(id));
+      })
+      .addCase(removeFavorites.fulfilled, (state, action) => {
+        state.favoriteCampers = state.favoriteCampers.filter(f => !action.payload.includes(f.camperId));
+      })
+      .addCase(removeFavorites.rejected, (state, action) => {
+        state.favorites.push(...action.meta.arg.filter(id => !state.favorites.includes(id)));
+        state.favoriteCampersError = action.payload as string;
+      })
+      .addCase(fetchFavoriteCampers.pending, (state) => {
+        state.favoriteCampersLoading = true;
+        state.favoriteCampersError = null;
+      })
+      .addCase(fetchFavoriteCampers.fulfilled, (state, action) => {
+        state.favoriteCampersLoading = false;
+        state.favoriteCampers = action.payload;
+      })
+      .addCase(fetchFavoriteCampers.rejected, (state, action) => {
+        state.favoriteCampersLoading = false;
+        state.favoriteCampersError = action.payload as string;
+      })
+      .addCase(handleUserSession.fulfilled, (state, action) => {
+        if (action.payload.type === 'USER_LOADED') {
+          state.favorites = action.payload.favorites ?? [];
+        } else if (action.payload.type === 'NO_SESSION') {
+          state.favorites = loadLocalFavorites();
+        }
+      })
+      // Account favourites stay in the account
+      .addCase(logout.fulfilled, (state) => {
+        state.favorites = loadLocalFavorites();
+        state.favoriteCampers = [];
+      })
+
+      // Search results
+      .addCase(searchCampers.pending, (state, action) => {
+        state.loading = true;
+        state.loadingMore = false;
+        state.loadMoreError = null;
+        state.error = null;
+        state.searchRequestId = action.meta.requestId;
+        state.loadMoreRequestId = null;
+      })
+      .addCase(searchCampers.fulfilled, (state, action) => {
+        if (state.searchRequestId !== action.meta.requestId) return;
+        state.loading = false;
+        state.results = action.payload.campers;
+        state.totalCount = action.payload.total;
+        state.searchOrigin = action.payload.origin;
+        state.facets = action.payload.facets;
+        state.priceHistogram = action.payload.priceHistogram;
+        state.hasMore = action.payload.campers.length < action.payload.total;
+      })
+      .addCase(searchCampers.rejected, (state, action) => {
+        // Aborted searches were replaced by a newer one, which owns the state
+        if (state.searchRequestId !== action.meta.requestId || action.meta.aborted) return;
+        state.loading = false;
+        state.error = action.payload as string;
+        state.results = [];
+        state.totalCount = 0;
+        state.hasMore = false;
+        state.searchOrigin = null;
+        state.facets = null;
+        state.priceHistogram = null;
+      })
+      .addCase(fetchMoreCampers.pending, (state, action) => {
+        state.loadingMore = true;
+        state.loadMoreError = null;
+        state.loadMoreRequestId = action.meta.requestId;
+      })
+      .addCase(fetchMoreCampers.fulfilled, (state, action) => {
+        if (state.loadMoreRequestId !== action.meta.requestId) return;
+        state.loadingMore = false;
+        const loadedIds = new Set(state.results.map(c => c.id));
+        state.results.push(...action.payload.filter(c => !loadedIds.has(c.id)));
+        state.hasMore = action.payload.length > 0 && state.results.length < state.totalCount;
+      })
+      // Loaded pages stay on screen, only the next one offers a retry
+      .addCase(fetchMoreCampers.rejected, (state, action) => {
+        if (state.loadMoreRequestId !== action.meta.requestId) return;
+        state.loadingMore = false;
+        state.loadMoreError = action.payload as string;
+      })
+
+      // Publish listing
+      .addCase(createCamper.pending, (state) => {
+        state.publishing = true;
+        state.publishError = null;
+      })
+      .addCase(createCamper.fulfilled, (state) => {
+        state.publishing = false;
+      })
+      .addCase(createCamper.rejected, (state, action) => {
+        state.publishing = false;
+        state.publishError = action.payload as string;
+      })
+
+      // Camper availability
+      .addCase(fetchCamperAvailability.fulfilled, (state, action) => {
+        state.availabilityByCamperId[action.payload.camperId] = action.payload.availability;
+      })
+
+      // Single camper
+      .addCase(fetchCamper.pending, (state) => {
+        state.camperDetailError = null;
+      })
+      .addCase(fetchCamper.fulfilled, (state, action) => {
+        state.camperDetail = action.payload;
+      })
+      .addCase(fetchCamper.rejected, (state, action) => {
+        state.camperDetail = null;
+        state.camperDetailError = action.payload as string;
+      })
+
+      // A new pending booking makes its nights unavailable right away
+      .addCase(createBooking.fulfilled, (state, action) => {
+        const availability = state.availabilityByCamperId[action.meta.arg.camper.id];
+        if (availability) {
+          availability.push({
+            startDate: action.payload.startDate,
+            endDate: action.payload.endDate,
+            kind: 'booked'
+          });
+        }
+      })
+
+      // A cancelled booking frees its nights again
+      .addCase(updateBookingStatus.fulfilled, (state, action) => {
+        const { camper: bookedCamper, startDate, endDate, status } = action.payload;
+        const availability = bookedCamper && state.availabilityByCamperId[bookedCamper.id];
+        if (availability && status === 'cancelled') {
+          state.availabilityByCamperId[bookedCamper.id] = availability.filter(range =>
+            !(range.kind === 'booked' && range.startDate === startDate && range.endDate === endDate)
+          );
+        }
+      })
+
+      // Aggregates recomputed by the database after a new review
+      .addCase(submitReview.fulfilled, (state, action) => {
+        const { review, camperRating } = action.payload;
+        const camper = state.results.find(c => c.id === review.camperId);
+        if (camper && camperRating) {
+          camper.rating = camperRating.rating;
+          camper.reviewCount = camperRating.reviewCount;
+        }
+        if (state.camperDetail?.id === review.camperId && camperRating) {
+          state.camperDetail.rating = camperRating.rating;
+          state.camperDetail.reviewCount = camperRating.reviewCount;
+        }
+      });
   },
 });
 
-export const { setSearchQuery, setFilters, toggleFavorite } = campersSlice.actions;
+export const { setSearchQuery, setSearchState, setFilters, setSortBy, setTravelDates } = campersSlice.actions;
 export default campersSlice.reducer;
\ No newline at end of file
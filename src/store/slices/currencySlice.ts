@@ -0,0 +1,127 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { Currency, CurrencyCode } from '../../types';
+import { getCurrencies, refreshExchangeRates } from '../../services/currencyService';
+import {
+  loadCachedCurrencies,
+  loadDisplayCurrency,
+  saveCachedCurrencies,
+  saveDisplayCurrency
+} from '../../lib/currencyStorage';
+import { setCurrencyTable } from '../../lib/money';
+
+interface CurrencyState {
+  // Currency prices are converted to, null shows every listing in its own currency
+  displayCurrency: CurrencyCode | null;
+  // Rate table, the cached copy until the fresh one arrives
+  currencies: Currency[];
+  loaded: boolean;
+  loading: boolean;
+  error: string | null;
+  // Admin rate update
+  ratesSaving: boolean;
+  ratesError: string | null;
+}
+
+// Money amounts are scaled by the table's minor digits from the first render
+const cachedCurrencies = loadCachedCurrencies();
+setCurrencyTable(cachedCurrencies);
+
+const initialState: CurrencyState = {
+  displayCurrency: loadDisplayCurrency(),
+  currencies: cachedCurrencies,
+  loaded: false,
+  loading: false,
+  error: null,
+  ratesSaving: false,
+  ratesError: null,
+};
+
+// 🎯 ASYNC THUNK: Refresh the rate table once per session
+export const fetchCurrencies = createAsyncThunk(
+  'currency/fetchCurrencies',
+  async (_, { rejectWithValue }) => {
+    try {
+      const { currencies, error } = await getCurrencies();
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      saveCachedCurrencies(currencies);
+      setCurrencyTable(currencies);
+      return currencies;
+    } catch (error) {
+      console.error('❌ Redux: fetchCurrencies error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { currency } = getState() as { currency: CurrencyState };
+      return !currency.loaded && !currency.loading;
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Admins set new rates, the table is fetched again afterwards
+export const updateExchangeRates = createAsyncThunk(
+  'currency/updateExchangeRates',
+  async (rates: Record<CurrencyCode, number>, { rejectWithValue }) => {
+    try {
+      const { updated, error } = await refreshExchangeRates(rates);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return updated;
+    } catch (error) {
+      console.error('❌ Redux: updateExchangeRates error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+const currencySlice = createSlice({
+  name: 'currency',
+  initialState,
+  reducers: {
+    setDisplayCurrency: (state, action: PayloadAction<CurrencyCode | null>) => {
+      state.displayCurrency = action.payload;
+      saveDisplayCurrency(action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchCurrencies.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchCurrencies.fulfilled, (state, action) => {
+        state.loading = false;
+        state.loaded = true;
+        state.currencies = action.payload;
+      })
+      // The cached rates keep working offline
+      .addCase(fetchCurrencies.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(updateExchangeRates.pending, (state) => {
+        state.ratesSaving = true;
+        state.ratesError = null;
+      })
+      // The loaded table is stale now, so fetchCurrencies runs again
+      .addCase(updateExchangeRates.fulfilled, (state) => {
+        state.ratesSaving = false;
+        state.loaded = false;
+      })
+      .addCase(updateExchangeRates.rejected, (state, action) => {
+        state.ratesSaving = false;
+        state.ratesError = action.payload as string;
+      });
+  },
+});
+
+export const { setDisplayCurrency } = currencySlice.actions;
+export default currencySlice.reducer;
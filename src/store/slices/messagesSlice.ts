@@ -0,0 +1,279 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { Camper, Conversation, Message, User } from '../../types';
+import {
+  getConversations,
+  getOrCreateConversation,
+  getMessages,
+  sendMessage as sendMessageRecord,
+  markConversationRead as markConversationReadRecord
+} from '../../services/messageService';
+import { logout } from './authSlice';
+
+interface MessagesState {
+  conversations: Conversation[];
+  loading: boolean;
+  error: string | null;
+  activeConversationId: string | null;
+  messagesByConversation: Record<string, Message[]>;
+  messagesLoading: boolean;
+  sending: boolean;
+  sendError: string | null;
+}
+
+const initialState: MessagesState = {
+  conversations: [],
+  loading: false,
+  error: null,
+  activeConversationId: null,
+  messagesByConversation: {},
+  messagesLoading: false,
+  sending: false,
+  sendError: null,
+};
+
+// 🎯 ASYNC THUNK: Load the inbox of the signed-in user
+export const fetchConversations = createAsyncThunk(
+  'messages/fetchConversations',
+  async (userId: string, { rejectWithValue }) => {
+    try {
+      const { conversations, error } = await getConversations(userId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return conversations;
+    } catch (error) {
+      console.error('❌ Redux: fetchConversations error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Load messages of a conversation
+export const fetchMessages = createAsyncThunk(
+  'messages/fetchMessages',
+  async (conversationId: string, { rejectWithValue }) => {
+    try {
+      const { messages, error } = await getMessages(conversationId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return { conversationId, messages };
+    } catch (error) {
+      console.error('❌ Redux: fetchMessages error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Mark a conversation as read by the signed-in user
+export const markConversationRead = createAsyncThunk(
+  'messages/markConversationRead',
+  async (conversationId: string, { rejectWithValue }) => {
+    const { error } = await markConversationReadRecord(conversationId);
+
+    if (error) {
+      return rejectWithValue(error);
+    }
+
+    return conversationId;
+  }
+);
+
+// 🎯 ASYNC THUNK: Show a conversation in the inbox and load its messages
+export const selectConversation = createAsyncThunk(
+  'messages/selectConversation',
+  async (conversation: Conversation, { dispatch }) => {
+    await dispatch(fetchMessages(conversation.id));
+    if (conversation.unreadCount > 0) {
+      dispatch(markConversationRead(conversation.id));
+    }
+    return conversation.id;
+  }
+);
+
+// 🎯 ASYNC THUNK: Contact the owner of a camper or about a booking (find or start the conversation)
+export const openConversation = createAsyncThunk(
+  'messages/openConversation',
+  async ({ camper, customer, bookingId }: {
+    camper: Pick<Camper, 'id' | 'owner'>;
+    customer: User;
+    bookingId?: string;
+  }, { dispatch, rejectWithValue }) => {
+    try {
+      const { conversation, error } = await getOrCreateConversation(camper, customer, bookingId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      if (!conversation) {
+        return rejectWithValue('Failed to open conversation');
+      }
+
+      dispatch(selectConversation(conversation));
+      return conversation;
+    } catch (error) {
+      console.error('❌ Redux: openConversation error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Send a message as the signed-in user
+export const sendMessage = createAsyncThunk(
+  'messages/sendMessage',
+  async ({ conversationId, senderId, body }: {
+    conversationId: string;
+    senderId: string;
+    body: string;
+  }, { rejectWithValue }) => {
+    if (!body.trim()) {
+      return rejectWithValue('Správa nemôže byť prázdna.');
+    }
+
+    try {
+      const { message, error } = await sendMessageRecord(conversationId, senderId, body);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      if (!message) {
+        return rejectWithValue('Failed to send message');
+      }
+
+      return message;
+    } catch (error) {
+      console.error('❌ Redux: sendMessage error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Handle a message delivered by Realtime
+export const receiveMessage = createAsyncThunk(
+  'messages/receiveMessage',
+  async (message: Message, { dispatch, getState }) => {
+    const state = getState() as { messages: MessagesState; auth: { user: User | null } };
+    const userId = state.auth.user?.id;
+    const isKnown = state.messages.conversations.some(c => c.id === message.conversationId);
+
+    if (!isKnown && userId) {
+      // First message of a conversation somebody else just started
+      dispatch(fetchConversations(userId));
+      return;
+    }
+
+    dispatch(messageReceived({ message, currentUserId: userId ?? null }));
+
+    if (message.senderId !== userId && state.messages.activeConversationId === message.conversationId) {
+      dispatch(markConversationRead(message.conversationId));
+    }
+  }
+);
+
+const addMessage = (state: MessagesState, message: Message, currentUserId: string | null) => {
+  const messages = state.messagesByConversation[message.conversationId];
+  // Own messages arrive twice: from the insert response and from Realtime
+  if (messages?.some(m => m.id === message.id)) return;
+  messages?.push(message);
+
+  const conversation = state.conversations.find(c => c.id === message.conversationId);
+  if (conversation) {
+    conversation.lastMessage = message;
+    conversation.lastMessageAt = message.createdAt;
+    if (message.senderId !== currentUserId && state.activeConversationId !== message.conversationId) {
+      conversation.unreadCount += 1;
+    }
+    state.conversations.sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt));
+  }
+};
+
+const messagesSlice = createSlice({
+  name: 'messages',
+  initialState,
+  reducers: {
+    messageReceived: (state, action: PayloadAction<{ message: Message; currentUserId: string | null }>) => {
+      addMessage(state, action.payload.message, action.payload.currentUserId);
+    },
+    closeConversation: (state) => {
+      state.activeConversationId = null;
+      state.sendError = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchConversations.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchConversations.fulfilled, (state, action) => {
+        state.loading = false;
+        state.conversations = action.payload;
+      })
+      .addCase(fetchConversations.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      // Opening a conversation
+      .addCase(selectConversation.pending, (state, action) => {
+        state.activeConversationId = action.meta.arg.id;
+        state.sendError = null;
+      })
+      .addCase(openConversation.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(openConversation.fulfilled, (state, action) => {
+        if (!state.conversations.some(c => c.id === action.payload.id)) {
+          state.conversations.unshift(action.payload);
+        }
+      })
+      .addCase(openConversation.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+
+      // Messages
+      .addCase(fetchMessages.pending, (state) => {
+        state.messagesLoading = true;
+      })
+      .addCase(fetchMessages.fulfilled, (state, action) => {
+        state.messagesLoading = false;
+        state.messagesByConversation[action.payload.conversationId] = action.payload.messages;
+      })
+      .addCase(fetchMessages.rejected, (state, action) => {
+        state.messagesLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(markConversationRead.fulfilled, (state, action) => {
+        const conversation = state.conversations.find(c => c.id === action.payload);
+        if (conversation) {
+          conversation.unreadCount = 0;
+        }
+      })
+
+      // Sending
+      .addCase(sendMessage.pending, (state) => {
+        state.sending = true;
+        state.sendError = null;
+      })
+      .addCase(sendMessage.fulfilled, (state, action) => {
+        state.sending = false;
+        addMessage(state, action.payload, action.payload.senderId);
+      })
+      .addCase(sendMessage.rejected, (state, action) => {
+        state.sending = false;
+        state.sendError = action.payload as string;
+      })
+
+      // Inbox belongs to the signed-in user
+      .addCase(logout.fulfilled, () => initialState);
+  },
+});
+
+export const { messageReceived, closeConversation } = messagesSlice.actions;
+export default messagesSlice.reducer;
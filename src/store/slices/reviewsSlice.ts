@@ -0,0 +1,166 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Review, ReviewableBooking, User } from '../../types';
+import {
+  createReview,
+  getCamperReviews,
+  getReviewableBookings
+} from '../../services/reviewService';
+
+// Reviews of the camper currently open in the camper modal
+interface ReviewsState {
+  camperId: string | null;
+  reviews: Review[];
+  total: number;
+  page: number;
+  loading: boolean;
+  error: string | null;
+  reviewableBookings: ReviewableBooking[];
+  submitting: boolean;
+  submitError: string | null;
+}
+
+const initialState: ReviewsState = {
+  camperId: null,
+  reviews: [],
+  total: 0,
+  page: 0,
+  loading: false,
+  error: null,
+  reviewableBookings: [],
+  submitting: false,
+  submitError: null,
+};
+
+// 🎯 ASYNC THUNK: Load a page of reviews (page 0 starts a new list)
+export const fetchCamperReviews = createAsyncThunk(
+  'reviews/fetchCamperReviews',
+  async ({ camperId, page }: { camperId: string; page: number }, { rejectWithValue }) => {
+    try {
+      const { reviews, total, error } = await getCamperReviews(camperId, page);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return { reviews, total };
+    } catch (error) {
+      console.error('❌ Redux: fetchCamperReviews error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Load the signed-in customer's stays that can be reviewed
+export const fetchReviewableBookings = createAsyncThunk(
+  'reviews/fetchReviewableBookings',
+  async ({ camperId, customerId }: { camperId: string; customerId: string }, { rejectWithValue }) => {
+    try {
+      const { bookings, error } = await getReviewableBookings(camperId, customerId);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      return bookings;
+    } catch (error) {
+      console.error('❌ Redux: fetchReviewableBookings error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+// 🎯 ASYNC THUNK: Review a completed stay
+export const submitReview = createAsyncThunk(
+  'reviews/submitReview',
+  async (reviewData: {
+    bookingId: string;
+    camperId: string;
+    customer: User;
+    rating: number;
+    comment: string;
+  }, { rejectWithValue }) => {
+    if (reviewData.rating < 1 || reviewData.rating > 5) {
+      return rejectWithValue('Vyberte hodnotenie od 1 do 5 hviezdičiek.');
+    }
+
+    try {
+      const { review, camperRating, error } = await createReview(reviewData);
+
+      if (error) {
+        return rejectWithValue(error);
+      }
+
+      if (!review) {
+        return rejectWithValue('Failed to create review');
+      }
+
+      return { review, camperRating };
+    } catch (error) {
+      console.error('❌ Redux: submitReview error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+);
+
+const reviewsSlice = createSlice({
+  name: 'reviews',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchCamperReviews.pending, (state, action) => {
+        const { camperId, page } = action.meta.arg;
+        if (camperId !== state.camperId) {
+          state.camperId = camperId;
+          state.reviews = [];
+          state.total = 0;
+          state.reviewableBookings = [];
+          state.submitError = null;
+        }
+        state.page = page;
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchCamperReviews.fulfilled, (state, action) => {
+        // Ignore late responses for a camper that is no longer open
+        if (action.meta.arg.camperId !== state.camperId) return;
+        state.loading = false;
+        state.total = action.payload.total;
+        state.reviews = action.meta.arg.page === 0
+          ? action.payload.reviews
+          : [...state.reviews, ...action.payload.reviews.filter(r => !state.reviews.some(e => e.id === r.id))];
+      })
+      .addCase(fetchCamperReviews.rejected, (state, action) => {
+        if (action.meta.arg.camperId !== state.camperId) return;
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      // Stays the customer can review
+      .addCase(fetchReviewableBookings.fulfilled, (state, action) => {
+        if (action.meta.arg.camperId !== state.camperId) return;
+        state.reviewableBookings = action.payload;
+      })
+
+      // New review
+      .addCase(submitReview.pending, (state) => {
+        state.submitting = true;
+        state.submitError = null;
+      })
+      .addCase(submitReview.fulfilled, (state, action) => {
+        state.submitting = false;
+        const { review } = action.payload;
+        state.reviewableBookings = state.reviewableBookings.filter(b => b.id !== review.bookingId);
+        if (review.camperId === state.camperId) {
+          state.reviews.unshift(review);
+          state.total += 1;
+        }
+      })
+      .addCase(submitReview.rejected, (state, action) => {
+        state.submitting = false;
+        state.submitError = action.payload as string;
+      });
+  },
+});
+
+export default reviewsSlice.reducer;
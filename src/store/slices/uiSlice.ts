@@ -2,20 +2,22 @@ import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
 interface UIState {
   isAuthModalOpen: boolean;
-  isCamperModalOpen: boolean;
   isFilterSidebarOpen: boolean;
+  isBookingConfirmationOpen: boolean;
+  isListingWizardOpen: boolean;
+  isBecomeOwnerPromptOpen: boolean;
   authModalDefaultRole: 'owner' | 'customer';
   authModalDefaultMode: 'login' | 'register';
-  selectedCamperId: string | null;
 }
 
 const initialState: UIState = {
   isAuthModalOpen: false,
-  isCamperModalOpen: false,
   isFilterSidebarOpen: false,
+  isBookingConfirmationOpen: false,
+  isListingWizardOpen: false,
+  isBecomeOwnerPromptOpen: false,
   authModalDefaultRole: 'customer',
   authModalDefaultMode: 'login',
-  selectedCamperId: null,
 };
 
 const uiSlice = createSlice({
@@ -30,30 +32,44 @@ const uiSlice = createSlice({
     closeAuthModal: (state) => {
       state.isAuthModalOpen = false;
     },
-    openCamperModal: (state, action: PayloadAction<string>) => {
-      state.isCamperModalOpen = true;
-      state.selectedCamperId = action.payload;
-    },
-    closeCamperModal: (state) => {
-      state.isCamperModalOpen = false;
-      state.selectedCamperId = null;
-    },
     openFilterSidebar: (state) => {
       state.isFilterSidebarOpen = true;
     },
     closeFilterSidebar: (state) => {
       state.isFilterSidebarOpen = false;
     },
+    openBookingConfirmation: (state) => {
+      state.isBookingConfirmationOpen = true;
+    },
+    closeBookingConfirmation: (state) => {
+      state.isBookingConfirmationOpen = false;
+    },
+    openListingWizard: (state) => {
+      state.isListingWizardOpen = true;
+    },
+    closeListingWizard: (state) => {
+      state.isListingWizardOpen = false;
+    },
+    openBecomeOwnerPrompt: (state) => {
+      state.isBecomeOwnerPromptOpen = true;
+    },
+    closeBecomeOwnerPrompt: (state) => {
+      state.isBecomeOwnerPromptOpen = false;
+    },
   },
 });
 
 export const {
   openAuthModal,
   closeAuthModal,
-  openCamperModal,
-  closeCamperModal,
   openFilterSidebar,
   closeFilterSidebar,
+  openBookingConfirmation,
+  closeBookingConfirmation,
+  openListingWizard,
+  closeListingWizard,
+  openBecomeOwnerPrompt,
+  closeBecomeOwnerPrompt,
 } = uiSlice.actions;
 
 export default uiSlice.reducer;
\ No newline at end of file
@@ -1,21 +1,28 @@
 // Global type declarations for Google Maps API
+// The Maps script is optional: window.google is only there when a page loads it
 declare global {
+  interface GooglePlacePrediction {
+    place_id: string;
+    description: string;
+    structured_formatting?: {
+      main_text: string;
+      secondary_text?: string;
+    };
+  }
+
   interface Window {
-    google: {
+    google?: {
       maps: {
         places: {
-          Autocomplete: new (
-            input: HTMLInputElement,
-            options?: {
-              types?: string[];
-              componentRestrictions?: { country: string[] };
-            }
-          ) => {
-            addListener: (event: string, callback: () => void) => void;
-            getPlace: () => {
-              formatted_address?: string;
-              name?: string;
-            };
+          AutocompleteService: new () => {
+            getPlacePredictions: (
+              request: {
+                input: string;
+                types?: string[];
+                componentRestrictions?: { country: string[] };
+              },
+              callback: (predictions: GooglePlacePrediction[] | null, status: string) => void
+            ) => void;
           };
         };
       };
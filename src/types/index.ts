@@ -6,6 +6,117 @@ export interface User {
   avatar?: string;
   rating?: number;
   reviewCount?: number;
+  // Editable profile details, loaded for the signed-in user only; the phone
+  // lives in user_contacts, which only its user can read
+  phone?: string | null;
+  bio?: string | null;
+  preferredLanguage?: PreferredLanguage;
+  // Admins manage the exchange rates, only known for the signed-in user
+  isAdmin?: boolean;
+}
+
+export type PreferredLanguage = 'sk' | 'cs' | 'en' | 'de';
+
+// Fields a user may change on their own profile
+export interface ProfileUpdate {
+  name: string;
+  avatar?: string;
+  phone: string | null;
+  bio: string | null;
+  preferredLanguage: PreferredLanguage;
+}
+
+// Booked or owner-blocked nights, [startDate, endDate) as YYYY-MM-DD
+export interface AvailabilityRange {
+  startDate: string;
+  endDate: string;
+  kind: 'booked' | 'blocked';
+}
+
+// ISO 4217 code, e.g. 'EUR'
+export type CurrencyCode = string;
+
+// Row of the currency table: minor unit digits and the rate against the euro
+export interface Currency {
+  code: CurrencyCode;
+  minorDigits: number;
+  ratePerEur: number;
+  updatedAt: string;
+}
+
+// Money amounts are integer minor units (cents) of the listing's currency
+// unless a field says otherwise
+
+// Seasonal nightly price, MM-DD bounds inclusive (may wrap over new year)
+export interface SeasonalRate {
+  name: string;
+  startDate: string;
+  endDate: string;
+  price: number;
+}
+
+export interface PricingRules {
+  seasonalRates: SeasonalRate[];
+  weekendSurchargePercent: number; // Friday and Saturday nights
+  weeklyDiscountPercent: number; // 7+ nights
+  monthlyDiscountPercent: number; // 28+ nights
+  cleaningFee: number;
+}
+
+export interface PriceLineItem {
+  kind: 'nights' | 'discount' | 'cleaning' | 'service';
+  label: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+}
+
+export interface PriceQuote {
+  nights: number;
+  lineItems: PriceLineItem[];
+  subtotal: number; // nights after discount
+  fees: number; // cleaning + service fee
+  total: number;
+  currency: CurrencyCode;
+}
+
+// WGS84 coordinates in degrees
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// A geocoded address or place name
+export interface GeocodedPlace {
+  label: string;
+  coordinates: GeoPoint;
+}
+
+// Where a place search measures from: the geocoded point and the searched text,
+// which campers without coordinates must name in their location to stay in a radius
+export interface SearchOrigin {
+  coordinates: GeoPoint;
+  place: string;
+}
+
+export type AmenityCategory = 'kitchen' | 'bathroom' | 'comfort' | 'power' | 'outdoor' | 'driving' | 'policies';
+
+// Entry of the amenity catalogue, labels keyed by language code ('en' always present)
+export interface Amenity {
+  key: string;
+  labels: Record<string, string>;
+  icon: string; // lucide icon name
+  category: AmenityCategory;
+  sortOrder: number;
+}
+
+// One entry of the location autocomplete
+export interface LocationSuggestion {
+  id: string;
+  label: string; // text put into the search field
+  description?: string; // region/country line under the label
+  listingCount?: number; // campers in that place, for our own listings
+  source: 'listings' | 'google';
 }
 
 export interface Camper {
@@ -13,43 +124,123 @@ export interface Camper {
   title: string;
   description: string;
   images: string[];
-  price: number;
+  price: number; // per night
+  currency: CurrencyCode;
+  basePrice: number; // nightly price in whole euros, what price filters and sorts compare
+  pricing: PricingRules;
   location: string;
+  coordinates: GeoPoint | null; // pickup point, null for listings not geocoded yet
   capacity: number;
-  amenities: string[];
+  amenities: string[]; // keys of the amenity catalogue
   type: 'motorhome' | 'trailer' | 'van' | 'popup';
   owner: User;
   rating: number;
   reviewCount: number;
-  availability: Date[];
-  features: {
-    kitchen: boolean;
-    bathroom: boolean;
-    heating: boolean;
-    airConditioning: boolean;
-    wifi: boolean;
-    solar: boolean;
-    generator: boolean;
-    awning: boolean;
-  };
+  availability: AvailabilityRange[];
+  createdAt: string;
+}
+
+// A saved camper; camper is null once it is unpublished or otherwise hidden
+export interface FavoriteCamper {
+  camperId: string;
+  camper: Camper | null;
+  savedPrice: number | null; // nightly price when it was saved
+  savedCurrency: CurrencyCode | null;
+  savedAt: string;
+}
+
+// What the price filter compares: the nightly price or the total of the selected stay
+export type PriceBasis = 'night' | 'trip';
+
+export interface FilterOptions {
+  priceRange: [number | null, number | null]; // whole euros, null = no limit on that side
+  priceBasis: PriceBasis; // 'trip' only applies with travel dates
+  capacity: number;
+  type: string;
+  amenities: string[]; // catalogue keys, campers must have all of them
+  startDate: string; // YYYY-MM-DD travel period, '' when not set
+  endDate: string;
+  radiusKm: number; // around the searched place, 0 = any distance
+}
+
+// How many campers each filter option would match given the other active filters
+export interface SearchFacets {
+  types: Record<string, number>;
+  amenities: Record<string, number>;
+}
+
+export interface PriceHistogramBucket {
+  from: number;
+  to: number;
+  count: number; // campers matching the other filters
+}
+
+// Price slider scale from the whole catalogue in whole euros, buckets in ascending order
+export interface PriceHistogram {
+  min: number;
+  max: number;
+  buckets: PriceHistogramBucket[];
+}
+
+export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
+
+export type BookingActor = 'customer' | 'owner' | 'system';
+
+export interface BookingStatusChange {
+  id: string;
+  bookingId: string;
+  fromStatus: BookingStatus | null;
+  toStatus: BookingStatus;
+  actor: BookingActor;
+  changedBy: string | null;
+  note: string | null;
+  createdAt: string;
 }
 
+// Dates are kept as ISO strings so bookings can live in the Redux store
 export interface Booking {
   id: string;
-  camper: Camper;
+  camper: Camper | null; // null once the owner unpublishes the camper (hidden from customers)
   customer: User;
-  startDate: Date;
-  endDate: Date;
+  startDate: string; // YYYY-MM-DD (check-in)
+  endDate: string; // YYYY-MM-DD (check-out)
+  nights: number;
   totalPrice: number;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
-  createdAt: Date;
+  currency: CurrencyCode; // always the camper currency
+  priceBreakdown: PriceQuote | null;
+  status: BookingStatus;
+  createdAt: string;
 }
 
 export interface Review {
   id: string;
-  camper: Camper;
+  bookingId: string;
+  camperId: string;
   customer: User;
   rating: number;
   comment: string;
-  createdAt: Date;
+  createdAt: string;
+}
+
+// Completed stay of the signed-in customer that has no review yet
+export type ReviewableBooking = Pick<Booking, 'id' | 'startDate' | 'endDate'>;
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  body: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  camper: Pick<Camper, 'id' | 'title' | 'images'>;
+  bookingId: string | null;
+  customer: User;
+  owner: User;
+  lastMessage: Message | null;
+  lastMessageAt: string;
+  unreadCount: number; // messages from the other party not read yet
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+/*
+  # Create campers table
+
+  1. New Tables
+    - `campers`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid) - references users.id, the owner of the listing
+      - `title` (text) - listing title
+      - `description` (text) - listing description
+      - `images` (text[]) - ordered list of image URLs, first one is the cover
+      - `price` (numeric) - price per night
+      - `location` (text) - free-text location, e.g. "Bratislava, Slovensko"
+      - `capacity` (integer) - number of sleeping places
+      - `amenities` (text[]) - free-text amenities
+      - `type` (text) - one of 'motorhome', 'trailer', 'van', 'popup'
+      - `features` (jsonb) - feature flags (kitchen, bathroom, wifi, ...)
+      - `rating` (numeric) - average rating of the camper
+      - `review_count` (integer) - number of reviews of the camper
+      - `is_published` (boolean) - whether the listing is visible in search
+      - `created_at` (timestamp) - when the record was created
+      - `updated_at` (timestamp) - when the record was last updated
+
+  2. Security
+    - Enable RLS on `campers` table
+    - Add policy for public read access to published campers
+    - Add policy for owners to read all of their own campers (including drafts)
+    - Add policies for owners to insert, update and delete their own campers
+
+  3. Indexes
+    - Add indexes on owner_id, type, price and location for catalogue queries
+*/
+
+CREATE TABLE IF NOT EXISTS campers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(title) BETWEEN 3 AND 120),
+  description text NOT NULL DEFAULT '',
+  images text[] NOT NULL DEFAULT '{}',
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  location text NOT NULL,
+  capacity integer NOT NULL CHECK (capacity > 0),
+  amenities text[] NOT NULL DEFAULT '{}',
+  type text NOT NULL CHECK (type IN ('motorhome', 'trailer', 'van', 'popup')),
+  features jsonb NOT NULL DEFAULT '{
+    "kitchen": false,
+    "bathroom": false,
+    "heating": false,
+    "airConditioning": false,
+    "wifi": false,
+    "solar": false,
+    "generator": false,
+    "awning": false
+  }'::jsonb,
+  rating numeric(3,2) DEFAULT 0 CHECK (rating >= 0 AND rating <= 5),
+  review_count integer DEFAULT 0 CHECK (review_count >= 0),
+  is_published boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE campers ENABLE ROW LEVEL SECURITY;
+
+-- Policy for public read access to published campers
+CREATE POLICY "Public can read published campers"
+  ON campers
+  FOR SELECT
+  TO public
+  USING (is_published = true);
+
+-- Policy for owners to read their own campers (including unpublished)
+CREATE POLICY "Owners can read own campers"
+  ON campers
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = owner_id);
+
+-- Policy for owners to create campers
+CREATE POLICY "Owners can insert own campers"
+  ON campers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'owner')
+  );
+
+-- Policy for owners to update their own campers
+CREATE POLICY "Owners can update own campers"
+  ON campers
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+-- Policy for owners to delete their own campers
+CREATE POLICY "Owners can delete own campers"
+  ON campers
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = owner_id);
+
+-- Reuse updated_at trigger function from users migration
+CREATE TRIGGER update_campers_updated_at
+  BEFORE UPDATE ON campers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes for catalogue queries
+CREATE INDEX IF NOT EXISTS idx_campers_owner_id ON campers(owner_id);
+CREATE INDEX IF NOT EXISTS idx_campers_type ON campers(type);
+CREATE INDEX IF NOT EXISTS idx_campers_price ON campers(price);
+CREATE INDEX IF NOT EXISTS idx_campers_location ON campers(location);
+CREATE INDEX IF NOT EXISTS idx_campers_published_created ON campers(is_published, created_at DESC);
+
+COMMENT ON TABLE campers IS 'Camper listings owned by users with role owner';
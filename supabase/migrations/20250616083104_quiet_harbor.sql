@@ -0,0 +1,75 @@
+/*
+  # Create bookings table
+
+  1. New Tables
+    - `bookings`
+      - `id` (uuid, primary key)
+      - `camper_id` (uuid) - references campers.id
+      - `customer_id` (uuid) - references users.id, the customer who booked
+      - `start_date` (date) - check-in date
+      - `end_date` (date) - check-out date (exclusive, must be after start_date)
+      - `total_price` (numeric) - total price including fees
+      - `status` (text) - one of 'pending', 'confirmed', 'cancelled', 'completed'
+      - `created_at` (timestamp) - when the record was created
+      - `updated_at` (timestamp) - when the record was last updated
+
+  2. Security
+    - Enable RLS on `bookings` table
+    - Add policy for customers to read their own bookings
+    - Add policy for owners to read bookings of their campers
+    - Add policy for customers to create their own bookings in status 'pending'
+
+  3. Indexes
+    - Add indexes on camper_id (with dates) and customer_id
+*/
+
+CREATE TABLE IF NOT EXISTS bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  camper_id uuid NOT NULL REFERENCES campers(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  total_price numeric(10,2) NOT NULL CHECK (total_price >= 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'cancelled', 'completed')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date > start_date)
+);
+
+-- Enable RLS
+ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+
+-- Policy for customers to read their own bookings
+CREATE POLICY "Customers can read own bookings"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = customer_id);
+
+-- Policy for owners to read bookings of their campers
+CREATE POLICY "Owners can read bookings of own campers"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM campers WHERE campers.id = bookings.camper_id AND campers.owner_id = auth.uid())
+  );
+
+-- Policy for customers to create pending bookings for themselves
+CREATE POLICY "Customers can insert own pending bookings"
+  ON bookings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = customer_id AND status = 'pending');
+
+-- Reuse updated_at trigger function from users migration
+CREATE TRIGGER update_bookings_updated_at
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes for booking lookups
+CREATE INDEX IF NOT EXISTS idx_bookings_camper_dates ON bookings(camper_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_bookings_customer_id ON bookings(customer_id);
+
+COMMENT ON TABLE bookings IS 'Camper bookings made by customers';
@@ -0,0 +1,124 @@
+/*
+  # Camper availability
+
+  1. New Tables
+    - `camper_blocks`
+      - `id` (uuid, primary key)
+      - `camper_id` (uuid) - references campers.id
+      - `start_date` (date) - first blocked night
+      - `end_date` (date) - day after the last blocked night (exclusive)
+      - `reason` (text) - optional note for the owner
+      - `created_at` (timestamp) - when the record was created
+
+  2. Constraints
+    - Active bookings (pending/confirmed) of one camper may not overlap
+    - Bookings may not overlap an owner block (trigger)
+
+  3. Functions
+    - `get_camper_unavailability(camper_id)` - booked and blocked ranges of a camper,
+      readable by anyone without exposing who booked
+
+  4. Security
+    - Enable RLS on `camper_blocks` table
+    - Add policies for owners to manage blocks of their own campers
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS camper_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  camper_id uuid NOT NULL REFERENCES campers(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_date > start_date)
+);
+
+-- Enable RLS
+ALTER TABLE camper_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Policy for owners to read blocks of their campers
+CREATE POLICY "Owners can read own camper blocks"
+  ON camper_blocks
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM campers WHERE campers.id = camper_blocks.camper_id AND campers.owner_id = auth.uid())
+  );
+
+-- Policy for owners to create blocks for their campers
+CREATE POLICY "Owners can insert own camper blocks"
+  ON camper_blocks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM campers WHERE campers.id = camper_blocks.camper_id AND campers.owner_id = auth.uid())
+  );
+
+-- Policy for owners to delete blocks of their campers
+CREATE POLICY "Owners can delete own camper blocks"
+  ON camper_blocks
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM campers WHERE campers.id = camper_blocks.camper_id AND campers.owner_id = auth.uid())
+  );
+
+CREATE INDEX IF NOT EXISTS idx_camper_blocks_camper_dates ON camper_blocks(camper_id, start_date, end_date);
+
+-- Active bookings of the same camper may not overlap (end_date is exclusive)
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    camper_id WITH =,
+    daterange(start_date, end_date, '[)') WITH &&
+  )
+  WHERE (status IN ('pending', 'confirmed'));
+
+-- Bookings may not overlap a range blocked by the owner
+CREATE OR REPLACE FUNCTION check_booking_not_blocked()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('pending', 'confirmed') AND EXISTS (
+    SELECT 1 FROM camper_blocks
+    WHERE camper_blocks.camper_id = NEW.camper_id
+      AND daterange(camper_blocks.start_date, camper_blocks.end_date, '[)')
+          && daterange(NEW.start_date, NEW.end_date, '[)')
+  ) THEN
+    RAISE EXCEPTION 'Camper is not available for the selected dates'
+      USING ERRCODE = '23P01';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_bookings_not_blocked
+  BEFORE INSERT OR UPDATE OF start_date, end_date, status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION check_booking_not_blocked();
+
+-- Public, anonymous view of unavailable ranges (no customer data)
+CREATE OR REPLACE FUNCTION get_camper_unavailability(p_camper_id uuid)
+RETURNS TABLE (start_date date, end_date date, kind text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.start_date, b.end_date, 'booked'::text
+  FROM bookings b
+  WHERE b.camper_id = p_camper_id
+    AND b.status IN ('pending', 'confirmed')
+    AND b.end_date > current_date
+  UNION ALL
+  SELECT cb.start_date, cb.end_date, 'blocked'::text
+  FROM camper_blocks cb
+  WHERE cb.camper_id = p_camper_id
+    AND cb.end_date > current_date
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_camper_unavailability(uuid) TO anon, authenticated;
+
+COMMENT ON TABLE camper_blocks IS 'Date ranges blocked by owners, end_date is exclusive';
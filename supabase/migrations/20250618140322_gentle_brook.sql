@@ -0,0 +1,30 @@
+/*
+  # Catalogue-wide availability
+
+  1. Functions
+    - `get_campers_unavailability(camper_ids)` - booked and blocked ranges of several
+      campers in one call, so search results can hide campers that are not free
+      for the whole travel period
+*/
+
+CREATE OR REPLACE FUNCTION get_campers_unavailability(p_camper_ids uuid[])
+RETURNS TABLE (camper_id uuid, start_date date, end_date date, kind text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.camper_id, b.start_date, b.end_date, 'booked'::text
+  FROM bookings b
+  WHERE b.camper_id = ANY (p_camper_ids)
+    AND b.status IN ('pending', 'confirmed')
+    AND b.end_date > current_date
+  UNION ALL
+  SELECT cb.camper_id, cb.start_date, cb.end_date, 'blocked'::text
+  FROM camper_blocks cb
+  WHERE cb.camper_id = ANY (p_camper_ids)
+    AND cb.end_date > current_date
+  ORDER BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_campers_unavailability(uuid[]) TO anon, authenticated;
@@ -0,0 +1,24 @@
+/*
+  # Pricing rules and booking price breakdown
+
+  1. Changes
+    - `campers.pricing` (jsonb) - owner pricing rules: seasonal rates, weekend
+      surcharge, weekly/monthly discounts and cleaning fee
+    - `bookings.price_breakdown` (jsonb) - itemised quote the customer accepted,
+      stored next to `total_price` so the booking keeps the price it was made for
+*/
+
+ALTER TABLE campers
+  ADD COLUMN IF NOT EXISTS pricing jsonb NOT NULL DEFAULT '{
+    "seasonalRates": [],
+    "weekendSurchargePercent": 0,
+    "weeklyDiscountPercent": 0,
+    "monthlyDiscountPercent": 0,
+    "cleaningFee": 0
+  }'::jsonb;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS price_breakdown jsonb;
+
+COMMENT ON COLUMN campers.pricing IS 'Pricing rules, see PricingRules in src/types';
+COMMENT ON COLUMN bookings.price_breakdown IS 'Itemised quote at booking time, see PriceQuote in src/types';
@@ -0,0 +1,176 @@
+/*
+  # Booking status transitions
+
+  1. New Tables
+    - `booking_status_history`
+      - `id` (uuid, primary key)
+      - `booking_id` (uuid) - references bookings.id
+      - `from_status` (text) - previous status, null for the initial 'pending'
+      - `to_status` (text) - new status
+      - `actor` (text) - 'customer', 'owner' or 'system'
+      - `changed_by` (uuid) - user who made the change, null for system changes
+      - `note` (text) - optional reason (e.g. why the owner declined)
+      - `created_at` (timestamp) - when the transition happened
+
+  2. Transition rules (mirrored in src/lib/bookingStatus.ts)
+    - pending   -> confirmed : owner, before check-in
+    - pending   -> cancelled : owner (decline) or customer, before check-in
+    - confirmed -> cancelled : owner or customer, before check-in
+    - confirmed -> completed : system, on or after check-out
+
+  3. Functions
+    - `booking_transition_allowed(...)` - the rule table above
+    - `transition_booking_status(booking_id, to_status, note)` - the only way for
+      clients to change a booking status; derives the actor from auth.uid()
+    - `complete_finished_bookings()` - system job, schedule with pg_cron
+
+  4. Security
+    - Enable RLS on `booking_status_history`, readable by whoever can read the booking
+    - No UPDATE policy on `bookings`: status changes only go through the RPC
+*/
+
+CREATE TABLE IF NOT EXISTS booking_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  from_status text CHECK (from_status IN ('pending', 'confirmed', 'cancelled', 'completed')),
+  to_status text NOT NULL CHECK (to_status IN ('pending', 'confirmed', 'cancelled', 'completed')),
+  actor text NOT NULL CHECK (actor IN ('customer', 'owner', 'system')),
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE booking_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Policy: history is visible to anyone who can see the booking itself
+CREATE POLICY "Booking parties can read status history"
+  ON booking_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM bookings WHERE bookings.id = booking_status_history.booking_id)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_booking_status_history_booking ON booking_status_history(booking_id, created_at);
+
+-- Rule table, kept in sync with BOOKING_TRANSITIONS on the client
+CREATE OR REPLACE FUNCTION booking_transition_allowed(
+  p_from text,
+  p_to text,
+  p_actor text,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_from = 'pending' AND p_to = 'confirmed'
+      THEN p_actor = 'owner' AND current_date < p_start_date
+    WHEN p_from IN ('pending', 'confirmed') AND p_to = 'cancelled'
+      THEN p_actor IN ('owner', 'customer') AND current_date < p_start_date
+    WHEN p_from = 'confirmed' AND p_to = 'completed'
+      THEN p_actor = 'system' AND current_date >= p_end_date
+    ELSE false
+  END;
+$$;
+
+-- Record the initial 'pending' state of every new booking
+CREATE OR REPLACE FUNCTION record_booking_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO booking_status_history (booking_id, from_status, to_status, actor, changed_by)
+  VALUES (NEW.id, NULL, NEW.status, 'customer', NEW.customer_id);
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_bookings_created
+  AFTER INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION record_booking_created();
+
+-- Client entry point for status changes
+CREATE OR REPLACE FUNCTION transition_booking_status(
+  p_booking_id uuid,
+  p_to_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_owner_id uuid;
+  v_actor text;
+  v_from_status text;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT owner_id INTO v_owner_id FROM campers WHERE id = v_booking.camper_id;
+
+  IF auth.uid() = v_owner_id THEN
+    v_actor := 'owner';
+  ELSIF auth.uid() = v_booking.customer_id THEN
+    v_actor := 'customer';
+  ELSE
+    RAISE EXCEPTION 'Not a party of this booking' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT booking_transition_allowed(v_booking.status, p_to_status, v_actor, v_booking.start_date, v_booking.end_date) THEN
+    RAISE EXCEPTION 'Transition % -> % is not allowed for %', v_booking.status, p_to_status, v_actor
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_from_status := v_booking.status;
+
+  UPDATE bookings SET status = p_to_status WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  INSERT INTO booking_status_history (booking_id, from_status, to_status, actor, changed_by, note)
+  VALUES (p_booking_id, v_from_status, p_to_status, v_actor, auth.uid(), p_note);
+
+  RETURN NEXT v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_booking_status(uuid, text, text) TO authenticated;
+
+-- System job: complete confirmed bookings whose check-out day has passed
+CREATE OR REPLACE FUNCTION complete_finished_bookings()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH completed AS (
+    UPDATE bookings
+    SET status = 'completed'
+    WHERE status = 'confirmed'
+      AND booking_transition_allowed(status, 'completed', 'system', start_date, end_date)
+    RETURNING id
+  )
+  INSERT INTO booking_status_history (booking_id, from_status, to_status, actor)
+  SELECT id, 'confirmed', 'completed', 'system' FROM completed;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_finished_bookings() FROM public, anon, authenticated;
+
+-- Run nightly when pg_cron is enabled:
+-- SELECT cron.schedule('complete-finished-bookings', '15 0 * * *', 'SELECT complete_finished_bookings()');
+
+COMMENT ON TABLE booking_status_history IS 'Timestamped history of booking status transitions';
@@ -0,0 +1,62 @@
+/*
+  # Camper photo storage
+
+  1. Storage
+    - `camper-photos` bucket (public read) for listing photos
+    - Objects live under `<owner_id>/<file>`, so the first folder of the path
+      is the uploading owner
+    - Max 5 MB per file, JPEG/WebP/PNG only (photos are resized in the browser
+      before upload, the limit is just a safety net)
+
+  2. Security
+    - Anyone can read photos (listings are public)
+    - Authenticated owners can upload, replace and delete files in their own folder only
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'camper-photos',
+  'camper-photos',
+  true,
+  5242880,
+  ARRAY['image/jpeg', 'image/webp', 'image/png']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Policy: listing photos are public
+CREATE POLICY "Anyone can view camper photos"
+  ON storage.objects
+  FOR SELECT
+  TO public
+  USING (bucket_id = 'camper-photos');
+
+-- Policy: owners upload into their own folder
+CREATE POLICY "Owners can upload camper photos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'camper-photos' AND
+    (storage.foldername(name))[1] = auth.uid()::text AND
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'owner')
+  );
+
+-- Policy: owners replace files in their own folder
+CREATE POLICY "Owners can update own camper photos"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'camper-photos' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Policy: owners delete files in their own folder
+CREATE POLICY "Owners can delete own camper photos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'camper-photos' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,114 @@
+/*
+  # Post-trip reviews
+
+  1. New Tables
+    - `reviews`
+      - `id` (uuid, primary key)
+      - `booking_id` (uuid, unique) - the completed stay being reviewed, one review per booking
+      - `camper_id` (uuid) - references campers.id
+      - `customer_id` (uuid) - author, references users.id
+      - `rating` (integer) - 1 to 5 stars
+      - `comment` (text) - up to 2000 characters
+      - `created_at` (timestamp)
+
+  2. Aggregates
+    - `campers.rating` / `campers.review_count` are recomputed by a trigger on
+      `reviews` and can no longer be written by clients: a guard trigger keeps
+      the old values on any direct INSERT or UPDATE of `campers`
+    - Existing campers are reset to the aggregate of their (so far no) reviews
+
+  3. Security
+    - Enable RLS on `reviews`
+    - Anyone can read reviews
+    - Customers can review their own booking once it is completed
+    - No UPDATE/DELETE policies: reviews are immutable for clients
+*/
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid UNIQUE NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  camper_id uuid NOT NULL REFERENCES campers(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment text NOT NULL DEFAULT '' CHECK (char_length(comment) <= 2000),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+-- Policy: reviews are public
+CREATE POLICY "Anyone can read reviews"
+  ON reviews
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Policy: customers review their own completed stays
+CREATE POLICY "Customers can review own completed bookings"
+  ON reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    customer_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = reviews.booking_id
+        AND bookings.customer_id = auth.uid()
+        AND bookings.camper_id = reviews.camper_id
+        AND bookings.status = 'completed'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_reviews_camper_created ON reviews(camper_id, created_at DESC);
+
+-- Recompute the aggregate rating of a camper from its reviews
+CREATE OR REPLACE FUNCTION refresh_camper_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_camper_id uuid := COALESCE(NEW.camper_id, OLD.camper_id);
+BEGIN
+  UPDATE campers
+  SET
+    rating = COALESCE((SELECT round(avg(rating), 2) FROM reviews WHERE camper_id = v_camper_id), 0),
+    review_count = (SELECT count(*) FROM reviews WHERE camper_id = v_camper_id)
+  WHERE id = v_camper_id;
+  RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_camper_rating_on_review
+  AFTER INSERT OR UPDATE OR DELETE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_camper_rating();
+
+-- Replace the static seed numbers with the real aggregates before the guard is in place
+UPDATE campers
+SET
+  rating = COALESCE((SELECT round(avg(r.rating), 2) FROM reviews r WHERE r.camper_id = campers.id), 0),
+  review_count = (SELECT count(*) FROM reviews r WHERE r.camper_id = campers.id);
+
+-- Only refresh_camper_rating() (running nested inside the reviews trigger)
+-- may change the aggregates; direct writes keep the stored values
+CREATE OR REPLACE FUNCTION protect_camper_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.rating := 0;
+      NEW.review_count := 0;
+    ELSE
+      NEW.rating := OLD.rating;
+      NEW.review_count := OLD.review_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_campers_rating
+  BEFORE INSERT OR UPDATE ON campers
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_camper_rating();
+
+COMMENT ON TABLE reviews IS 'Post-trip reviews, one per completed booking';
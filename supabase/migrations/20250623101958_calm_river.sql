@@ -0,0 +1,176 @@
+/*
+  # Customer-owner messaging
+
+  1. New Tables
+    - `conversations`
+      - `id` (uuid, primary key)
+      - `camper_id` (uuid) - the camper the conversation is about
+      - `booking_id` (uuid, nullable) - set when the conversation is about a booking
+      - `customer_id` (uuid) - references users.id
+      - `owner_id` (uuid) - owner of the camper, references users.id
+      - `last_message_at` (timestamp) - bumped on every new message, used for inbox order
+      - `created_at` (timestamp)
+    - `messages`
+      - `id` (uuid, primary key)
+      - `conversation_id` (uuid) - references conversations.id
+      - `sender_id` (uuid) - references users.id
+      - `body` (text) - 1 to 4000 characters
+      - `read_at` (timestamp, nullable) - when the recipient read it
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `mark_conversation_read(conversation_id)` - marks the other party's messages as read
+
+  3. Security
+    - Enable RLS on both tables, visible only to the two parties
+    - Customers start conversations about a camper with its owner
+    - Parties send messages as themselves
+    - No UPDATE policy on `messages`: read receipts only go through the RPC
+
+  4. Realtime
+    - `messages` is added to the `supabase_realtime` publication; RLS decides
+      which subscribers receive a row
+*/
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  camper_id uuid NOT NULL REFERENCES campers(id) ON DELETE CASCADE,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  customer_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  last_message_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  CHECK (customer_id <> owner_id)
+);
+
+-- One camper conversation per customer, plus one per booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_camper_customer
+  ON conversations(camper_id, customer_id) WHERE booking_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_booking
+  ON conversations(booking_id) WHERE booking_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_conversations_customer ON conversations(customer_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversations_owner ON conversations(owner_id, last_message_at DESC);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (char_length(body) BETWEEN 1 AND 4000),
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_unread ON messages(conversation_id) WHERE read_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+-- Policy: both parties see the conversation
+CREATE POLICY "Parties can read own conversations"
+  ON conversations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IN (customer_id, owner_id));
+
+-- Policy: customers contact the owner of a camper
+CREATE POLICY "Customers can start conversations"
+  ON conversations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    customer_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM campers
+      WHERE campers.id = conversations.camper_id
+        AND campers.owner_id = conversations.owner_id
+    ) AND
+    (
+      booking_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.id = conversations.booking_id
+          AND bookings.customer_id = auth.uid()
+          AND bookings.camper_id = conversations.camper_id
+      )
+    )
+  );
+
+-- Policy: messages are visible to the conversation parties
+CREATE POLICY "Parties can read messages"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = messages.conversation_id
+        AND auth.uid() IN (conversations.customer_id, conversations.owner_id)
+    )
+  );
+
+-- Policy: parties send messages as themselves
+CREATE POLICY "Parties can send messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid() AND
+    read_at IS NULL AND
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = messages.conversation_id
+        AND auth.uid() IN (conversations.customer_id, conversations.owner_id)
+    )
+  );
+
+-- Keep the inbox ordered by latest activity
+CREATE OR REPLACE FUNCTION bump_conversation_last_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE conversations SET last_message_at = NEW.created_at WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER bump_conversations_last_message
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_conversation_last_message();
+
+-- Mark every message of the other party in a conversation as read
+CREATE OR REPLACE FUNCTION mark_conversation_read(p_conversation_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE id = p_conversation_id AND auth.uid() IN (customer_id, owner_id)
+  ) THEN
+    RAISE EXCEPTION 'Not a party of this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE messages
+  SET read_at = now()
+  WHERE conversation_id = p_conversation_id
+    AND sender_id <> auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_conversation_read(uuid) TO authenticated;
+
+-- Live delivery
+ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+
+COMMENT ON TABLE conversations IS 'Customer-owner conversations about a camper or a booking';
+COMMENT ON TABLE messages IS 'Messages of a conversation, delivered live via Realtime';
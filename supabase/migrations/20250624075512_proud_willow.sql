@@ -0,0 +1,47 @@
+/*
+  # Favourite campers
+
+  1. New Tables
+    - `favorites`
+      - `user_id` (uuid) - references users.id
+      - `camper_id` (uuid) - references campers.id
+      - `created_at` (timestamp)
+      - primary key (`user_id`, `camper_id`), so merging the same camper twice is a no-op
+
+  2. Security
+    - Enable RLS on `favorites`
+    - Users read, add and remove only their own favourites
+*/
+
+CREATE TABLE IF NOT EXISTS favorites (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  camper_id uuid NOT NULL REFERENCES campers(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, camper_id)
+);
+
+-- Enable RLS
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
+
+-- Policy: users read own favourites
+CREATE POLICY "Users can read own favorites"
+  ON favorites
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policy: users add own favourites
+CREATE POLICY "Users can add own favorites"
+  ON favorites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: users remove own favourites
+CREATE POLICY "Users can remove own favorites"
+  ON favorites
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_favorites_camper ON favorites(camper_id);
@@ -0,0 +1,31 @@
+/*
+  # Price at the time a camper was saved as favourite
+
+  1. Changes
+    - `favorites.saved_price` (numeric) - nightly price of the camper when it was
+      favourited, so the favourites page can show price changes since saving
+    - Filled in by a trigger from `campers.price`, clients cannot set it
+*/
+
+ALTER TABLE favorites
+  ADD COLUMN IF NOT EXISTS saved_price numeric(10,2);
+
+-- Existing favourites start tracking from the current price
+UPDATE favorites
+SET saved_price = campers.price
+FROM campers
+WHERE campers.id = favorites.camper_id
+  AND favorites.saved_price IS NULL;
+
+CREATE OR REPLACE FUNCTION set_favorite_saved_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.saved_price := (SELECT price FROM campers WHERE id = NEW.camper_id);
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_favorites_saved_price
+  BEFORE INSERT ON favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION set_favorite_saved_price();
@@ -0,0 +1,113 @@
+/*
+  # Editable user profiles
+
+  1. Changes
+    - `users.phone` (text, nullable) - contact number, digits and spaces with an optional leading +
+    - `users.bio` (text, nullable) - short introduction shown to hosts and guests
+    - `users.preferred_language` (text) - 'sk', 'cs', 'en' or 'de', defaults to 'sk'
+
+  2. Constraints
+    - Name 2–80 characters after trimming
+    - Bio at most 500 characters
+    - Avatar must be an https URL
+    - Existing rows are not re-checked (NOT VALID), every insert and update is
+
+  3. Security
+    - "Users can update own data" now also has a WITH CHECK, so a user cannot
+      move their row to another id
+    - Trigger `protect_user_fields` keeps email, role, rating and review_count
+      unchanged on updates coming from the API
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS phone text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS bio text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS preferred_language text NOT NULL DEFAULT 'sk';
+
+ALTER TABLE users
+  ADD CONSTRAINT users_name_length
+  CHECK (char_length(btrim(name)) BETWEEN 2 AND 80) NOT VALID;
+
+ALTER TABLE users
+  ADD CONSTRAINT users_phone_format
+  CHECK (phone IS NULL OR phone ~ '^\+?[0-9][0-9 ]{5,19}$') NOT VALID;
+
+ALTER TABLE users
+  ADD CONSTRAINT users_bio_length
+  CHECK (bio IS NULL OR char_length(bio) <= 500) NOT VALID;
+
+ALTER TABLE users
+  ADD CONSTRAINT users_avatar_url
+  CHECK (avatar IS NULL OR avatar ~ '^https://') NOT VALID;
+
+ALTER TABLE users
+  ADD CONSTRAINT users_preferred_language
+  CHECK (preferred_language IN ('sk', 'cs', 'en', 'de'));
+
+-- Policy: users update only their own row, and keep it theirs
+DROP POLICY IF EXISTS "Users can update own data" ON users;
+
+CREATE POLICY "Users can update own data"
+  ON users
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- Account fields are not part of the editable profile; nested trigger writes
+-- (e.g. future rating aggregates) are left alone
+CREATE OR REPLACE FUNCTION protect_user_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    NEW.email := OLD.email;
+    NEW.role := OLD.role;
+    NEW.rating := OLD.rating;
+    NEW.review_count := OLD.review_count;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_users_fields
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_fields();
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'avatars',
+  'avatars',
+  true,
+  2097152,
+  ARRAY['image/jpeg', 'image/webp', 'image/png']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Policy: avatars are public
+CREATE POLICY "Anyone can view avatars"
+  ON storage.objects
+  FOR SELECT
+  TO public
+  USING (bucket_id = 'avatars');
+
+-- Policy: users upload into their own folder
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Policy: users delete files in their own folder
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+COMMENT ON COLUMN users.preferred_language IS 'UI and e-mail language: sk, cs, en or de';
@@ -0,0 +1,106 @@
+/*
+  # Server-side camper search
+
+  1. Functions
+    - `camper_sort_key(camper, sort)` - ascending sort key of a camper for one of the
+      sort options of the results list (descending options are negated)
+    - `search_campers(...)` - published campers matching the text, price, capacity,
+      type, feature and travel date filters, in result order; returns `campers`
+      rows, so PostgREST can embed the owner and apply limit/count on top
+      - keyset paging: `p_after_id` is the last camper of the previous page, the
+        next page starts right after its sort key (ties by newest, then id)
+      - SECURITY DEFINER like `get_campers_unavailability`, because the travel date
+        filter has to see other customers' bookings; only published campers are returned
+*/
+
+CREATE OR REPLACE FUNCTION camper_sort_key(c campers, p_sort text)
+RETURNS numeric[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_sort
+    WHEN 'priceAsc' THEN ARRAY[c.price, 0]
+    WHEN 'priceDesc' THEN ARRAY[-c.price, 0]
+    WHEN 'rating' THEN ARRAY[-c.rating, -c.review_count::numeric]
+    WHEN 'reviewCount' THEN ARRAY[-c.review_count::numeric, 0]
+    WHEN 'capacity' THEN ARRAY[-c.capacity::numeric, 0]
+    ELSE ARRAY[0, 0]::numeric[]
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_campers(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_features text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_after_id uuid DEFAULT NULL
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pattern AS (
+    -- The query is matched literally, % and _ typed by the user are not wildcards
+    SELECT '%' || replace(replace(replace(btrim(coalesce(p_query, '')), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  )
+  SELECT c.*
+  FROM campers c, pattern
+  WHERE c.is_published
+    AND (
+      btrim(coalesce(p_query, '')) = ''
+      OR c.title ILIKE pattern.value
+      OR c.location ILIKE pattern.value
+      OR c.description ILIKE pattern.value
+    )
+    AND (p_min_price IS NULL OR c.price >= p_min_price)
+    AND (p_max_price IS NULL OR c.price <= p_max_price)
+    AND c.capacity >= coalesce(p_min_capacity, 0)
+    AND (coalesce(p_type, '') = '' OR c.type = p_type)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(p_features) AS feature
+      WHERE NOT coalesce((c.features ->> feature)::boolean, false)
+    )
+    -- Free for every night of [start, end): no active booking or owner block overlaps
+    AND (
+      p_start_date IS NULL OR p_end_date IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.camper_id = c.id
+            AND b.status IN ('pending', 'confirmed')
+            AND b.start_date < p_end_date
+            AND b.end_date > p_start_date
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM camper_blocks cb
+          WHERE cb.camper_id = c.id
+            AND cb.start_date < p_end_date
+            AND cb.end_date > p_start_date
+        )
+      )
+    )
+    AND (
+      p_after_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM campers a
+        WHERE a.id = p_after_id
+          AND (
+            camper_sort_key(c, p_sort) > camper_sort_key(a, p_sort)
+            OR (
+              camper_sort_key(c, p_sort) = camper_sort_key(a, p_sort)
+              AND (c.created_at < a.created_at OR (c.created_at = a.created_at AND c.id > a.id))
+            )
+          )
+      )
+    )
+  ORDER BY camper_sort_key(c, p_sort), c.created_at DESC, c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_campers(text, numeric, numeric, integer, text, text[], date, date, text, uuid) TO anon, authenticated;
@@ -0,0 +1,169 @@
+/*
+  # Camper coordinates and radius search
+
+  1. Changes
+    - `campers.latitude`, `campers.longitude` - pickup point geocoded from the
+      owner-entered location when the listing is created; both set or both null,
+      existing listings stay null until their owner saves the location again
+    - index on the coordinates of published campers for the radius bounding box
+
+  2. Functions
+    - `distance_km(lat1, lng1, lat2, lng2)` - great-circle (haversine) distance
+    - `camper_sort_key` takes the searched place, for the new `distance` sort
+      (campers without coordinates last)
+    - `search_campers` gains `p_lat`, `p_lng`, `p_radius_km`: only campers within
+      the radius of the place, when all three are given
+*/
+
+ALTER TABLE campers
+  ADD COLUMN IF NOT EXISTS latitude double precision,
+  ADD COLUMN IF NOT EXISTS longitude double precision;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'campers_coordinates_valid') THEN
+    ALTER TABLE campers ADD CONSTRAINT campers_coordinates_valid CHECK (
+      (latitude IS NULL AND longitude IS NULL)
+      OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS campers_coordinates_idx
+  ON campers (latitude, longitude)
+  WHERE is_published AND latitude IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION distance_km(
+  lat1 double precision,
+  lng1 double precision,
+  lat2 double precision,
+  lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371.0088 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2)
+    + cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+DROP FUNCTION IF EXISTS search_campers(text, numeric, numeric, integer, text, text[], date, date, text, uuid);
+DROP FUNCTION IF EXISTS camper_sort_key(campers, text);
+
+CREATE OR REPLACE FUNCTION camper_sort_key(
+  c campers,
+  p_sort text,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL
+)
+RETURNS numeric[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_sort = 'priceAsc' THEN ARRAY[c.price, 0]
+    WHEN p_sort = 'priceDesc' THEN ARRAY[-c.price, 0]
+    WHEN p_sort = 'rating' THEN ARRAY[-c.rating, -c.review_count::numeric]
+    WHEN p_sort = 'reviewCount' THEN ARRAY[-c.review_count::numeric, 0]
+    WHEN p_sort = 'capacity' THEN ARRAY[-c.capacity::numeric, 0]
+    -- Without a searched place the distance sort falls back to newest
+    WHEN p_sort = 'distance' AND p_lat IS NOT NULL AND p_lng IS NOT NULL THEN ARRAY[
+      CASE WHEN c.latitude IS NULL THEN 1 ELSE 0 END,
+      coalesce(round(distance_km(p_lat, p_lng, c.latitude, c.longitude)::numeric, 3), 0)
+    ]
+    ELSE ARRAY[0, 0]::numeric[]
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_campers(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_features text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_after_id uuid DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pattern AS (
+    -- The query is matched literally, % and _ typed by the user are not wildcards
+    SELECT '%' || replace(replace(replace(btrim(coalesce(p_query, '')), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  )
+  SELECT c.*
+  FROM campers c, pattern
+  WHERE c.is_published
+    AND (
+      btrim(coalesce(p_query, '')) = ''
+      OR c.title ILIKE pattern.value
+      OR c.location ILIKE pattern.value
+      OR c.description ILIKE pattern.value
+    )
+    -- Radius around the searched place: cheap bounding box first, exact distance second
+    AND (
+      p_lat IS NULL OR p_lng IS NULL OR coalesce(p_radius_km, 0) <= 0
+      OR (
+        c.latitude BETWEEN p_lat - p_radius_km / 111.045 AND p_lat + p_radius_km / 111.045
+        AND distance_km(p_lat, p_lng, c.latitude, c.longitude) <= p_radius_km
+      )
+    )
+    AND (p_min_price IS NULL OR c.price >= p_min_price)
+    AND (p_max_price IS NULL OR c.price <= p_max_price)
+    AND c.capacity >= coalesce(p_min_capacity, 0)
+    AND (coalesce(p_type, '') = '' OR c.type = p_type)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(p_features) AS feature
+      WHERE NOT coalesce((c.features ->> feature)::boolean, false)
+    )
+    -- Free for every night of [start, end): no active booking or owner block overlaps
+    AND (
+      p_start_date IS NULL OR p_end_date IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.camper_id = c.id
+            AND b.status IN ('pending', 'confirmed')
+            AND b.start_date < p_end_date
+            AND b.end_date > p_start_date
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM camper_blocks cb
+          WHERE cb.camper_id = c.id
+            AND cb.start_date < p_end_date
+            AND cb.end_date > p_start_date
+        )
+      )
+    )
+    AND (
+      p_after_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM campers a
+        WHERE a.id = p_after_id
+          AND (
+            camper_sort_key(c, p_sort, p_lat, p_lng) > camper_sort_key(a, p_sort, p_lat, p_lng)
+            OR (
+              camper_sort_key(c, p_sort, p_lat, p_lng) = camper_sort_key(a, p_sort, p_lat, p_lng)
+              AND (c.created_at < a.created_at OR (c.created_at = a.created_at AND c.id > a.id))
+            )
+          )
+      )
+    )
+  ORDER BY camper_sort_key(c, p_sort, p_lat, p_lng), c.created_at DESC, c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_campers(
+  text, numeric, numeric, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision
+) TO anon, authenticated;
@@ -0,0 +1,202 @@
+/*
+  # Accent-insensitive, ranked full-text search
+
+  1. Extensions
+    - `unaccent`, wrapped in the immutable `f_unaccent()` so it can be used in a
+      generated column
+
+  2. Changes
+    - `campers.search_vector` - generated tsvector of the folded title (weight A),
+      location (B) and description (C), with a GIN index
+
+  3. Functions
+    - `search_tokens(query)` - distinct lower-case, unaccented words of a query
+    - `search_tsquery(tokens)` - every word as a prefix: "kosi van" finds
+      "Košice ... Van"
+    - `camper_search_rank(vector, tokens)` - each word scores the best field it
+      starts a word in (title 10, location 4, description 2); the client computes
+      the same score in src/lib/textSearch.ts to keep pages in server order
+    - `camper_sort_key` gets the tokens for the new `relevance` sort (the default,
+      newest first when there is no search text)
+    - `search_campers` matches the text with the tsquery instead of ILIKE
+*/
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION f_unaccent(text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+STRICT
+AS $$
+  SELECT extensions.unaccent('extensions.unaccent'::regdictionary, $1);
+$$;
+
+ALTER TABLE campers
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', f_unaccent(coalesce(title, ''))), 'A')
+    || setweight(to_tsvector('simple', f_unaccent(coalesce(location, ''))), 'B')
+    || setweight(to_tsvector('simple', f_unaccent(coalesce(description, ''))), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS campers_search_vector_idx ON campers USING gin (search_vector);
+
+CREATE OR REPLACE FUNCTION search_tokens(p_query text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(array_agg(DISTINCT token), '{}')
+  FROM regexp_split_to_table(lower(f_unaccent(coalesce(p_query, ''))), '[^[:alnum:]]+') AS token
+  WHERE token <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION search_tsquery(p_tokens text[])
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN cardinality(p_tokens) = 0 THEN NULL
+    ELSE to_tsquery('simple', array_to_string(
+      ARRAY(SELECT quote_literal(token) || ':*' FROM unnest(p_tokens) AS token),
+      ' & '
+    ))
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION camper_search_rank(p_vector tsvector, p_tokens text[])
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(sum(
+    CASE
+      WHEN ts_filter(p_vector, '{a}') @@ to_tsquery('simple', quote_literal(token) || ':*') THEN 10
+      WHEN ts_filter(p_vector, '{b}') @@ to_tsquery('simple', quote_literal(token) || ':*') THEN 4
+      WHEN ts_filter(p_vector, '{c}') @@ to_tsquery('simple', quote_literal(token) || ':*') THEN 2
+      ELSE 0
+    END
+  ), 0)::integer
+  FROM unnest(p_tokens) AS token;
+$$;
+
+DROP FUNCTION IF EXISTS search_campers(
+  text, numeric, numeric, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision
+);
+DROP FUNCTION IF EXISTS camper_sort_key(campers, text, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION camper_sort_key(
+  c campers,
+  p_sort text,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_tokens text[] DEFAULT '{}'
+)
+RETURNS numeric[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_sort = 'priceAsc' THEN ARRAY[c.price, 0]
+    WHEN p_sort = 'priceDesc' THEN ARRAY[-c.price, 0]
+    WHEN p_sort = 'rating' THEN ARRAY[-c.rating, -c.review_count::numeric]
+    WHEN p_sort = 'reviewCount' THEN ARRAY[-c.review_count::numeric, 0]
+    WHEN p_sort = 'capacity' THEN ARRAY[-c.capacity::numeric, 0]
+    -- Without a searched place the distance sort falls back to newest
+    WHEN p_sort = 'distance' AND p_lat IS NOT NULL AND p_lng IS NOT NULL THEN ARRAY[
+      CASE WHEN c.latitude IS NULL THEN 1 ELSE 0 END,
+      coalesce(round(distance_km(p_lat, p_lng, c.latitude, c.longitude)::numeric, 3), 0)
+    ]
+    WHEN p_sort = 'relevance' THEN ARRAY[-camper_search_rank(c.search_vector, p_tokens)::numeric, 0]
+    ELSE ARRAY[0, 0]::numeric[]
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_campers(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_features text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_after_id uuid DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT tokens, search_tsquery(tokens) AS query
+    FROM search_tokens(p_query) AS tokens
+  )
+  SELECT c.*
+  FROM campers c, search
+  WHERE c.is_published
+    AND (search.query IS NULL OR c.search_vector @@ search.query)
+    -- Radius around the searched place: cheap bounding box first, exact distance second
+    AND (
+      p_lat IS NULL OR p_lng IS NULL OR coalesce(p_radius_km, 0) <= 0
+      OR (
+        c.latitude BETWEEN p_lat - p_radius_km / 111.045 AND p_lat + p_radius_km / 111.045
+        AND distance_km(p_lat, p_lng, c.latitude, c.longitude) <= p_radius_km
+      )
+    )
+    AND (p_min_price IS NULL OR c.price >= p_min_price)
+    AND (p_max_price IS NULL OR c.price <= p_max_price)
+    AND c.capacity >= coalesce(p_min_capacity, 0)
+    AND (coalesce(p_type, '') = '' OR c.type = p_type)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(p_features) AS feature
+      WHERE NOT coalesce((c.features ->> feature)::boolean, false)
+    )
+    -- Free for every night of [start, end): no active booking or owner block overlaps
+    AND (
+      p_start_date IS NULL OR p_end_date IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.camper_id = c.id
+            AND b.status IN ('pending', 'confirmed')
+            AND b.start_date < p_end_date
+            AND b.end_date > p_start_date
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM camper_blocks cb
+          WHERE cb.camper_id = c.id
+            AND cb.start_date < p_end_date
+            AND cb.end_date > p_start_date
+        )
+      )
+    )
+    AND (
+      p_after_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM campers a
+        WHERE a.id = p_after_id
+          AND (
+            camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) > camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+            OR (
+              camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) = camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+              AND (c.created_at < a.created_at OR (c.created_at = a.created_at AND c.id > a.id))
+            )
+          )
+      )
+    )
+  ORDER BY camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens), c.created_at DESC, c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_campers(
+  text, numeric, numeric, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision
+) TO anon, authenticated;
@@ -0,0 +1,41 @@
+/*
+  # Location suggestions from published listings
+
+  1. Functions
+    - `suggest_locations(query, limit)` - cities and regions that published campers
+      are in, with the number of campers in each, for the search autocomplete
+      - `location` is free text like "Žilina, Slovensko": the first comma-separated
+        part counts as the city, the following parts as regions
+      - matched like the camper search (unaccented word prefixes), most listings first
+*/
+
+CREATE OR REPLACE FUNCTION suggest_locations(p_query text, p_limit integer DEFAULT 6)
+RETURNS TABLE (name text, kind text, listing_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH parts AS (
+    SELECT c.id, btrim(part.value) AS name, part.ordinal
+    FROM campers c,
+      unnest(string_to_array(c.location, ',')) WITH ORDINALITY AS part(value, ordinal)
+    WHERE c.is_published
+  ),
+  search AS (
+    SELECT search_tsquery(search_tokens(p_query)) AS query
+  )
+  SELECT
+    parts.name,
+    CASE WHEN min(parts.ordinal) = 1 THEN 'city' ELSE 'region' END AS kind,
+    count(DISTINCT parts.id)::integer AS listing_count
+  FROM parts, search
+  WHERE parts.name <> ''
+    AND search.query IS NOT NULL
+    AND to_tsvector('simple', f_unaccent(parts.name)) @@ search.query
+  GROUP BY parts.name
+  ORDER BY listing_count DESC, parts.name
+  LIMIT least(greatest(coalesce(p_limit, 6), 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION suggest_locations(text, integer) TO anon, authenticated;
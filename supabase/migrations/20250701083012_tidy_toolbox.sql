@@ -0,0 +1,213 @@
+/*
+  # Amenity catalogue
+
+  1. New Tables
+    - `amenities`
+      - `key` (text, primary key) - stable identifier used in listings and search links
+      - `labels` (jsonb) - label per language code, English is required
+      - `icon` (text) - lucide icon name, the client falls back to a check mark
+      - `category` (text) - group in the listing form, filters and camper detail
+      - `sort_order` (integer) - order inside the category
+
+  2. Changes
+    - `campers.amenities` now holds amenity keys from the catalogue, replacing the
+      `features` flags and the free-text amenities
+      - former flags and free-text entries matching a catalogue label (any
+        language, ignoring case and accents) are converted to keys
+      - free text without a match is kept in `legacy_amenities` for review and is
+        no longer shown
+    - unknown keys are rejected by a trigger; GIN index for the amenity filter
+
+  3. Security
+    - Enable RLS on `amenities`, everyone can read the catalogue; it is edited
+      through migrations or the dashboard
+
+  4. Functions
+    - `search_campers` filters with `p_amenities` (all of them required)
+*/
+
+CREATE TABLE IF NOT EXISTS amenities (
+  key text PRIMARY KEY CHECK (key ~ '^[a-z][a-zA-Z0-9]*$'),
+  labels jsonb NOT NULL CHECK (labels ? 'en'),
+  icon text NOT NULL DEFAULT 'check',
+  category text NOT NULL CHECK (category IN ('kitchen', 'bathroom', 'comfort', 'power', 'outdoor', 'driving', 'policies')),
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE amenities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read amenities"
+  ON amenities
+  FOR SELECT
+  TO public
+  USING (true);
+
+INSERT INTO amenities (key, labels, icon, category, sort_order) VALUES
+  ('kitchen', '{"sk": "Kuchynka", "en": "Kitchen"}', 'chef-hat', 'kitchen', 10),
+  ('fridge', '{"sk": "Chladnička", "en": "Fridge"}', 'refrigerator', 'kitchen', 20),
+  ('bathroom', '{"sk": "Kúpeľňa", "en": "Bathroom"}', 'droplets', 'bathroom', 10),
+  ('shower', '{"sk": "Sprcha", "en": "Shower"}', 'shower-head', 'bathroom', 20),
+  ('toilet', '{"sk": "Toaleta", "en": "Toilet"}', 'bath', 'bathroom', 30),
+  ('heating', '{"sk": "Kúrenie", "en": "Heating"}', 'flame', 'comfort', 10),
+  ('airConditioning', '{"sk": "Klimatizácia", "en": "Air Conditioning"}', 'snowflake', 'comfort', 20),
+  ('wifi', '{"sk": "WiFi", "en": "WiFi"}', 'wifi', 'comfort', 30),
+  ('tv', '{"sk": "Televízor", "en": "TV"}', 'tv', 'comfort', 40),
+  ('solar', '{"sk": "Solárne panely", "en": "Solar Power"}', 'sun', 'power', 10),
+  ('generator', '{"sk": "Generátor", "en": "Generator"}', 'zap', 'power', 20),
+  ('awning', '{"sk": "Markíza", "en": "Awning"}', 'tent', 'outdoor', 10),
+  ('bikeRack', '{"sk": "Nosič bicyklov", "en": "Bike Rack"}', 'bike', 'outdoor', 20),
+  ('outdoorFurniture', '{"sk": "Kempingový nábytok", "en": "Outdoor Furniture"}', 'armchair', 'outdoor', 30),
+  ('gps', '{"sk": "Navigácia", "en": "GPS Navigation"}', 'navigation', 'driving', 10),
+  ('reversingCamera', '{"sk": "Cúvacia kamera", "en": "Reversing Camera"}', 'camera', 'driving', 20),
+  ('petFriendly', '{"sk": "Zvieratá povolené", "en": "Pet Friendly"}', 'paw-print', 'policies', 10)
+ON CONFLICT (key) DO NOTHING;
+
+-- Convert flags and free text to catalogue keys
+ALTER TABLE campers RENAME COLUMN amenities TO legacy_amenities;
+ALTER TABLE campers ADD COLUMN amenities text[] NOT NULL DEFAULT '{}';
+
+WITH matched AS (
+  SELECT c.id, array_agg(DISTINCT a.key ORDER BY a.key) AS keys
+  FROM campers c
+  JOIN amenities a
+    ON coalesce((c.features ->> a.key)::boolean, false)
+    OR EXISTS (
+      SELECT 1
+      FROM unnest(c.legacy_amenities) AS amenity, jsonb_each_text(a.labels) AS label
+      WHERE lower(f_unaccent(btrim(amenity))) = lower(f_unaccent(label.value))
+    )
+  GROUP BY c.id
+)
+UPDATE campers c
+SET amenities = matched.keys
+FROM matched
+WHERE matched.id = c.id;
+
+UPDATE campers c
+SET legacy_amenities = ARRAY(
+  SELECT amenity
+  FROM unnest(c.legacy_amenities) AS amenity
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM amenities a, jsonb_each_text(a.labels) AS label
+    WHERE lower(f_unaccent(btrim(amenity))) = lower(f_unaccent(label.value))
+  )
+);
+
+CREATE OR REPLACE FUNCTION check_camper_amenities()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  unknown_key text;
+BEGIN
+  SELECT amenity_key INTO unknown_key
+  FROM unnest(NEW.amenities) AS amenity_key
+  WHERE NOT EXISTS (SELECT 1 FROM amenities a WHERE a.key = amenity_key)
+  LIMIT 1;
+
+  IF unknown_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown amenity: %', unknown_key USING ERRCODE = '23503';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_camper_amenities ON campers;
+CREATE TRIGGER check_camper_amenities
+  BEFORE INSERT OR UPDATE OF amenities ON campers
+  FOR EACH ROW
+  EXECUTE FUNCTION check_camper_amenities();
+
+CREATE INDEX IF NOT EXISTS campers_amenities_idx ON campers USING gin (amenities);
+
+ALTER TABLE campers DROP COLUMN IF EXISTS features;
+
+DROP FUNCTION IF EXISTS search_campers(
+  text, numeric, numeric, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision
+);
+
+CREATE OR REPLACE FUNCTION search_campers(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_after_id uuid DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT tokens, search_tsquery(tokens) AS query
+    FROM search_tokens(p_query) AS tokens
+  )
+  SELECT c.*
+  FROM campers c, search
+  WHERE c.is_published
+    AND (search.query IS NULL OR c.search_vector @@ search.query)
+    -- Radius around the searched place: cheap bounding box first, exact distance second
+    AND (
+      p_lat IS NULL OR p_lng IS NULL OR coalesce(p_radius_km, 0) <= 0
+      OR (
+        c.latitude BETWEEN p_lat - p_radius_km / 111.045 AND p_lat + p_radius_km / 111.045
+        AND distance_km(p_lat, p_lng, c.latitude, c.longitude) <= p_radius_km
+      )
+    )
+    AND (p_min_price IS NULL OR c.price >= p_min_price)
+    AND (p_max_price IS NULL OR c.price <= p_max_price)
+    AND c.capacity >= coalesce(p_min_capacity, 0)
+    AND (coalesce(p_type, '') = '' OR c.type = p_type)
+    AND c.amenities @> coalesce(p_amenities, '{}')
+    -- Free for every night of [start, end): no active booking or owner block overlaps
+    AND (
+      p_start_date IS NULL OR p_end_date IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.camper_id = c.id
+            AND b.status IN ('pending', 'confirmed')
+            AND b.start_date < p_end_date
+            AND b.end_date > p_start_date
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM camper_blocks cb
+          WHERE cb.camper_id = c.id
+            AND cb.start_date < p_end_date
+            AND cb.end_date > p_start_date
+        )
+      )
+    )
+    AND (
+      p_after_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM campers a
+        WHERE a.id = p_after_id
+          AND (
+            camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) > camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+            OR (
+              camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) = camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+              AND (c.created_at < a.created_at OR (c.created_at = a.created_at AND c.id > a.id))
+            )
+          )
+      )
+    )
+  ORDER BY camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens), c.created_at DESC, c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_campers(
+  text, numeric, numeric, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision
+) TO anon, authenticated;
@@ -0,0 +1,162 @@
+/*
+  # Facet counts for the search filters
+
+  1. Functions
+    - `filter_campers(...)` - published campers matching every search filter, the
+      shared WHERE clause of the results and the facet counts; internal, only
+      callable from the SECURITY DEFINER functions below
+    - `search_campers` reads from `filter_campers` and keeps its signature
+    - `search_facets(...)` - how many campers each filter option would return
+      given the other active filters:
+      - `type` facet ignores the selected type
+      - `amenity` facet counts campers with all selected amenities plus that one
+*/
+
+CREATE OR REPLACE FUNCTION filter_campers(
+  p_query text,
+  p_min_price numeric,
+  p_max_price numeric,
+  p_min_capacity integer,
+  p_type text,
+  p_amenities text[],
+  p_start_date date,
+  p_end_date date,
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_km double precision
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT search_tsquery(search_tokens(p_query)) AS query
+  )
+  SELECT c.*
+  FROM campers c, search
+  WHERE c.is_published
+    AND (search.query IS NULL OR c.search_vector @@ search.query)
+    -- Radius around the searched place: cheap bounding box first, exact distance second
+    AND (
+      p_lat IS NULL OR p_lng IS NULL OR coalesce(p_radius_km, 0) <= 0
+      OR (
+        c.latitude BETWEEN p_lat - p_radius_km / 111.045 AND p_lat + p_radius_km / 111.045
+        AND distance_km(p_lat, p_lng, c.latitude, c.longitude) <= p_radius_km
+      )
+    )
+    AND (p_min_price IS NULL OR c.price >= p_min_price)
+    AND (p_max_price IS NULL OR c.price <= p_max_price)
+    AND c.capacity >= coalesce(p_min_capacity, 0)
+    AND (coalesce(p_type, '') = '' OR c.type = p_type)
+    AND c.amenities @> coalesce(p_amenities, '{}')
+    -- Free for every night of [start, end): no active booking or owner block overlaps
+    AND (
+      p_start_date IS NULL OR p_end_date IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.camper_id = c.id
+            AND b.status IN ('pending', 'confirmed')
+            AND b.start_date < p_end_date
+            AND b.end_date > p_start_date
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM camper_blocks cb
+          WHERE cb.camper_id = c.id
+            AND cb.start_date < p_end_date
+            AND cb.end_date > p_start_date
+        )
+      )
+    );
+$$;
+
+-- Without the definer's rights the travel date filter would only see the caller's bookings
+REVOKE EXECUTE ON FUNCTION filter_campers(
+  text, numeric, numeric, integer, text, text[], date, date,
+  double precision, double precision, double precision
+) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION search_campers(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_after_id uuid DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT search_tokens(p_query) AS tokens
+  )
+  SELECT c.*
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_min_capacity, p_type, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km
+  ) c, search
+  WHERE p_after_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM campers a
+      WHERE a.id = p_after_id
+        AND (
+          camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) > camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+          OR (
+            camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) = camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+            AND (c.created_at < a.created_at OR (c.created_at = a.created_at AND c.id > a.id))
+          )
+        )
+    )
+  ORDER BY camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens), c.created_at DESC, c.id;
+$$;
+
+CREATE OR REPLACE FUNCTION search_facets(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS TABLE (facet text, value text, match_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'type', c.type, count(*)::integer
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_min_capacity, NULL, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km
+  ) c
+  GROUP BY c.type
+
+  UNION ALL
+
+  SELECT 'amenity', amenity, count(*)::integer
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_min_capacity, p_type, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km
+  ) c, unnest(c.amenities) AS amenity
+  GROUP BY amenity;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_facets(
+  text, numeric, numeric, integer, text, text[], date, date,
+  double precision, double precision, double precision
+) TO anon, authenticated;
@@ -0,0 +1,339 @@
+/*
+  # Price range from the catalogue, price histogram and trip price filter
+
+  1. Functions
+    - `camper_trip_total(camper, start, end)` - total price of a stay with the
+      same rules as `calculateQuote` in src/lib/pricing.ts: seasonal and weekend
+      nightly rates, weekly/monthly discount, cleaning fee and service fee
+    - `camper_filter_price(camper, basis, start, end)` - the price the filter
+      compares: nightly price, or the trip total for basis `trip` with dates
+    - `filter_campers`, `search_campers` and `search_facets` take `p_price_basis`
+      (`night` by default)
+    - `search_price_histogram(...)` - bounds of the price slider over all
+      published campers and how many campers matching the other filters fall
+      in each price bucket
+*/
+
+-- Functions that call filter_campers go first, their bodies are not tracked as dependencies
+DROP FUNCTION IF EXISTS search_facets(
+  text, numeric, numeric, integer, text, text[], date, date,
+  double precision, double precision, double precision
+);
+
+DROP FUNCTION IF EXISTS search_campers(
+  text, numeric, numeric, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision
+);
+
+DROP FUNCTION IF EXISTS filter_campers(
+  text, numeric, numeric, integer, text, text[], date, date,
+  double precision, double precision, double precision
+);
+
+-- Keep in sync with calculateQuote(): rates are rounded per night, the longest
+-- length-of-stay discount wins and the 10 % service fee covers the cleaning fee
+CREATE OR REPLACE FUNCTION camper_trip_total(c campers, p_start_date date, p_end_date date)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH rules AS (
+    SELECT
+      coalesce((c.pricing->>'weekendSurchargePercent')::numeric, 0) AS weekend_percent,
+      coalesce((c.pricing->>'weeklyDiscountPercent')::numeric, 0) AS weekly_percent,
+      coalesce((c.pricing->>'monthlyDiscountPercent')::numeric, 0) AS monthly_percent,
+      round(coalesce((c.pricing->>'cleaningFee')::numeric, 0), 2) AS cleaning_fee
+  ),
+  nights AS (
+    SELECT round(
+      coalesce(season.price, c.price)
+        * CASE
+            WHEN extract(isodow FROM night) IN (5, 6) AND rules.weekend_percent > 0
+              THEN 1 + rules.weekend_percent / 100
+            ELSE 1
+          END,
+      2
+    ) AS rate
+    FROM rules,
+      generate_series(p_start_date, p_end_date - 1, interval '1 day') AS night
+      -- First season covering the night; MM-DD bounds are inclusive and may wrap over new year
+      LEFT JOIN LATERAL (
+        SELECT (s.value->>'price')::numeric AS price
+        FROM jsonb_array_elements(coalesce(c.pricing->'seasonalRates', '[]'::jsonb))
+          WITH ORDINALITY AS s(value, ordinal)
+        WHERE CASE
+          WHEN (s.value->>'startDate') <= (s.value->>'endDate')
+            THEN to_char(night, 'MM-DD') BETWEEN (s.value->>'startDate') AND (s.value->>'endDate')
+          ELSE to_char(night, 'MM-DD') >= (s.value->>'startDate')
+            OR to_char(night, 'MM-DD') <= (s.value->>'endDate')
+        END
+        ORDER BY s.ordinal
+        LIMIT 1
+      ) season ON true
+  ),
+  stay AS (
+    SELECT
+      count(*) AS night_count,
+      sum(nights.rate) AS nights_total
+    FROM nights
+  ),
+  subtotal AS (
+    SELECT
+      stay.nights_total - round(
+        stay.nights_total * CASE
+          WHEN stay.night_count >= 28 AND rules.monthly_percent > 0 THEN rules.monthly_percent
+          WHEN stay.night_count >= 7 AND rules.weekly_percent > 0 THEN rules.weekly_percent
+          ELSE 0
+        END / 100,
+        2
+      ) AS amount,
+      rules.cleaning_fee
+    FROM stay, rules
+    WHERE stay.night_count > 0
+  )
+  SELECT amount + cleaning_fee + round((amount + cleaning_fee) * 0.1, 2)
+  FROM subtotal;
+$$;
+
+CREATE OR REPLACE FUNCTION camper_filter_price(
+  c campers,
+  p_price_basis text,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_price_basis = 'trip' AND p_start_date IS NOT NULL AND p_end_date IS NOT NULL
+      THEN camper_trip_total(c, p_start_date, p_end_date)
+    ELSE c.price
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION filter_campers(
+  p_query text,
+  p_min_price numeric,
+  p_max_price numeric,
+  p_price_basis text,
+  p_min_capacity integer,
+  p_type text,
+  p_amenities text[],
+  p_start_date date,
+  p_end_date date,
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_km double precision
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT search_tsquery(search_tokens(p_query)) AS query
+  )
+  SELECT c.*
+  FROM campers c, search
+  WHERE c.is_published
+    AND (search.query IS NULL OR c.search_vector @@ search.query)
+    -- Radius around the searched place: cheap bounding box first, exact distance second
+    AND (
+      p_lat IS NULL OR p_lng IS NULL OR coalesce(p_radius_km, 0) <= 0
+      OR (
+        c.latitude BETWEEN p_lat - p_radius_km / 111.045 AND p_lat + p_radius_km / 111.045
+        AND distance_km(p_lat, p_lng, c.latitude, c.longitude) <= p_radius_km
+      )
+    )
+    AND (p_min_price IS NULL OR camper_filter_price(c, p_price_basis, p_start_date, p_end_date) >= p_min_price)
+    AND (p_max_price IS NULL OR camper_filter_price(c, p_price_basis, p_start_date, p_end_date) <= p_max_price)
+    AND c.capacity >= coalesce(p_min_capacity, 0)
+    AND (coalesce(p_type, '') = '' OR c.type = p_type)
+    AND c.amenities @> coalesce(p_amenities, '{}')
+    -- Free for every night of [start, end): no active booking or owner block overlaps
+    AND (
+      p_start_date IS NULL OR p_end_date IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.camper_id = c.id
+            AND b.status IN ('pending', 'confirmed')
+            AND b.start_date < p_end_date
+            AND b.end_date > p_start_date
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM camper_blocks cb
+          WHERE cb.camper_id = c.id
+            AND cb.start_date < p_end_date
+            AND cb.end_date > p_start_date
+        )
+      )
+    );
+$$;
+
+-- Without the definer's rights the travel date filter would only see the caller's bookings
+REVOKE EXECUTE ON FUNCTION filter_campers(
+  text, numeric, numeric, text, integer, text, text[], date, date,
+  double precision, double precision, double precision
+) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION search_campers(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_price_basis text DEFAULT 'night',
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_after_id uuid DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT search_tokens(p_query) AS tokens
+  )
+  SELECT c.*
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_price_basis, p_min_capacity, p_type, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km
+  ) c, search
+  WHERE p_after_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM campers a
+      WHERE a.id = p_after_id
+        AND (
+          camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) > camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+          OR (
+            camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) = camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+            AND (c.created_at < a.created_at OR (c.created_at = a.created_at AND c.id > a.id))
+          )
+        )
+    )
+  ORDER BY camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens), c.created_at DESC, c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_campers(
+  text, numeric, numeric, text, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision
+) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION search_facets(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_price_basis text DEFAULT 'night',
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS TABLE (facet text, value text, match_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'type', c.type, count(*)::integer
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_price_basis, p_min_capacity, NULL, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km
+  ) c
+  GROUP BY c.type
+
+  UNION ALL
+
+  SELECT 'amenity', amenity, count(*)::integer
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_price_basis, p_min_capacity, p_type, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km
+  ) c, unnest(c.amenities) AS amenity
+  GROUP BY amenity;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_facets(
+  text, numeric, numeric, text, integer, text, text[], date, date,
+  double precision, double precision, double precision
+) TO anon, authenticated;
+
+-- Whole-unit buckets of equal width between the cheapest and the dearest
+-- published camper, so the slider keeps its scale while other filters change
+CREATE OR REPLACE FUNCTION search_price_histogram(
+  p_query text DEFAULT '',
+  p_price_basis text DEFAULT 'night',
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL,
+  p_buckets integer DEFAULT 20
+)
+RETURNS TABLE (price_from integer, price_to integer, match_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      floor(min(camper_filter_price(c, p_price_basis, p_start_date, p_end_date)))::integer AS low,
+      ceil(max(camper_filter_price(c, p_price_basis, p_start_date, p_end_date)))::integer AS high
+    FROM campers c
+    WHERE c.is_published
+  ),
+  sized AS (
+    SELECT low, high, greatest(ceil((high - low)::numeric / greatest(p_buckets, 1)), 1)::integer AS width
+    FROM bounds
+    WHERE low IS NOT NULL
+  ),
+  layout AS (
+    SELECT low, high, width, greatest(ceil((high - low)::numeric / width)::integer, 1) AS bucket_count
+    FROM sized
+  ),
+  buckets AS (
+    SELECT
+      bucket,
+      layout.low + bucket * layout.width AS price_from,
+      least(layout.low + (bucket + 1) * layout.width, layout.high) AS price_to
+    FROM layout, generate_series(0, layout.bucket_count - 1) AS bucket
+  ),
+  matches AS (
+    SELECT
+      -- The dearest camper sits on the upper edge of the last bucket
+      least(
+        floor((camper_filter_price(c, p_price_basis, p_start_date, p_end_date) - layout.low) / layout.width)::integer,
+        layout.bucket_count - 1
+      ) AS bucket,
+      count(*)::integer AS match_count
+    FROM layout, filter_campers(
+      p_query, NULL, NULL, p_price_basis, p_min_capacity, p_type, p_amenities,
+      p_start_date, p_end_date, p_lat, p_lng, p_radius_km
+    ) c
+    GROUP BY 1
+  )
+  SELECT buckets.price_from, buckets.price_to, coalesce(matches.match_count, 0)
+  FROM buckets
+  LEFT JOIN matches USING (bucket)
+  ORDER BY buckets.bucket;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_price_histogram(
+  text, text, integer, text, text[], date, date,
+  double precision, double precision, double precision, integer
+) TO anon, authenticated;
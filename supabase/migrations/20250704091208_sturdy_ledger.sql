@@ -0,0 +1,308 @@
+/*
+  # Money in integer minor units with a currency per listing
+
+  1. New Tables
+    - `currencies`
+      - `code` (text, primary key) - ISO 4217 code
+      - `minor_digits` (smallint) - digits of the minor unit (2 for cents, 0 for yen)
+      - `rate_per_eur` (numeric) - units of this currency for one euro
+      - `updated_at` (timestamptz) - when the rate was last refreshed
+    - `admins`
+      - `user_id` (uuid, primary key) - users allowed to refresh exchange rates
+
+  2. Changes
+    - `campers.currency`, `bookings.currency` - ISO code, existing rows are euros
+    - `campers.price`, `bookings.total_price`, `favorites.saved_price` and the
+      amounts inside `campers.pricing` and `bookings.price_breakdown` are integer
+      minor units of that currency (cents), converted from the former decimals
+    - a booking always takes the currency of its camper (trigger)
+    - `favorites.saved_currency` - currency of `saved_price`, copied with it, so
+      favourites of hidden campers still show their price
+
+  3. Security
+    - Enable RLS on `currencies`, everyone can read the rate table
+    - Enable RLS on `admins` without policies, it is managed from the dashboard
+
+  4. Functions
+    - `base_price(camper)` - nightly price in whole euros, the common scale of
+      the price filter, the price sorts and the price histogram; readable as the
+      `base_price` column of campers
+    - `refresh_exchange_rates(rates)` - admins update rates from a
+      `{ "CZK": 24.6, ... }` object
+    - `camper_trip_total` works in minor units, `camper_filter_price` and
+      `camper_sort_key` compare euros
+*/
+
+CREATE TABLE IF NOT EXISTS currencies (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+  minor_digits smallint NOT NULL DEFAULT 2 CHECK (minor_digits BETWEEN 0 AND 3),
+  rate_per_eur numeric(18,8) NOT NULL CHECK (rate_per_eur > 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE currencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read currencies"
+  ON currencies
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Starting rates, refreshed by an admin afterwards
+INSERT INTO currencies (code, minor_digits, rate_per_eur) VALUES
+  ('EUR', 2, 1),
+  ('CZK', 2, 24.7),
+  ('PLN', 2, 4.27),
+  ('HUF', 2, 400),
+  ('CHF', 2, 0.94),
+  ('GBP', 2, 0.85),
+  ('USD', 2, 1.08)
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS admins (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE admins ENABLE ROW LEVEL SECURITY;
+
+-- Campers: price in cents of the listing currency
+ALTER TABLE campers
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'EUR' REFERENCES currencies(code);
+
+ALTER TABLE campers
+  ALTER COLUMN price TYPE integer USING round(price * 100)::integer;
+
+UPDATE campers
+SET pricing = pricing
+  || jsonb_build_object(
+    'cleaningFee', round(coalesce((pricing->>'cleaningFee')::numeric, 0) * 100)::integer,
+    'seasonalRates', coalesce((
+      SELECT jsonb_agg(
+        rate || jsonb_build_object('price', round((rate->>'price')::numeric * 100)::integer)
+        ORDER BY ordinal
+      )
+      FROM jsonb_array_elements(pricing->'seasonalRates') WITH ORDINALITY AS s(rate, ordinal)
+    ), '[]'::jsonb)
+  );
+
+COMMENT ON COLUMN campers.price IS 'Nightly price in minor units of campers.currency';
+COMMENT ON COLUMN campers.pricing IS 'Pricing rules, see PricingRules in src/types; amounts in minor units of campers.currency';
+
+-- Bookings: charged in the camper currency, breakdown amounts in cents as well
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'EUR' REFERENCES currencies(code);
+
+ALTER TABLE bookings
+  ALTER COLUMN total_price TYPE integer USING round(total_price * 100)::integer;
+
+UPDATE bookings
+SET price_breakdown = price_breakdown
+  || jsonb_build_object(
+    'currency', currency,
+    'subtotal', round((price_breakdown->>'subtotal')::numeric * 100)::integer,
+    'fees', round((price_breakdown->>'fees')::numeric * 100)::integer,
+    'total', round((price_breakdown->>'total')::numeric * 100)::integer,
+    'lineItems', coalesce((
+      SELECT jsonb_agg(
+        item
+          || jsonb_build_object('amount', round((item->>'amount')::numeric * 100)::integer)
+          || CASE
+               WHEN item ? 'unitPrice'
+                 THEN jsonb_build_object('unitPrice', round((item->>'unitPrice')::numeric * 100)::integer)
+               ELSE '{}'::jsonb
+             END
+        ORDER BY ordinal
+      )
+      FROM jsonb_array_elements(price_breakdown->'lineItems') WITH ORDINALITY AS l(item, ordinal)
+    ), '[]'::jsonb)
+  )
+WHERE price_breakdown IS NOT NULL;
+
+COMMENT ON COLUMN bookings.total_price IS 'Total in minor units of bookings.currency';
+
+CREATE OR REPLACE FUNCTION set_booking_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.currency := (SELECT currency FROM campers WHERE id = NEW.camper_id);
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_bookings_currency ON bookings;
+CREATE TRIGGER set_bookings_currency
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_currency();
+
+-- Favourites: saved price in the camper currency
+ALTER TABLE favorites
+  ALTER COLUMN saved_price TYPE integer USING round(saved_price * 100)::integer;
+
+ALTER TABLE favorites
+  ADD COLUMN IF NOT EXISTS saved_currency text REFERENCES currencies(code);
+
+UPDATE favorites
+SET saved_currency = campers.currency
+FROM campers
+WHERE campers.id = favorites.camper_id
+  AND favorites.saved_price IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_favorite_saved_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT price, currency
+  INTO NEW.saved_price, NEW.saved_currency
+  FROM campers
+  WHERE id = NEW.camper_id;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_exchange_rates(p_rates jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM admins WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can refresh exchange rates' USING ERRCODE = '42501';
+  END IF;
+
+  -- The euro is the base of the table and always 1
+  UPDATE currencies
+  SET rate_per_eur = rates.value::numeric,
+      updated_at = now()
+  FROM jsonb_each_text(p_rates) AS rates
+  WHERE currencies.code = rates.key
+    AND currencies.code <> 'EUR';
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_exchange_rates(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refresh_exchange_rates(jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION base_price(c campers)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT round(c.price / power(10::numeric, cur.minor_digits) / cur.rate_per_eur, 2)
+  FROM currencies cur
+  WHERE cur.code = c.currency;
+$$;
+
+-- Keep in sync with calculateQuote(): every amount is rounded to whole minor units
+CREATE OR REPLACE FUNCTION camper_trip_total(c campers, p_start_date date, p_end_date date)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH rules AS (
+    SELECT
+      coalesce((c.pricing->>'weekendSurchargePercent')::numeric, 0) AS weekend_percent,
+      coalesce((c.pricing->>'weeklyDiscountPercent')::numeric, 0) AS weekly_percent,
+      coalesce((c.pricing->>'monthlyDiscountPercent')::numeric, 0) AS monthly_percent,
+      round(coalesce((c.pricing->>'cleaningFee')::numeric, 0)) AS cleaning_fee
+  ),
+  nights AS (
+    SELECT round(
+      coalesce(season.price, c.price)
+        * CASE
+            WHEN extract(isodow FROM night) IN (5, 6) AND rules.weekend_percent > 0
+              THEN 1 + rules.weekend_percent / 100
+            ELSE 1
+          END
+    ) AS rate
+    FROM rules,
+      generate_series(p_start_date, p_end_date - 1, interval '1 day') AS night
+      -- First season covering the night; MM-DD bounds are inclusive and may wrap over new year
+      LEFT JOIN LATERAL (
+        SELECT (s.value->>'price')::numeric AS price
+        FROM jsonb_array_elements(coalesce(c.pricing->'seasonalRates', '[]'::jsonb))
+          WITH ORDINALITY AS s(value, ordinal)
+        WHERE CASE
+          WHEN (s.value->>'startDate') <= (s.value->>'endDate')
+            THEN to_char(night, 'MM-DD') BETWEEN (s.value->>'startDate') AND (s.value->>'endDate')
+          ELSE to_char(night, 'MM-DD') >= (s.value->>'startDate')
+            OR to_char(night, 'MM-DD') <= (s.value->>'endDate')
+        END
+        ORDER BY s.ordinal
+        LIMIT 1
+      ) season ON true
+  ),
+  stay AS (
+    SELECT
+      count(*) AS night_count,
+      sum(nights.rate) AS nights_total
+    FROM nights
+  ),
+  subtotal AS (
+    SELECT
+      stay.nights_total - round(
+        stay.nights_total * CASE
+          WHEN stay.night_count >= 28 AND rules.monthly_percent > 0 THEN rules.monthly_percent
+          WHEN stay.night_count >= 7 AND rules.weekly_percent > 0 THEN rules.weekly_percent
+          ELSE 0
+        END / 100
+      ) AS amount,
+      rules.cleaning_fee
+    FROM stay, rules
+    WHERE stay.night_count > 0
+  )
+  SELECT amount + cleaning_fee + round((amount + cleaning_fee) * 0.1)
+  FROM subtotal;
+$$;
+
+-- Whole euros, so listings in different currencies share one price filter
+CREATE OR REPLACE FUNCTION camper_filter_price(
+  c campers,
+  p_price_basis text,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_price_basis = 'trip' AND p_start_date IS NOT NULL AND p_end_date IS NOT NULL
+      THEN camper_trip_total(c, p_start_date, p_end_date)
+    ELSE c.price
+  END / power(10::numeric, cur.minor_digits) / cur.rate_per_eur
+  FROM currencies cur
+  WHERE cur.code = c.currency;
+$$;
+
+CREATE OR REPLACE FUNCTION camper_sort_key(
+  c campers,
+  p_sort text,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_tokens text[] DEFAULT '{}'
+)
+RETURNS numeric[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_sort = 'priceAsc' THEN ARRAY[base_price(c), 0]
+    WHEN p_sort = 'priceDesc' THEN ARRAY[-base_price(c), 0]
+    WHEN p_sort = 'rating' THEN ARRAY[-c.rating, -c.review_count::numeric]
+    WHEN p_sort = 'reviewCount' THEN ARRAY[-c.review_count::numeric, 0]
+    WHEN p_sort = 'capacity' THEN ARRAY[-c.capacity::numeric, 0]
+    -- Without a searched place the distance sort falls back to newest
+    WHEN p_sort = 'distance' AND p_lat IS NOT NULL AND p_lng IS NOT NULL THEN ARRAY[
+      CASE WHEN c.latitude IS NULL THEN 1 ELSE 0 END,
+      coalesce(round(distance_km(p_lat, p_lng, c.latitude, c.longitude)::numeric, 3), 0)
+    ]
+    WHEN p_sort = 'relevance' THEN ARRAY[-camper_search_rank(c.search_vector, p_tokens)::numeric, 0]
+    ELSE ARRAY[0, 0]::numeric[]
+  END;
+$$;
@@ -0,0 +1,48 @@
+/*
+  # Booking prices are set by the database
+
+  1. Changes
+    - `bookings.total_price` is computed from the camper pricing with
+      `camper_trip_total()` on insert, whatever the client sent
+    - the quote in `bookings.price_breakdown` must add up to that total,
+      otherwise the booking is rejected (the price changed since it was quoted,
+      or the quote was tampered with)
+    - `bookings.currency` and the breakdown currency are set by the same trigger,
+      replacing `set_booking_currency()`
+*/
+
+CREATE OR REPLACE FUNCTION set_booking_price()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_camper campers;
+  v_total integer;
+BEGIN
+  SELECT * INTO v_camper FROM campers WHERE id = NEW.camper_id;
+  v_total := camper_trip_total(v_camper, NEW.start_date, NEW.end_date);
+
+  IF v_total IS NULL THEN
+    RAISE EXCEPTION 'Camper % cannot be priced for these dates', NEW.camper_id
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- jsonb compares numbers by value, 1725 and 1725.0 are equal
+  IF NEW.price_breakdown IS NULL OR NEW.price_breakdown->'total' IS DISTINCT FROM to_jsonb(v_total) THEN
+    RAISE EXCEPTION 'Quoted total does not match the current price of %', v_total
+      USING ERRCODE = '22023';
+  END IF;
+
+  NEW.total_price := v_total;
+  NEW.currency := v_camper.currency;
+  NEW.price_breakdown := NEW.price_breakdown || jsonb_build_object('currency', v_camper.currency);
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_bookings_currency ON bookings;
+DROP FUNCTION IF EXISTS set_booking_currency();
+
+DROP TRIGGER IF EXISTS set_bookings_price ON bookings;
+CREATE TRIGGER set_bookings_price
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_price();
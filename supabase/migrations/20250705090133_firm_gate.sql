@@ -0,0 +1,24 @@
+/*
+  # Owner blocks apply to customer bookings
+
+  1. Changes
+    - `check_booking_not_blocked()` runs with definer rights: only owners can read
+      `camper_blocks`, so with the customer's rights the lookup found no blocks
+      and customers could book blocked dates
+*/
+
+CREATE OR REPLACE FUNCTION check_booking_not_blocked()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('pending', 'confirmed') AND EXISTS (
+    SELECT 1 FROM camper_blocks
+    WHERE camper_blocks.camper_id = NEW.camper_id
+      AND daterange(camper_blocks.start_date, camper_blocks.end_date, '[)')
+          && daterange(NEW.start_date, NEW.end_date, '[)')
+  ) THEN
+    RAISE EXCEPTION 'Camper is not available for the selected dates'
+      USING ERRCODE = '23P01';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
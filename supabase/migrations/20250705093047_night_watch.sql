@@ -0,0 +1,75 @@
+/*
+  # Scheduled booking jobs
+
+  1. Transition rules (mirrored in src/lib/bookingStatus.ts)
+    - pending -> cancelled : system, when the request expires
+
+  2. Functions
+    - `expire_pending_bookings()` - cancels requests the owner has not answered
+      within 72 hours, or by the check-in day, so they stop blocking the dates
+
+  3. Scheduled jobs (pg_cron)
+    - `complete-finished-bookings` - nightly, confirmed stays whose check-out day
+      has passed become completed and can be reviewed
+    - `expire-pending-bookings` - hourly
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION booking_transition_allowed(
+  p_from text,
+  p_to text,
+  p_actor text,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_from = 'pending' AND p_to = 'confirmed'
+      THEN p_actor = 'owner' AND current_date < p_start_date
+    -- Expiry decides when, see expire_pending_bookings()
+    WHEN p_from = 'pending' AND p_to = 'cancelled' AND p_actor = 'system'
+      THEN true
+    WHEN p_from IN ('pending', 'confirmed') AND p_to = 'cancelled'
+      THEN p_actor IN ('owner', 'customer') AND current_date < p_start_date
+    WHEN p_from = 'confirmed' AND p_to = 'completed'
+      THEN p_actor = 'system' AND current_date >= p_end_date
+    ELSE false
+  END;
+$$;
+
+-- System job: cancel requests left unanswered
+CREATE OR REPLACE FUNCTION expire_pending_bookings()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH expired AS (
+    UPDATE bookings
+    SET status = 'cancelled'
+    WHERE status = 'pending'
+      AND (created_at < now() - interval '72 hours' OR start_date <= current_date)
+      AND booking_transition_allowed(status, 'cancelled', 'system', start_date, end_date)
+    RETURNING id
+  )
+  INSERT INTO booking_status_history (booking_id, from_status, to_status, actor, note)
+  SELECT id, 'pending', 'cancelled', 'system', 'Request expired without an answer from the owner'
+  FROM expired;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_pending_bookings() FROM public, anon, authenticated;
+
+-- cron.schedule replaces an existing job of the same name, so this is safe to re-run
+SELECT cron.schedule('complete-finished-bookings', '15 0 * * *', 'SELECT public.complete_finished_bookings()');
+SELECT cron.schedule('expire-pending-bookings', '5 * * * *', 'SELECT public.expire_pending_bookings()');
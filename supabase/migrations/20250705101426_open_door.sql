@@ -0,0 +1,60 @@
+/*
+  # Customers can become owners
+
+  1. Functions
+    - `become_owner()` - switches the signed-in customer to the owner role so
+      they can list a campervan; the only way to change a role
+
+  2. Changes
+    - `protect_user_fields()` lets `become_owner()` through, direct updates of
+      `users.role` are still ignored
+*/
+
+CREATE OR REPLACE FUNCTION protect_user_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    NEW.email := OLD.email;
+    IF coalesce(current_setting('app.role_change', true), '') <> 'become_owner' THEN
+      NEW.role := OLD.role;
+    END IF;
+    NEW.rating := OLD.rating;
+    NEW.review_count := OLD.review_count;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION become_owner()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  -- Transaction-local, so it only covers this update
+  PERFORM set_config('app.role_change', 'become_owner', true);
+
+  UPDATE users
+  SET role = 'owner'
+  WHERE id = auth.uid()
+  RETURNING role INTO v_role;
+
+  PERFORM set_config('app.role_change', '', true);
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_role;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION become_owner() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION become_owner() TO authenticated;
@@ -0,0 +1,61 @@
+/*
+  # Private contact details
+
+  1. New Tables
+    - `user_contacts`
+      - `user_id` (uuid, primary key) - references users.id
+      - `phone` (text, nullable) - contact number, moved from `users.phone`
+      - `updated_at` (timestamp) - when the record was last updated
+
+  2. Changes
+    - `users.phone` is dropped: every row of `users` is readable by anyone
+      ("Public can read basic user info"), so the phone number was public.
+      `users.bio` stays, it is the introduction shown to hosts and guests.
+
+  3. Security
+    - Enable RLS on `user_contacts`, users read and write only their own row
+*/
+
+CREATE TABLE IF NOT EXISTS user_contacts (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  phone text,
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT user_contacts_phone_format CHECK (phone IS NULL OR phone ~ '^\+?[0-9][0-9 ]{5,19}$')
+);
+
+ALTER TABLE user_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own contacts"
+  ON user_contacts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own contacts"
+  ON user_contacts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own contacts"
+  ON user_contacts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_contacts_updated_at
+  BEFORE UPDATE ON user_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO user_contacts (user_id, phone)
+SELECT id, phone
+FROM users
+WHERE phone IS NOT NULL
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_phone_format;
+ALTER TABLE users DROP COLUMN IF EXISTS phone;
+
+COMMENT ON TABLE user_contacts IS 'Private contact details, readable only by the user';
@@ -0,0 +1,73 @@
+/*
+  # Radius search keeps listings without coordinates
+
+  1. Changes
+    - `filter_campers` (and so `search_campers`, `search_facets` and
+      `search_price_histogram`) no longer drops campers without coordinates from
+      a radius search. Listings created before geocoding have no coordinates and
+      there is no way yet to add them, so they silently disappeared; they are now
+      kept when they match the searched text, sorted last by distance, and shown
+      with an unknown distance
+*/
+
+CREATE OR REPLACE FUNCTION filter_campers(
+  p_query text,
+  p_min_price numeric,
+  p_max_price numeric,
+  p_price_basis text,
+  p_min_capacity integer,
+  p_type text,
+  p_amenities text[],
+  p_start_date date,
+  p_end_date date,
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_km double precision
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT search_tsquery(search_tokens(p_query)) AS query
+  )
+  SELECT c.*
+  FROM campers c, search
+  WHERE c.is_published
+    AND (search.query IS NULL OR c.search_vector @@ search.query)
+    -- Radius around the searched place: cheap bounding box first, exact distance second.
+    -- Campers without coordinates cannot be measured; they stay in when they match
+    -- the searched text and are shown with an unknown distance
+    AND (
+      p_lat IS NULL OR p_lng IS NULL OR coalesce(p_radius_km, 0) <= 0
+      OR c.latitude IS NULL
+      OR (
+        c.latitude BETWEEN p_lat - p_radius_km / 111.045 AND p_lat + p_radius_km / 111.045
+        AND distance_km(p_lat, p_lng, c.latitude, c.longitude) <= p_radius_km
+      )
+    )
+    AND (p_min_price IS NULL OR camper_filter_price(c, p_price_basis, p_start_date, p_end_date) >= p_min_price)
+    AND (p_max_price IS NULL OR camper_filter_price(c, p_price_basis, p_start_date, p_end_date) <= p_max_price)
+    AND c.capacity >= coalesce(p_min_capacity, 0)
+    AND (coalesce(p_type, '') = '' OR c.type = p_type)
+    AND c.amenities @> coalesce(p_amenities, '{}')
+    -- Free for every night of [start, end): no active booking or owner block overlaps
+    AND (
+      p_start_date IS NULL OR p_end_date IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.camper_id = c.id
+            AND b.status IN ('pending', 'confirmed')
+            AND b.start_date < p_end_date
+            AND b.end_date > p_start_date
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM camper_blocks cb
+          WHERE cb.camper_id = c.id
+            AND cb.start_date < p_end_date
+            AND cb.end_date > p_start_date
+        )
+      )
+    );
+$$;
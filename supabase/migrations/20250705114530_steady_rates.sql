@@ -0,0 +1,107 @@
+/*
+  # Exchange rates managed from the app
+
+  1. Security
+    - `admins`: a user can read their own row, so the app knows who may
+      manage exchange rates
+
+  2. Functions
+    - `refresh_exchange_rates(rates)` checks the whole object before updating:
+      every code must be a known currency other than the euro and every rate a
+      positive number that fits the rate column, otherwise nothing is updated
+    - `grant_admin(email)` - an admin makes another registered user an admin;
+      the first admin is still added from the dashboard
+*/
+
+CREATE POLICY "Users can read own admin row"
+  ON admins
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION refresh_exchange_rates(p_rates jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invalid text;
+  updated_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM admins WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can refresh exchange rates' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rates) IS DISTINCT FROM 'object' OR p_rates = '{}'::jsonb THEN
+    RAISE EXCEPTION 'Rates must be an object of currency codes and rates' USING ERRCODE = '22023';
+  END IF;
+
+  -- The euro is the base of the table and always 1
+  SELECT string_agg(rates.key, ', ' ORDER BY rates.key)
+  INTO v_invalid
+  FROM jsonb_each(p_rates) AS rates
+  WHERE rates.key = 'EUR'
+    OR NOT EXISTS (SELECT 1 FROM currencies WHERE code = rates.key);
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown currency codes: %', v_invalid USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(rates.key, ', ' ORDER BY rates.key)
+  INTO v_invalid
+  FROM jsonb_each(p_rates) AS rates
+  -- CASE, so strings and nulls never reach the numeric cast; the bounds are
+  -- those of numeric(18,8), a rate rounding to 0 would break the CHECK
+  WHERE CASE
+    WHEN jsonb_typeof(rates.value) = 'number'
+      THEN NOT (round((rates.value)::numeric, 8) > 0 AND (rates.value)::numeric < 1e10)
+    ELSE true
+  END;
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Rates must be positive numbers: %', v_invalid USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE currencies
+  SET rate_per_eur = (rates.value)::numeric,
+      updated_at = now()
+  FROM jsonb_each(p_rates) AS rates
+  WHERE currencies.code = rates.key;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grant_admin(p_email text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM admins WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can add admins' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM users
+  WHERE lower(email) = lower(trim(p_email));
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user with this email' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO admins (user_id)
+  VALUES (v_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION grant_admin(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION grant_admin(text) TO authenticated;
@@ -0,0 +1,269 @@
+/*
+  # Radius search keeps uncoordinated listings only for their own place
+
+  1. Changes
+    - `filter_campers`, `search_campers`, `search_facets` and
+      `search_price_histogram` take `p_place`, the text of the searched place.
+      A place search sends no `p_query`, so campers without coordinates used to
+      pass every radius filter; now they are kept only when their location
+      matches the searched place, in the results as well as in the counts and
+      the price histogram
+*/
+
+-- Functions that call filter_campers go first, their bodies are not tracked as dependencies
+DROP FUNCTION IF EXISTS search_facets(
+  text, numeric, numeric, text, integer, text, text[], date, date,
+  double precision, double precision, double precision
+);
+
+DROP FUNCTION IF EXISTS search_campers(
+  text, numeric, numeric, text, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision
+);
+
+DROP FUNCTION IF EXISTS search_price_histogram(
+  text, text, integer, text, text[], date, date,
+  double precision, double precision, double precision, integer
+);
+
+DROP FUNCTION IF EXISTS filter_campers(
+  text, numeric, numeric, text, integer, text, text[], date, date,
+  double precision, double precision, double precision
+);
+
+CREATE OR REPLACE FUNCTION filter_campers(
+  p_query text,
+  p_min_price numeric,
+  p_max_price numeric,
+  p_price_basis text,
+  p_min_capacity integer,
+  p_type text,
+  p_amenities text[],
+  p_start_date date,
+  p_end_date date,
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_km double precision,
+  p_place text
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT
+      search_tsquery(search_tokens(p_query)) AS query,
+      search_tsquery(search_tokens(p_place)) AS place_query
+  )
+  SELECT c.*
+  FROM campers c, search
+  WHERE c.is_published
+    AND (search.query IS NULL OR c.search_vector @@ search.query)
+    -- Radius around the searched place: cheap bounding box first, exact distance second.
+    -- Campers without coordinates cannot be measured; they stay in only when their
+    -- location (weight B of the search vector) names the searched place
+    AND (
+      p_lat IS NULL OR p_lng IS NULL OR coalesce(p_radius_km, 0) <= 0
+      OR (
+        c.latitude IS NULL
+        AND search.place_query IS NOT NULL
+        AND ts_filter(c.search_vector, '{b}') @@ search.place_query
+      )
+      OR (
+        c.latitude BETWEEN p_lat - p_radius_km / 111.045 AND p_lat + p_radius_km / 111.045
+        AND distance_km(p_lat, p_lng, c.latitude, c.longitude) <= p_radius_km
+      )
+    )
+    AND (p_min_price IS NULL OR camper_filter_price(c, p_price_basis, p_start_date, p_end_date) >= p_min_price)
+    AND (p_max_price IS NULL OR camper_filter_price(c, p_price_basis, p_start_date, p_end_date) <= p_max_price)
+    AND c.capacity >= coalesce(p_min_capacity, 0)
+    AND (coalesce(p_type, '') = '' OR c.type = p_type)
+    AND c.amenities @> coalesce(p_amenities, '{}')
+    -- Free for every night of [start, end): no active booking or owner block overlaps
+    AND (
+      p_start_date IS NULL OR p_end_date IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.camper_id = c.id
+            AND b.status IN ('pending', 'confirmed')
+            AND b.start_date < p_end_date
+            AND b.end_date > p_start_date
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM camper_blocks cb
+          WHERE cb.camper_id = c.id
+            AND cb.start_date < p_end_date
+            AND cb.end_date > p_start_date
+        )
+      )
+    );
+$$;
+
+-- Without the definer's rights the travel date filter would only see the caller's bookings
+REVOKE EXECUTE ON FUNCTION filter_campers(
+  text, numeric, numeric, text, integer, text, text[], date, date,
+  double precision, double precision, double precision, text
+) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION search_campers(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_price_basis text DEFAULT 'night',
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_after_id uuid DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL,
+  p_place text DEFAULT ''
+)
+RETURNS SETOF campers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT search_tokens(p_query) AS tokens
+  )
+  SELECT c.*
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_price_basis, p_min_capacity, p_type, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km, p_place
+  ) c, search
+  WHERE p_after_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM campers a
+      WHERE a.id = p_after_id
+        AND (
+          camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) > camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+          OR (
+            camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens) = camper_sort_key(a, p_sort, p_lat, p_lng, search.tokens)
+            AND (c.created_at < a.created_at OR (c.created_at = a.created_at AND c.id > a.id))
+          )
+        )
+    )
+  ORDER BY camper_sort_key(c, p_sort, p_lat, p_lng, search.tokens), c.created_at DESC, c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_campers(
+  text, numeric, numeric, text, integer, text, text[], date, date, text, uuid,
+  double precision, double precision, double precision, text
+) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION search_facets(
+  p_query text DEFAULT '',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_price_basis text DEFAULT 'night',
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL,
+  p_place text DEFAULT ''
+)
+RETURNS TABLE (facet text, value text, match_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'type', c.type, count(*)::integer
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_price_basis, p_min_capacity, NULL, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km, p_place
+  ) c
+  GROUP BY c.type
+
+  UNION ALL
+
+  SELECT 'amenity', amenity, count(*)::integer
+  FROM filter_campers(
+    p_query, p_min_price, p_max_price, p_price_basis, p_min_capacity, p_type, p_amenities,
+    p_start_date, p_end_date, p_lat, p_lng, p_radius_km, p_place
+  ) c, unnest(c.amenities) AS amenity
+  GROUP BY amenity;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_facets(
+  text, numeric, numeric, text, integer, text, text[], date, date,
+  double precision, double precision, double precision, text
+) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION search_price_histogram(
+  p_query text DEFAULT '',
+  p_price_basis text DEFAULT 'night',
+  p_min_capacity integer DEFAULT 0,
+  p_type text DEFAULT NULL,
+  p_amenities text[] DEFAULT '{}',
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL,
+  p_buckets integer DEFAULT 20,
+  p_place text DEFAULT ''
+)
+RETURNS TABLE (price_from integer, price_to integer, match_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      floor(min(camper_filter_price(c, p_price_basis, p_start_date, p_end_date)))::integer AS low,
+      ceil(max(camper_filter_price(c, p_price_basis, p_start_date, p_end_date)))::integer AS high
+    FROM campers c
+    WHERE c.is_published
+  ),
+  sized AS (
+    SELECT low, high, greatest(ceil((high - low)::numeric / greatest(p_buckets, 1)), 1)::integer AS width
+    FROM bounds
+    WHERE low IS NOT NULL
+  ),
+  layout AS (
+    SELECT low, high, width, greatest(ceil((high - low)::numeric / width)::integer, 1) AS bucket_count
+    FROM sized
+  ),
+  buckets AS (
+    SELECT
+      bucket,
+      layout.low + bucket * layout.width AS price_from,
+      least(layout.low + (bucket + 1) * layout.width, layout.high) AS price_to
+    FROM layout, generate_series(0, layout.bucket_count - 1) AS bucket
+  ),
+  matches AS (
+    SELECT
+      -- The dearest camper sits on the upper edge of the last bucket
+      least(
+        floor((camper_filter_price(c, p_price_basis, p_start_date, p_end_date) - layout.low) / layout.width)::integer,
+        layout.bucket_count - 1
+      ) AS bucket,
+      count(*)::integer AS match_count
+    FROM layout, filter_campers(
+      p_query, NULL, NULL, p_price_basis, p_min_capacity, p_type, p_amenities,
+      p_start_date, p_end_date, p_lat, p_lng, p_radius_km, p_place
+    ) c
+    GROUP BY 1
+  )
+  SELECT buckets.price_from, buckets.price_to, coalesce(matches.match_count, 0)
+  FROM buckets
+  LEFT JOIN matches USING (bucket)
+  ORDER BY buckets.bucket;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_price_histogram(
+  text, text, integer, text, text[], date, date,
+  double precision, double precision, double precision, integer, text
+) TO anon, authenticated;